@@ -0,0 +1,224 @@
+// Alertas sobre las métricas en directo: reglas escritas como "cpu-usage > 80% for 10s",
+// "threadpool-queue-length > 50" o "gen-2-size growing for 5 min", evaluadas con cada registro que llega.
+// Una regla puede además recoger diagnósticos (pilas, traza, gcdump...) al dispararse
+import { baselineKey } from './baseline';
+
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+
+export type CaptureKind = 'stacks' | 'gcdump' | 'dump' | 'trace' | 'logs';
+
+export interface CaptureAction {
+	kind: CaptureKind;
+	durationSeconds?: number;
+	// Perfil de /trace o tipo de /dump
+	option?: string;
+}
+
+// Regla con captura tal como se escribe en los ajustes
+export interface AlertRuleConfig {
+	when: string;
+	capture?: string[];
+	cooldown?: string;
+	maxCaptures?: number;
+}
+
+export interface AlertRule {
+	text: string;
+	// Clave de la métrica, la misma que en las baselines (nombre o proveedor/nombre[tags])
+	metric: string;
+	kind: 'threshold' | 'growing';
+	operator?: AlertOperator;
+	threshold?: number;
+	durationMs: number;
+	captures: CaptureAction[];
+	// Tiempo mínimo entre dos capturas de la regla y número máximo de capturas por sesión
+	cooldownMs: number;
+	maxCaptures: number;
+}
+
+// Capturas hechas por una regla en la sesión de monitorización de un proceso
+export interface CaptureBudget {
+	count: number;
+	last?: number;
+}
+
+// Estado de una regla para una serie: desde cuándo se cumple la condición y si la alerta está disparada
+export interface AlertState {
+	since?: number;
+	startValue?: number;
+	last?: number;
+	firing: boolean;
+}
+
+export type AlertTransition = 'fired' | 'resolved' | undefined;
+
+// Las reglas comparan con el valor que muestra la tarjeta del dashboard: cpu-usage en porcentaje
+// y los tamaños de generación y el presupuesto de gen 0 en MB
+const DISPLAY_SCALE: Record<string, number> = {
+	'cpu-usage': 100,
+	'gen-0-gc-budget': 1 / 1024 / 1024,
+	'gen-0-size': 1 / 1024 / 1024,
+	'gen-1-size': 1 / 1024 / 1024,
+	'gen-2-size': 1 / 1024 / 1024,
+	'loh-size': 1 / 1024 / 1024,
+	'poh-size': 1 / 1024 / 1024
+};
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+const DEFAULT_COOLDOWN_MS = 5 * 60000;
+const DEFAULT_MAX_CAPTURES = 3;
+const DEFAULT_CAPTURE_SECONDS: Partial<Record<CaptureKind, number>> = { trace: 10, logs: 30 };
+const TRACE_PROFILES = ['Cpu', 'Http', 'Logs', 'Metrics'];
+const DUMP_TYPES = ['Mini', 'WithHeap', 'Triage', 'Full'];
+
+// Función para leer una duración como "10s", "5 min" o "1 hour"
+export function parseDuration(texto: string): number | undefined {
+	const partes = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|sec|secs|seconds?|m|min|mins|minutes?|h|hours?)\s*$/i.exec(texto);
+	if (!partes) {
+		return undefined;
+	}
+	const unidad = partes[2].toLowerCase();
+	const factor = unidad === 'ms' ? DURATION_UNITS.ms : DURATION_UNITS[unidad[0]];
+	return Number(partes[1]) * factor;
+}
+
+// Función para leer una captura: "stacks", "gcdump", "dump [Mini|WithHeap|Triage|Full]",
+// "trace [<duración>] [Cpu|Http|Logs|Metrics]" o "logs [<duración>]"
+export function parseCaptureAction(texto: string): CaptureAction | undefined {
+	const [kind, ...resto] = texto.trim().split(/\s+/);
+	const accion: CaptureAction = { kind: kind.toLowerCase() as CaptureKind };
+	if (!['stacks', 'gcdump', 'dump', 'trace', 'logs'].includes(accion.kind)) {
+		return undefined;
+	}
+	for (const parte of resto) {
+		const duracion = parseDuration(parte);
+		const opcion = (accion.kind === 'trace' ? TRACE_PROFILES : accion.kind === 'dump' ? DUMP_TYPES : [])
+			.find(valor => valor.toLowerCase() === parte.toLowerCase());
+		if (duracion !== undefined && duracion >= 1000 && (accion.kind === 'trace' || accion.kind === 'logs')) {
+			accion.durationSeconds = Math.round(duracion / 1000);
+		} else if (opcion) {
+			accion.option = opcion;
+		} else {
+			return undefined;
+		}
+	}
+	if (accion.durationSeconds === undefined && DEFAULT_CAPTURE_SECONDS[accion.kind]) {
+		accion.durationSeconds = DEFAULT_CAPTURE_SECONDS[accion.kind];
+	}
+	return accion;
+}
+
+// Función para leer una regla. Devuelve undefined si no tiene el formato
+// "<métrica> <op> <valor>[%|MB|GB] [for <duración>]" o "<métrica> growing for <duración>".
+// Las reglas con captura se escriben como objeto: { when, capture, cooldown, maxCaptures }
+export function parseAlertRule(regla: string | AlertRuleConfig): AlertRule | undefined {
+	const texto = typeof regla === 'string' ? regla : regla?.when;
+	if (typeof texto !== 'string') {
+		return undefined;
+	}
+	const partes = /^\s*(\S+)\s+(?:(>=|<=|>|<)\s*(-?\d+(?:\.\d+)?)\s*(%|MB|GB)?|(growing))(?:\s+for\s+(.+?))?\s*$/i.exec(texto);
+	if (!partes) {
+		return undefined;
+	}
+	const durationMs = partes[6] !== undefined ? parseDuration(partes[6]) : 0;
+	// Crecer sólo tiene sentido durante un tiempo
+	if (durationMs === undefined || (partes[5] && !durationMs)) {
+		return undefined;
+	}
+
+	let captures: CaptureAction[] = [];
+	let textoCapturas = '';
+	let cooldownMs = DEFAULT_COOLDOWN_MS;
+	let maxCaptures = DEFAULT_MAX_CAPTURES;
+	if (typeof regla !== 'string') {
+		const acciones = (regla.capture ?? []).map(parseCaptureAction);
+		const cooldown = regla.cooldown !== undefined ? parseDuration(regla.cooldown) : cooldownMs;
+		if (acciones.some(accion => !accion) || cooldown === undefined || (regla.maxCaptures !== undefined && !(regla.maxCaptures >= 1))) {
+			return undefined;
+		}
+		captures = acciones as CaptureAction[];
+		textoCapturas = (regla.capture ?? []).map(c => c.trim()).join(', ');
+		cooldownMs = cooldown;
+		maxCaptures = regla.maxCaptures ?? maxCaptures;
+	}
+
+	// El texto identifica la regla en las notificaciones, el historial y al silenciarla
+	const text = texto.trim() + (captures.length > 0 ? ` → ${textoCapturas}` : '');
+	const comun = { text, metric: partes[1], durationMs, captures, cooldownMs, maxCaptures };
+	if (partes[5]) {
+		return { ...comun, kind: 'growing' };
+	}
+	// Los tamaños se muestran en MB en el dashboard
+	const threshold = Number(partes[3]) * (partes[4]?.toUpperCase() === 'GB' ? 1024 : 1);
+	return { ...comun, kind: 'threshold', operator: partes[2] as AlertOperator, threshold };
+}
+
+// Función para decidir si una regla disparada puede capturar: respeta el tiempo de espera entre capturas
+// y el máximo por sesión. Si puede, apunta la captura en el presupuesto
+export function takeCapture(rule: AlertRule, budget: CaptureBudget, now: number): 'ok' | 'cooldown' | 'limit' {
+	if (budget.count >= rule.maxCaptures) {
+		return 'limit';
+	}
+	if (budget.last !== undefined && now - budget.last < rule.cooldownMs) {
+		return 'cooldown';
+	}
+	budget.count++;
+	budget.last = now;
+	return 'ok';
+}
+
+export function displayValue(metric: any): number {
+	return metric.value * (DISPLAY_SCALE[baselineKey(metric)] ?? 1);
+}
+
+export function matchesAlertRule(rule: AlertRule, metric: any): boolean {
+	return typeof metric?.value === 'number' && baselineKey(metric) === rule.metric;
+}
+
+function cumpleUmbral(rule: AlertRule, valor: number): boolean {
+	const umbral = rule.threshold!;
+	switch (rule.operator) {
+		case '>': return valor > umbral;
+		case '>=': return valor >= umbral;
+		case '<': return valor < umbral;
+		default: return valor <= umbral;
+	}
+}
+
+// Función para evaluar una regla con un nuevo valor (ya en la escala del dashboard). Una alerta se dispara
+// una vez cuando la condición se cumple durante todo el tiempo indicado y se resuelve cuando deja de cumplirse
+export function evaluateAlert(rule: AlertRule, state: AlertState, t: number, valor: number): AlertTransition {
+	let cumple: boolean;
+	if (rule.kind === 'growing') {
+		// Cualquier bajada reinicia el tramo de crecimiento
+		if (state.last === undefined || valor < state.last) {
+			state.since = t;
+			state.startValue = valor;
+		}
+		state.last = valor;
+		cumple = valor > state.startValue! && t - state.since! >= rule.durationMs;
+		if (!cumple && state.firing && state.since === t) {
+			state.firing = false;
+			return 'resolved';
+		}
+	} else {
+		cumple = cumpleUmbral(rule, valor);
+		if (!cumple) {
+			state.since = undefined;
+			if (state.firing) {
+				state.firing = false;
+				return 'resolved';
+			}
+			return undefined;
+		}
+		state.since ??= t;
+		cumple = t - state.since >= rule.durationMs;
+	}
+
+	if (cumple && !state.firing) {
+		state.firing = true;
+		return 'fired';
+	}
+	return undefined;
+}
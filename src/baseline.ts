@@ -0,0 +1,174 @@
+// Baselines de métricas: estadísticas (min, media, p95 y max) de una sesión de referencia con las que
+// comparar sesiones posteriores para detectar regresiones antes y después de un cambio
+import { RecordedMetric } from './recording';
+
+export interface MetricStats {
+	min: number;
+	avg: number;
+	p95: number;
+	max: number;
+	count: number;
+}
+
+export interface Baseline {
+	name: string;
+	createdAt: string;
+	pid?: number;
+	from: string;
+	to: string;
+	metrics: Record<string, MetricStats & { unit?: string }>;
+}
+
+// Valores de cada métrica por clave, sin el resto del registro. Permite calcular las estadísticas de una
+// sesión larga sin conservar en memoria los registros completos
+export type MetricSeries = Map<string, { unit?: string; values: number[] }>;
+
+export type Severity = 'improved' | 'unchanged' | 'minor' | 'major' | 'critical';
+
+export interface MetricDelta {
+	key: string;
+	unit?: string;
+	baseline: MetricStats;
+	current: MetricStats;
+	// Variación relativa de la media (0.38 = +38%)
+	change: number;
+	severity: Severity;
+	label: string;
+}
+
+// Métricas en las que subir es bueno (rendimiento); en el resto subir es una regresión
+const HIGHER_IS_BETTER = [
+	'threadpool-completed-items-count',
+	'Microsoft.AspNetCore.Hosting/requests-per-second',
+	'Microsoft-AspNetCore-Server-Kestrel/connections-per-second'
+];
+
+// Orden de gravedad para ordenar y resumir las diferencias
+const SEVERITY_ORDER: Severity[] = ['critical', 'major', 'minor', 'improved', 'unchanged'];
+
+// Función para obtener la clave de una métrica: su nombre para las de System.Runtime (las de metricMap
+// en el dashboard) y proveedor/nombre[tags] para el resto
+export function baselineKey(metric: any): string {
+	if ((!metric.provider || metric.provider === 'System.Runtime') && !metric.tags) {
+		return metric.name;
+	}
+	return `${metric.provider}/${metric.name}${metric.tags ? `[${metric.tags}]` : ''}`;
+}
+
+// Función para calcular min, media, p95 (por rango más cercano) y max de una serie de valores
+export function computeStats(values: number[]): MetricStats {
+	const ordenados = [...values].sort((a, b) => a - b);
+	const suma = ordenados.reduce((total, v) => total + v, 0);
+	return {
+		min: ordenados[0],
+		avg: suma / ordenados.length,
+		p95: ordenados[Math.max(0, Math.ceil(ordenados.length * 0.95) - 1)],
+		max: ordenados[ordenados.length - 1],
+		count: ordenados.length
+	};
+}
+
+// Función para añadir el valor de una métrica a su serie (los valores no numéricos se ignoran)
+export function addToSeries(series: MetricSeries, metric: any): void {
+	if (typeof metric?.value !== 'number' || !isFinite(metric.value)) {
+		return;
+	}
+	const clave = baselineKey(metric);
+	if (!series.has(clave)) {
+		series.set(clave, { unit: metric.unit || undefined, values: [] });
+	}
+	series.get(clave)!.values.push(metric.value);
+}
+
+export function summarizeSeries(series: MetricSeries): Record<string, MetricStats & { unit?: string }> {
+	const resultado: Record<string, MetricStats & { unit?: string }> = {};
+	for (const [clave, serie] of series) {
+		resultado[clave] = { ...computeStats(serie.values), unit: serie.unit };
+	}
+	return resultado;
+}
+
+// Función para calcular las estadísticas de cada métrica de una lista de registros
+export function summarizeRecords(records: RecordedMetric[]): Record<string, MetricStats & { unit?: string }> {
+	const series: MetricSeries = new Map();
+	for (const registro of records) {
+		addToSeries(series, registro.metric);
+	}
+	return summarizeSeries(series);
+}
+
+export function createBaseline(name: string, records: RecordedMetric[], createdAt: Date, pid?: number): Baseline {
+	return {
+		name,
+		createdAt: createdAt.toISOString(),
+		pid,
+		from: new Date(records[0].t).toISOString(),
+		to: new Date(records[records.length - 1].t).toISOString(),
+		metrics: summarizeRecords(records)
+	};
+}
+
+// Función para mostrar una variación: +38%, -12% o, a partir del doble, +4x
+export function formatChange(change: number): string {
+	if (!isFinite(change)) {
+		return 'from 0';
+	}
+	if (change >= 1) {
+		return `+${Number((change + 1).toFixed(1))}x`;
+	}
+	const porcentaje = Math.round(change * 100);
+	return `${porcentaje > 0 ? '+' : porcentaje < 0 ? '-' : '±'}${Math.abs(porcentaje)}%`;
+}
+
+function getSeverity(key: string, change: number): Severity {
+	const magnitud = Math.abs(change);
+	if (magnitud < 0.1) {
+		return 'unchanged';
+	}
+	const empeora = HIGHER_IS_BETTER.includes(key) ? change < 0 : change > 0;
+	if (!empeora) {
+		return 'improved';
+	}
+	return magnitud < 0.25 ? 'minor' : magnitud < 1 ? 'major' : 'critical';
+}
+
+function soloEstadisticas(stats: MetricStats): MetricStats {
+	return { min: stats.min, avg: stats.avg, p95: stats.p95, max: stats.max, count: stats.count };
+}
+
+// Función para comparar las métricas de una sesión (sus registros o sus series) con la baseline
+// (sólo las que están en ambas), de más grave a menos grave
+export function compareWithBaseline(baseline: Baseline, current: RecordedMetric[] | MetricSeries): MetricDelta[] {
+	const actuales = current instanceof Map ? summarizeSeries(current) : summarizeRecords(current);
+	const deltas: MetricDelta[] = [];
+	for (const [key, referencia] of Object.entries(baseline.metrics)) {
+		const actual = actuales[key];
+		if (!actual) {
+			continue;
+		}
+		const change = referencia.avg === 0
+			? (actual.avg === 0 ? 0 : Math.sign(actual.avg) * Infinity)
+			: (actual.avg - referencia.avg) / Math.abs(referencia.avg);
+		deltas.push({
+			key,
+			unit: referencia.unit ?? actual.unit,
+			baseline: soloEstadisticas(referencia),
+			current: soloEstadisticas(actual),
+			change,
+			severity: getSeverity(key, change),
+			label: formatChange(change)
+		});
+	}
+	return deltas.sort((a, b) =>
+		SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || Math.abs(b.change) - Math.abs(a.change)
+	);
+}
+
+// Función para resumir las regresiones más graves: "alloc-rate +38%, gen-2-gc-count +4x"
+export function summarizeRegressions(deltas: MetricDelta[], max: number = 5): string {
+	return deltas
+		.filter(d => d.severity === 'minor' || d.severity === 'major' || d.severity === 'critical')
+		.slice(0, max)
+		.map(d => `${d.key} ${d.label}`)
+		.join(', ');
+}
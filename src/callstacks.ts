@@ -0,0 +1,195 @@
+// Lectura de las pilas de llamadas que devuelve /stacks (JSON o texto plano)
+// y localización de los métodos de cada frame en el código fuente C#
+
+export interface StackFrameInfo {
+	typeName: string;
+	methodName: string;
+	moduleName: string;
+	display: string;
+	isNative: boolean;
+}
+
+export interface ThreadStack {
+	threadId: number;
+	threadName: string | null;
+	frames: StackFrameInfo[];
+}
+
+const NATIVE_FRAMES = '[Native Frames]';
+
+// Separa una secuencia de objetos JSON concatenados (por saltos de línea o \x1E)
+export function splitJsonObjects(texto: string): string[] {
+	const objetos: string[] = [];
+	let depth = 0;
+	let start = -1;
+	let inString = false;
+	for (let i = 0; i < texto.length; i++) {
+		const c = texto[i];
+		if (inString) {
+			if (c === '\\') {
+				i++;
+			} else if (c === '"') {
+				inString = false;
+			}
+		} else if (c === '"') {
+			inString = true;
+		} else if (c === '{') {
+			if (depth === 0) {
+				start = i;
+			}
+			depth++;
+		} else if (c === '}') {
+			depth--;
+			if (depth === 0 && start >= 0) {
+				objetos.push(texto.substring(start, i + 1));
+				start = -1;
+			}
+		}
+	}
+	return objetos;
+}
+
+// Función para convertir un frame del formato JSON de dotnet-monitor (también usado en /exceptions)
+export function frameFromJson(frame: any): StackFrameInfo {
+	const methodName = frame?.methodName ?? '';
+	const typeName = frame?.typeName ?? '';
+	const moduleName = frame?.moduleName ?? '';
+	const isNative = !methodName || methodName === NATIVE_FRAMES;
+	const parameters = Array.isArray(frame?.parameterTypes) ? frame.parameterTypes.join(', ') : '';
+	return {
+		typeName,
+		methodName,
+		moduleName,
+		display: isNative ? NATIVE_FRAMES : `${typeName ? `${typeName}.` : ''}${methodName}(${parameters})`,
+		isNative
+	};
+}
+
+// Frames en texto plano: "Modulo!Espacio.Tipo.Metodo(argumentos)"
+export function parseTextFrame(linea: string): StackFrameInfo {
+	const texto = linea.trim();
+	if (texto === NATIVE_FRAMES) {
+		return { typeName: '', methodName: NATIVE_FRAMES, moduleName: '', display: texto, isNative: true };
+	}
+	const separador = texto.indexOf('!');
+	const moduleName = separador >= 0 ? texto.substring(0, separador) : '';
+	const firma = separador >= 0 ? texto.substring(separador + 1) : texto;
+	const parentesis = firma.indexOf('(');
+	const nombre = parentesis >= 0 ? firma.substring(0, parentesis) : firma;
+	// Los constructores (.ctor / .cctor) empiezan por punto
+	const puntoMetodo = nombre.endsWith('.ctor') || nombre.endsWith('.cctor')
+		? nombre.lastIndexOf('.', nombre.lastIndexOf('.') - 1)
+		: nombre.lastIndexOf('.');
+	return {
+		typeName: puntoMetodo >= 0 ? nombre.substring(0, puntoMetodo) : '',
+		methodName: puntoMetodo >= 0 ? nombre.substring(puntoMetodo + 1) : nombre,
+		moduleName,
+		display: firma,
+		isNative: false
+	};
+}
+
+function parseText(texto: string): ThreadStack[] {
+	const threads: ThreadStack[] = [];
+	for (const linea of texto.split(/\r?\n/)) {
+		const cabecera = /^Thread:\s*\((0x[0-9a-fA-F]+|\d+)\)\s*(.*)$/.exec(linea.trim());
+		if (cabecera) {
+			threads.push({ threadId: Number(cabecera[1]), threadName: cabecera[2] || null, frames: [] });
+		} else if (linea.trim() && threads.length > 0) {
+			threads[threads.length - 1].frames.push(parseTextFrame(linea));
+		}
+	}
+	return threads;
+}
+
+// Función para leer la respuesta de /stacks en formato JSON (uno o varios objetos) o texto plano
+export function parseCallStacks(texto: string): ThreadStack[] {
+	const contenido = texto.replace(/\x1E/g, '\n').trim();
+	if (!contenido.startsWith('{') && !contenido.startsWith('[')) {
+		return parseText(contenido);
+	}
+
+	let threads: any[];
+	try {
+		const json = JSON.parse(contenido);
+		threads = Array.isArray(json) ? json : [json];
+	} catch {
+		threads = splitJsonObjects(contenido).map(objeto => JSON.parse(objeto));
+	}
+
+	return threads.map(thread => ({
+		threadId: Number(thread?.threadId ?? 0),
+		threadName: thread?.threadName ?? null,
+		frames: Array.isArray(thread?.frames) ? thread.frames.map(frameFromJson) : []
+	}));
+}
+
+// Función para saber si un frame pertenece al runtime o a librerías de Microsoft (no está en el workspace)
+export function isFrameworkFrame(frame: StackFrameInfo): boolean {
+	if (frame.isNative) {
+		return true;
+	}
+	const origen = (frame.moduleName || frame.typeName).toLowerCase();
+	return /^(system|microsoft|interop|internal)[.+!]|^(system|mscorlib|netstandard)(\.|$)/.test(origen);
+}
+
+// Función para traducir un frame al tipo y método que aparecen en el código fuente.
+// Deshace los nombres que genera el compilador para async, iteradores y lambdas:
+//   Program+<Main>d__0.MoveNext  ->  Program.Main
+//   Program+<>c.<Main>b__0_0     ->  Program.Main
+export function getSourceTarget(frame: StackFrameInfo): { typeName: string; methodName: string } | undefined {
+	if (frame.isNative || !frame.typeName) {
+		return undefined;
+	}
+
+	const segmentos = frame.typeName.split('+');
+	let methodName = frame.methodName;
+
+	// Quitar tipos anidados generados por el compilador, recordando el método original si lo indican
+	while (segmentos.length > 1 && segmentos[segmentos.length - 1].startsWith('<')) {
+		const generado = /^<([^>]+)>/.exec(segmentos.pop()!);
+		if (generado && !methodName.startsWith('<')) {
+			methodName = generado[1];
+		}
+	}
+	const lambda = /^<([^>]+)>/.exec(methodName);
+	if (lambda) {
+		methodName = lambda[1];
+	}
+
+	const tipo = segmentos[segmentos.length - 1];
+	const typeName = tipo.substring(tipo.lastIndexOf('.') + 1).replace(/`\d+$/, '');
+	if (!typeName || typeName.startsWith('<')) {
+		return undefined;
+	}
+	if (methodName === '.ctor' || methodName === '.cctor') {
+		methodName = typeName;
+	}
+	return { typeName, methodName };
+}
+
+function escapeRegExp(texto: string): string {
+	return texto.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Función para buscar en un archivo C# la línea (base 0) donde se declara un método de un tipo.
+// Si el tipo existe pero no se encuentra el método, devuelve la línea del tipo
+export function findMethodInSource(source: string, typeName: string, methodName: string): number | undefined {
+	const lineas = source.split(/\r?\n/);
+	const declaracionTipo = new RegExp(`\\b(class|struct|record|interface)\\s+${escapeRegExp(typeName)}\\b`);
+	// Una declaración lleva delante el tipo de retorno o un modificador; una llamada no (o va tras return, await, =>...)
+	const declaracionMetodo = new RegExp(`[\\w>\\]?]\\s+${escapeRegExp(methodName)}\\s*(<[^>]*>)?\\s*\\(`);
+	const llamada = new RegExp(`(\\b(return|await|new|throw|yield|else|in|is|as|case)\\s+|=>\\s*)${escapeRegExp(methodName)}\\s*(<[^>]*>)?\\s*\\(`);
+
+	const lineaTipo = lineas.findIndex(linea => declaracionTipo.test(linea));
+	if (lineaTipo < 0) {
+		return undefined;
+	}
+	for (let i = lineaTipo; i < lineas.length; i++) {
+		const linea = lineas[i].replace(/\/\/.*$/, '');
+		if (declaracionMetodo.test(linea) && !llamada.test(linea)) {
+			return i;
+		}
+	}
+	return lineaTipo;
+}
@@ -0,0 +1,217 @@
+// Reglas de recogida (collection rules) de dotnet-monitor: un disparador (CPU alta, número de
+// peticiones, un contador...) y las acciones que se ejecutan cuando salta (dump, traza, pilas...)
+import { OperationInfo, getArtifactName, isOperationRunning } from './operations';
+
+export interface CollectionRuleAction {
+	Name?: string;
+	Type: string;
+	Settings?: Record<string, unknown>;
+	WaitForCompletion?: boolean;
+}
+
+export interface CollectionRule {
+	Filters?: { Key: string; Value: string; MatchType?: string }[];
+	Trigger: {
+		Type: string;
+		Settings?: Record<string, unknown>;
+	};
+	Actions: CollectionRuleAction[];
+	Limits?: {
+		ActionCount?: number;
+		ActionCountSlidingWindowDuration?: string;
+		RuleDuration?: string;
+	};
+}
+
+export type CollectionRules = Record<string, CollectionRule>;
+
+// Disparadores que entiende dotnet-monitor y los ajustes obligatorios de cada uno
+export const TRIGGER_TYPES: Record<string, string[]> = {
+	Startup: [],
+	CPUUsage: [],
+	GCHeapSize: [],
+	ThreadpoolQueueLength: [],
+	EventCounter: ['ProviderName', 'CounterName'],
+	EventMeter: ['MeterName', 'InstrumentName'],
+	AspNetRequestCount: ['RequestCount'],
+	AspNetRequestDuration: ['RequestCount'],
+	AspNetResponseStatus: ['StatusCodes', 'ResponseCount']
+};
+
+// Acciones que entiende dotnet-monitor; las que generan un artefacto necesitan un proveedor de egress
+export const ACTION_TYPES: Record<string, { egress: boolean }> = {
+	CollectDump: { egress: true },
+	CollectGCDump: { egress: true },
+	CollectTrace: { egress: true },
+	CollectLiveMetrics: { egress: true },
+	CollectLogs: { egress: true },
+	CollectStacks: { egress: true },
+	CollectExceptions: { egress: true },
+	Execute: { egress: false },
+	LoadProfiler: { egress: false },
+	SetEnvironmentVariable: { egress: false },
+	GetEnvironmentVariable: { egress: false }
+};
+
+// Disparadores basados en umbrales: necesitan GreaterThan o LessThan
+const THRESHOLD_TRIGGERS = ['CPUUsage', 'GCHeapSize', 'ThreadpoolQueueLength', 'EventCounter', 'EventMeter'];
+
+function esObjeto(valor: unknown): valor is Record<string, unknown> {
+	return typeof valor === 'object' && valor !== null && !Array.isArray(valor);
+}
+
+// Función para validar las reglas antes de pasarlas a dotnet-monitor. Devuelve un mensaje por problema
+export function validateCollectionRules(rules: unknown): string[] {
+	if (!esObjeto(rules)) {
+		return ['Collection rules must be an object keyed by rule name'];
+	}
+
+	const errores: string[] = [];
+	for (const [nombre, regla] of Object.entries(rules)) {
+		if (!/^[A-Za-z0-9_.-]+$/.test(nombre)) {
+			errores.push(`${nombre}: rule names may only contain letters, digits, '_', '.' and '-'`);
+		}
+		if (!esObjeto(regla)) {
+			errores.push(`${nombre}: the rule must be an object`);
+			continue;
+		}
+
+		const trigger = regla.Trigger;
+		if (!esObjeto(trigger) || typeof trigger.Type !== 'string') {
+			errores.push(`${nombre}: Trigger.Type is required`);
+		} else if (!(trigger.Type in TRIGGER_TYPES)) {
+			errores.push(`${nombre}: unknown trigger type "${trigger.Type}"`);
+		} else {
+			const settings = esObjeto(trigger.Settings) ? trigger.Settings : {};
+			for (const obligatorio of TRIGGER_TYPES[trigger.Type]) {
+				if (settings[obligatorio] === undefined) {
+					errores.push(`${nombre}: trigger ${trigger.Type} requires Settings.${obligatorio}`);
+				}
+			}
+			if (THRESHOLD_TRIGGERS.includes(trigger.Type) && settings.GreaterThan === undefined && settings.LessThan === undefined) {
+				errores.push(`${nombre}: trigger ${trigger.Type} requires Settings.GreaterThan or Settings.LessThan`);
+			}
+		}
+
+		if (!Array.isArray(regla.Actions) || regla.Actions.length === 0) {
+			errores.push(`${nombre}: at least one action is required`);
+			continue;
+		}
+		regla.Actions.forEach((accion: unknown, indice: number) => {
+			if (!esObjeto(accion) || typeof accion.Type !== 'string') {
+				errores.push(`${nombre}: Actions[${indice}].Type is required`);
+			} else if (!(accion.Type in ACTION_TYPES)) {
+				errores.push(`${nombre}: unknown action type "${accion.Type}"`);
+			} else if (ACTION_TYPES[accion.Type].egress && !(esObjeto(accion.Settings) && typeof accion.Settings.Egress === 'string')) {
+				errores.push(`${nombre}: action ${accion.Type} requires Settings.Egress`);
+			}
+		});
+	}
+	return errores;
+}
+
+// Función para convertir un objeto de configuración en variables de entorno de dotnet-monitor
+// (las secciones se separan con "__" y los elementos de un array por su índice)
+export function toEnvironmentVariables(valor: unknown, prefijo: string): Record<string, string> {
+	const variables: Record<string, string> = {};
+	const recorrer = (actual: unknown, ruta: string) => {
+		if (Array.isArray(actual)) {
+			actual.forEach((elemento, indice) => recorrer(elemento, `${ruta}__${indice}`));
+		} else if (esObjeto(actual)) {
+			for (const [clave, hijo] of Object.entries(actual)) {
+				if (!clave.startsWith('$')) {
+					recorrer(hijo, `${ruta}__${clave}`);
+				}
+			}
+		} else if (actual !== undefined && actual !== null) {
+			variables[ruta] = String(actual);
+		}
+	};
+	recorrer(valor, prefijo);
+	return variables;
+}
+
+export interface CollectionRuleStatus {
+	name: string;
+	state: string;
+	stateReason: string;
+	lifetimeOccurrences?: number;
+	slidingWindowOccurrences?: number;
+	actionCountLimit?: number;
+	actionCountSlidingWindowDurationLimit?: string;
+	slidingWindowDurationCountdown?: string;
+	ruleFinishedCountdown?: string;
+	lastAction?: RuleActionResult;
+}
+
+// Resultado de la última ejecución de las acciones de una regla. dotnet-monitor no lo incluye en /collectionrules:
+// se deduce de las operaciones del proceso y de los artefactos escritos en la carpeta de egress desde el disparo
+export interface RuleActionResult {
+	status: 'Running' | 'Succeeded' | 'Failed' | 'NoArtifacts';
+	// Hora del disparo o, si no se vio, del artefacto más reciente
+	at: Date;
+	artifacts: string[];
+	error?: string;
+}
+
+// Archivo de la carpeta de egress
+export interface EgressFile {
+	name: string;
+	modified: Date;
+}
+
+// Margen para las acciones que empiezan justo antes de que se vea el disparo al consultar el estado
+const TRIGGER_MARGIN_MS = 1000;
+// Sin la hora del disparo se toma la última tanda de acciones: lo que empezó hasta un minuto antes de lo más reciente
+const ACTION_BATCH_MS = 60000;
+
+// Función para leer el estado de una regla devuelto por /collectionrules o /collectionrules/{nombre}
+export function parseCollectionRuleStatus(name: string, json: any): CollectionRuleStatus {
+	const numero = (valor: unknown) => typeof valor === 'number' ? valor : undefined;
+	const texto = (valor: unknown) => typeof valor === 'string' && valor ? valor : undefined;
+	return {
+		name,
+		state: json?.state ?? 'Unknown',
+		stateReason: json?.stateReason ?? '',
+		lifetimeOccurrences: numero(json?.lifetimeOccurrences),
+		slidingWindowOccurrences: numero(json?.slidingWindowOccurrences),
+		actionCountLimit: numero(json?.actionCountLimit),
+		actionCountSlidingWindowDurationLimit: texto(json?.actionCountSlidingWindowDurationLimit),
+		slidingWindowDurationCountdown: texto(json?.slidingWindowDurationCountdown),
+		ruleFinishedCountdown: texto(json?.ruleFinishedCountdown)
+	};
+}
+
+// Función para resumir lo que hicieron las acciones del último disparo de una regla: las operaciones de /operations
+// del proceso y los archivos de la carpeta de egress con su PID en el nombre, desde la hora del disparo
+export function summarizeRuleActions(pid: number, triggeredAt: Date | undefined, operations: OperationInfo[], files: EgressFile[]): RuleActionResult | undefined {
+	const operaciones = operations.filter(o => o.pid === pid && o.createdDateTime);
+	const conPid = new RegExp(`(^|\\D)${pid}(\\D|$)`);
+	const archivos = files.filter(f => conPid.test(f.name));
+
+	let desde: number;
+	if (triggeredAt) {
+		desde = triggeredAt.getTime() - TRIGGER_MARGIN_MS;
+	} else {
+		const fechas = [...operaciones.map(o => o.createdDateTime!.getTime()), ...archivos.map(f => f.modified.getTime())];
+		if (fechas.length === 0) {
+			return undefined;
+		}
+		desde = Math.max(...fechas) - ACTION_BATCH_MS;
+	}
+
+	const recientes = operaciones.filter(o => o.createdDateTime!.getTime() >= desde);
+	const nuevos = archivos.filter(f => f.modified.getTime() >= desde);
+	const artifacts = [...new Set([
+		...recientes.map(getArtifactName).filter((nombre): nombre is string => nombre !== undefined),
+		...nuevos.map(f => f.name)
+	])];
+	const fallida = recientes.find(o => o.status === 'Failed');
+	const fechas = [...recientes.map(o => o.createdDateTime!.getTime()), ...nuevos.map(f => f.modified.getTime())];
+	return {
+		status: fallida ? 'Failed' : recientes.some(isOperationRunning) ? 'Running' : recientes.length > 0 || artifacts.length > 0 ? 'Succeeded' : 'NoArtifacts',
+		at: triggeredAt ?? new Date(Math.max(...fechas)),
+		artifacts,
+		error: fallida?.error
+	};
+}
@@ -0,0 +1,103 @@
+// Identificación del proceso que se está depurando entre los que lista dotnet-monitor.
+// Lo normal es conocer el PID por la propia sesión de debug; si no, se recurre a comparar
+// nombres y rutas, indicando siempre por qué se eligió el proceso
+
+export interface ProcessCandidate {
+	pid: number;
+	name?: string;
+	commandLine?: string;
+}
+
+// Datos de la sesión de debug (configuración de launch.json y PID si se conoce)
+export interface DebugTarget {
+	pid?: number;
+	program?: string;
+	cwd?: string;
+	projectPath?: string;
+}
+
+export type DebugMatchStrategy = 'pid' | 'commandLine' | 'name' | 'nameWithoutExtension' | 'cwd' | 'project';
+
+export interface DebugMatch {
+	pid: number;
+	strategy: DebugMatchStrategy;
+	reason: string;
+}
+
+function normalizarRuta(ruta: string): string {
+	return ruta.replace(/\\/g, '/').toLowerCase();
+}
+
+function nombreArchivo(ruta: string): string {
+	return ruta.split(/[\\/]/).pop() ?? ruta;
+}
+
+function sinExtension(nombre: string): string {
+	return nombre.replace(/\.(exe|dll|csproj)$/i, '');
+}
+
+// Función para extraer el PID de la configuración de una sesión de attach ("processId": 1234 o "1234")
+export function getAttachProcessId(configuration: { request?: string; processId?: unknown }): number | undefined {
+	if (configuration.request !== 'attach') {
+		return undefined;
+	}
+	const pid = typeof configuration.processId === 'number'
+		? configuration.processId
+		: parseInt(String(configuration.processId ?? ''), 10);
+	return Number.isInteger(pid) && pid > 0 ? pid : undefined;
+}
+
+// Función para saber si la heurística necesita la línea de comandos de los procesos:
+// un programa .dll se ejecuta con el host "dotnet" y sólo se distingue por sus argumentos
+export function needsCommandLine(target: DebugTarget): boolean {
+	return target.pid === undefined && !!target.program && /\.dll$/i.test(target.program);
+}
+
+// Función para elegir el proceso depurado. Sin PID, las estrategias se prueban de la más fiable a la menos
+// y gana la primera que encuentra algún proceso; si encuentra varios se elige el primero y se indica en el motivo
+export function matchDebugProcess(processes: ProcessCandidate[], target: DebugTarget): DebugMatch | undefined {
+	const programa = target.program ? normalizarRuta(target.program) : undefined;
+	const nombrePrograma = target.program ? nombreArchivo(target.program).toLowerCase() : undefined;
+	const cwd = target.cwd ? normalizarRuta(target.cwd).replace(/\/+$/, '') : undefined;
+	const proyecto = target.projectPath ? sinExtension(nombreArchivo(target.projectPath)).toLowerCase() : undefined;
+	const nombre = (p: ProcessCandidate) => (p.name ?? '').toLowerCase();
+	const lineaComandos = (p: ProcessCandidate) => p.commandLine ? normalizarRuta(p.commandLine) : '';
+
+	// Con el PID de la sesión no se adivina nada: si aún no aparece en la lista es que no ha arrancado
+	if (target.pid !== undefined) {
+		return processes.some(p => p.pid === target.pid)
+			? { pid: target.pid, strategy: 'pid', reason: `PID ${target.pid} reported by the debug session` }
+			: undefined;
+	}
+
+	const estrategias: { strategy: DebugMatchStrategy; coincide: (p: ProcessCandidate) => boolean; motivo: string }[] = [];
+	if (programa) {
+		estrategias.push({ strategy: 'commandLine', coincide: p => lineaComandos(p).includes(programa), motivo: `command line contains ${target.program}` });
+	}
+	if (nombrePrograma) {
+		estrategias.push({ strategy: 'name', coincide: p => nombre(p) === nombrePrograma, motivo: `process name is ${nombrePrograma}` });
+		// En .NET el apphost se llama igual que el .dll, sin extensión o con .exe
+		estrategias.push({
+			strategy: 'nameWithoutExtension',
+			coincide: p => nombre(p) !== 'dotnet' && sinExtension(nombre(p)) === sinExtension(nombrePrograma),
+			motivo: `process name matches ${sinExtension(nombrePrograma)}`
+		});
+	}
+	if (cwd) {
+		estrategias.push({ strategy: 'cwd', coincide: p => lineaComandos(p).includes(cwd + '/'), motivo: `command line is under ${target.cwd}` });
+	}
+	if (proyecto) {
+		estrategias.push({ strategy: 'project', coincide: p => sinExtension(nombre(p)) === proyecto, motivo: `process name matches project ${proyecto}` });
+	}
+
+	for (const estrategia of estrategias) {
+		const coincidencias = processes.filter(estrategia.coincide);
+		if (coincidencias.length > 0) {
+			const ambiguo = coincidencias.length > 1
+				? ` (${coincidencias.length} processes matched: ${coincidencias.map(p => p.pid).join(', ')}; picked the first)`
+				: '';
+			return { pid: coincidencias[0].pid, strategy: estrategia.strategy, reason: estrategia.motivo + ambiguo };
+		}
+	}
+	return undefined;
+}
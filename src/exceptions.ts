@@ -0,0 +1,60 @@
+// Lectura del historial de excepciones de /exceptions (NDJSON) y agrupación por tipo
+
+import { frameFromJson, splitJsonObjects, StackFrameInfo } from './callstacks';
+
+export interface ExceptionInfo {
+	id: number;
+	timestamp: string;
+	typeName: string;
+	message: string;
+	threadId: number | null;
+	frames: StackFrameInfo[];
+	innerExceptions: ExceptionInfo[];
+}
+
+export interface ExceptionGroup {
+	typeName: string;
+	count: number;
+	lastTimestamp: string;
+	occurrences: ExceptionInfo[];
+}
+
+function exceptionFromJson(json: any): ExceptionInfo {
+	return {
+		id: Number(json?.id ?? 0),
+		timestamp: json?.timestamp ?? '',
+		typeName: json?.typeName ?? 'Unknown',
+		message: json?.message ?? '',
+		threadId: json?.stack?.threadId ?? null,
+		frames: Array.isArray(json?.stack?.frames) ? json.stack.frames.map(frameFromJson) : [],
+		innerExceptions: Array.isArray(json?.innerExceptions) ? json.innerExceptions.map(exceptionFromJson) : []
+	};
+}
+
+// Función para leer la respuesta de /exceptions (un objeto JSON por línea)
+export function parseExceptions(texto: string): ExceptionInfo[] {
+	return splitJsonObjects(texto).map(objeto => exceptionFromJson(JSON.parse(objeto)));
+}
+
+// Función para agrupar las excepciones por tipo, con las más frecuentes primero
+// y las apariciones de cada grupo de la más reciente a la más antigua
+export function groupExceptions(exceptions: ExceptionInfo[]): ExceptionGroup[] {
+	const grupos = new Map<string, ExceptionGroup>();
+	for (const exception of exceptions) {
+		let grupo = grupos.get(exception.typeName);
+		if (!grupo) {
+			grupo = { typeName: exception.typeName, count: 0, lastTimestamp: '', occurrences: [] };
+			grupos.set(exception.typeName, grupo);
+		}
+		grupo.count++;
+		grupo.occurrences.push(exception);
+		if (exception.timestamp > grupo.lastTimestamp) {
+			grupo.lastTimestamp = exception.timestamp;
+		}
+	}
+
+	for (const grupo of grupos.values()) {
+		grupo.occurrences.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+	}
+	return [...grupos.values()].sort((a, b) => b.count - a.count || b.lastTimestamp.localeCompare(a.lastTimestamp));
+}
@@ -0,0 +1,109 @@
+// Exportación del historial de métricas de una sesión a CSV (una columna por métrica) o JSON (una serie por métrica)
+import { RecordedMetric } from './recording';
+
+export interface TimeRange {
+	from: number;
+	to: number;
+}
+
+// Función para obtener el nombre de la columna de una métrica: proveedor/nombre[tags] (unidad)
+export function metricColumn(metric: any): string {
+	const tags = metric.tags ? `[${metric.tags}]` : '';
+	const unit = metric.unit ? ` (${metric.unit})` : '';
+	return `${metric.provider ?? 'unknown'}/${metric.name}${tags}${unit}`;
+}
+
+export function filterByTimeRange(records: RecordedMetric[], range?: TimeRange): RecordedMetric[] {
+	return range ? records.filter(r => r.t >= range.from && r.t <= range.to) : records;
+}
+
+// Función para leer un intervalo "HH:mm[:ss]-HH:mm[:ss]" en hora local, tomando el día de la fecha de referencia.
+// Si el final es anterior al inicio se entiende que el intervalo cruza la medianoche
+export function parseTimeRange(texto: string, referencia: Date): TimeRange | undefined {
+	const partes = /^\s*(\d{1,2}):(\d{2})(?::(\d{2}))?\s*-\s*(\d{1,2}):(\d{2})(?::(\d{2}))?\s*$/.exec(texto);
+	if (!partes) {
+		return undefined;
+	}
+	const hora = (h: string, m: string, s?: string) => {
+		if (Number(h) > 23 || Number(m) > 59 || Number(s ?? 0) > 59) {
+			return NaN;
+		}
+		const fecha = new Date(referencia);
+		fecha.setHours(Number(h), Number(m), Number(s ?? 0), 0);
+		return fecha.getTime();
+	};
+	const from = hora(partes[1], partes[2], partes[3]);
+	let to = hora(partes[4], partes[5], partes[6]);
+	if (isNaN(from) || isNaN(to)) {
+		return undefined;
+	}
+	if (to < from) {
+		to += 24 * 60 * 60 * 1000;
+	}
+	// El final incluye todo el segundo (o el minuto si no se indican segundos)
+	return { from, to: to + (partes[6] ? 999 : 59999) };
+}
+
+function escaparCsv(valor: string): string {
+	return /[",\n\r]/.test(valor) ? `"${valor.replace(/"/g, '""')}"` : valor;
+}
+
+// Función para generar el CSV. Los registros de una misma ronda de métricas forman una fila,
+// que termina cuando vuelve a llegar una métrica que ya tiene valor en ella
+export function toCsv(records: RecordedMetric[]): string {
+	const columnas: string[] = [];
+	const indices = new Map<string, number>();
+	const filas: { t: number; valores: Map<number, number> }[] = [];
+
+	for (const registro of records) {
+		const columna = metricColumn(registro.metric);
+		let indice = indices.get(columna);
+		if (indice === undefined) {
+			indice = columnas.length;
+			indices.set(columna, indice);
+			columnas.push(columna);
+		}
+		let fila = filas[filas.length - 1];
+		if (!fila || fila.valores.has(indice)) {
+			fila = { t: registro.t, valores: new Map() };
+			filas.push(fila);
+		}
+		fila.valores.set(indice, registro.metric.value);
+	}
+
+	const lineas = [['timestamp', ...columnas].map(escaparCsv).join(',')];
+	for (const fila of filas) {
+		const valores = columnas.map((_, indice) => fila.valores.has(indice) ? String(fila.valores.get(indice)) : '');
+		lineas.push([new Date(fila.t).toISOString(), ...valores].join(','));
+	}
+	return lineas.join('\n') + '\n';
+}
+
+// Función para generar el JSON: una serie de muestras por métrica, en el orden en que aparecieron
+export function toJson(records: RecordedMetric[], extra: Record<string, unknown> = {}): string {
+	const series = new Map<string, { provider?: string; name: string; displayName?: string; unit?: string; tags?: string; samples: { timestamp: string; value: number }[] }>();
+	for (const registro of records) {
+		const metric = registro.metric;
+		const columna = metricColumn(metric);
+		if (!series.has(columna)) {
+			series.set(columna, {
+				provider: metric.provider,
+				name: metric.name,
+				displayName: metric.displayName,
+				unit: metric.unit,
+				tags: metric.tags,
+				samples: []
+			});
+		}
+		series.get(columna)!.samples.push({ timestamp: new Date(registro.t).toISOString(), value: metric.value });
+	}
+
+	const primero = records[0]?.t;
+	const ultimo = records[records.length - 1]?.t;
+	return JSON.stringify({
+		...extra,
+		from: primero !== undefined ? new Date(primero).toISOString() : undefined,
+		to: ultimo !== undefined ? new Date(ultimo).toISOString() : undefined,
+		metrics: [...series.values()]
+	}, null, 2) + '\n';
+}
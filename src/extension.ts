@@ -1,37 +1,342 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import { exec, spawn, ChildProcess } from 'child_process';
+import { exec, execFile, spawn, ChildProcess } from 'child_process';
 import { promisify } from 'util';
 import https from 'https';
 import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import net from 'net';
+import { parseGcDump, diffGcDumps, GcDumpSummary, GcDumpTypeDiff } from './gcdump';
+import { parseSpeedscope, SpeedscopeData } from './speedscope';
+import { parseCallStacks, getSourceTarget, findMethodInSource, isFrameworkFrame, StackFrameInfo, ThreadStack } from './callstacks';
+import { parseExceptions, groupExceptions, ExceptionGroup, ExceptionInfo } from './exceptions';
+import { parsePrometheus, prometheusToLiveMetrics, KnownProvider } from './prometheus';
+import { matchDebugProcess, getAttachProcessId, needsCommandLine, DebugMatch, DebugTarget, ProcessCandidate } from './debugmatcher';
+import { validateCollectionRules, toEnvironmentVariables, parseCollectionRuleStatus, summarizeRuleActions, CollectionRule, CollectionRules, CollectionRuleStatus, EgressFile } from './collectionrules';
+import { parseOperation, sortOperations, isOperationRunning, getArtifactName, getLocalArtifactPath, getArtifactFileName, formatElapsed, OperationInfo } from './operations';
+import { createRecordingHeader, formatRecordedMetric, parseRecording, Recording, RecordedMetric } from './recording';
+import { toCsv, toJson, filterByTimeRange, parseTimeRange, TimeRange } from './export';
+import { Baseline, createBaseline, compareWithBaseline, summarizeRegressions, addToSeries, MetricSeries } from './baseline';
+import { AlertRule, AlertRuleConfig, AlertState, CaptureAction, CaptureBudget, parseAlertRule, evaluateAlert, displayValue, matchesAlertRule, takeCapture } from './alerts';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+// Estado del dotnet-monitor lanzado por la extensión, compartido por todos los paneles y comandos.
+// Se cuentan las referencias para detenerlo cuando ya nadie lo usa
+const monitor = {
+	proceso: undefined as ChildProcess | undefined,
+	referencias: 0,
+	manual: false,
+	deteniendo: false,
+	reutilizado: false,
+	puerto: undefined as number | undefined,
+	puertoMetricas: undefined as number | undefined,
+	arranque: undefined as Promise<boolean> | undefined,
+	// Se resuelve cuando termina el proceso que se está deteniendo
+	salida: undefined as Promise<void> | undefined,
+	caidas: [] as number[],
+	// Cambia al detener dotnet-monitor con el comando aunque haya referencias: las anteriores dejan de contar
+	generacion: 0,
+	// Carpeta del proveedor de egress FileSystem con la que se lanzó el proceso
+	egress: undefined as string | undefined
+};
+let canalSalida: vscode.OutputChannel | undefined;
+// Avisa a los paneles que usan dotnet-monitor de que se ha detenido con el comando y ya no responderá
+const monitorDetenido = new vscode.EventEmitter<void>();
+
+// Perfil de conexión: lanzar dotnet-monitor localmente o conectarse a una instancia ya en marcha
+interface ConnectionProfile {
+	name: string;
+	mode: 'launch' | 'attach';
+	url?: string;
+	apiKey?: string;
+	// Aceptar certificados que no se pueden verificar (autofirmados) en una instancia remota
+	allowInvalidCertificates?: boolean;
+	// Endpoint /metrics de la instancia remota si no está en el puerto por defecto de su host
+	metricsUrl?: string;
+}
+
+// Puerto por defecto del endpoint de métricas de dotnet-monitor
+const PUERTO_METRICAS_POR_DEFECTO = 52325;
+
+// Función para obtener la URL del endpoint /metrics de una instancia remota: el mismo host que su API
+// en el puerto de métricas por defecto
+function getUrlMetricasRemota(url: string): string {
+	try {
+		const metricas = new URL(url);
+		metricas.protocol = 'http:';
+		metricas.port = String(PUERTO_METRICAS_POR_DEFECTO);
+		metricas.pathname = '/metrics';
+		metricas.search = '';
+		return metricas.toString();
+	} catch {
+		return `${url.replace(/\/+$/, '')}/metrics`;
+	}
+}
 
 // Función para obtener la configuración
 function getConfig() {
 	const config = vscode.workspace.getConfiguration('dotnetMonitor');
+	const connectionProfiles = config.get<ConnectionProfile[]>('connectionProfiles', []);
+	const activeProfile = config.get<string>('activeProfile', '');
+	const perfil = connectionProfiles.find(p => p.name === activeProfile);
+	const attach = perfil?.mode === 'attach' && !!perfil.url;
 	return {
 		port: config.get<number>('port', 52323),
 		httpPort: config.get<number>('httpPort', 52325),
 		autoReconnect: config.get<boolean>('autoReconnect', true),
 		reconnectDelay: config.get<number>('reconnectDelay', 2000),
 		maxDataPoints: config.get<number>('maxDataPoints', 30),
+		metricsInterval: config.get<number>('metricsInterval', 5),
+		includeDefaultProviders: config.get<boolean>('includeDefaultProviders', true),
+		metricProviders: config.get<{ providerName: string; counterNames?: string[] }[]>('metricProviders', []),
+		meters: config.get<{ meterName: string; instrumentNames?: string[] }[]>('meters', []),
+		httpMetrics: config.get<boolean>('httpMetrics', true),
+		metricsTransport: config.get<'livemetrics' | 'prometheus'>('metricsTransport', 'livemetrics'),
+		prometheusUrl: (attach && perfil!.metricsUrl) || config.get<string>('prometheusUrl', '') || (attach
+			? getUrlMetricasRemota(perfil!.url!)
+			: `http://localhost:${monitor.puertoMetricas ?? config.get<number>('httpPort', PUERTO_METRICAS_POR_DEFECTO)}/metrics`),
+		authentication: config.get<'none' | 'apiKey'>('authentication', 'none'),
+		secretPatterns: config.get<string[]>('secretPatterns', ['password', 'secret', 'token', 'apikey', 'api_key', 'connectionstring', 'credential', 'private']),
+		connectionProfiles,
+		activeProfile: perfil?.name ?? '',
+		connectionMode: attach ? 'attach' as const : 'launch' as const,
+		baseUrl: attach ? perfil!.url!.replace(/\/+$/, '') : `https://localhost:${monitor.puerto ?? config.get<number>('port', 52323)}`,
+		apiKey: attach ? perfil!.apiKey : undefined,
+		allowInvalidCertificates: attach && perfil!.allowInvalidCertificates === true,
+		egressDirectory: resolverRuta(config.get<string>('egressDirectory', '')),
 		commandArgs: config.get<string[]>('commandArgs', ['collect', '--no-auth', '--urls', `https://localhost:${config.port},http://localhost:${config.httpPort}`])
 	};
 }
 
-// Función auxiliar para hacer fetch con soporte para certificados autofirmados
-async function fetchWithAgent(url: string): Promise<Response> {
+// Función para resolver ${workspaceFolder}, ${userHome} y ~ en una ruta de los ajustes.
+// Las rutas relativas se toman desde la carpeta del workspace
+function resolverRuta(ruta: string): string | undefined {
+	const carpeta = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+	let resuelta = ruta.trim()
+		.replace(/\$\{userHome\}/g, os.homedir())
+		.replace(/^~(?=$|[\\/])/, os.homedir());
+	if (resuelta.includes('${workspaceFolder}')) {
+		if (!carpeta) {
+			return undefined;
+		}
+		resuelta = resuelta.replace(/\$\{workspaceFolder\}/g, carpeta);
+	}
+	if (!resuelta) {
+		return undefined;
+	}
+	return path.isAbsolute(resuelta) ? path.normalize(resuelta) : carpeta ? path.join(carpeta, resuelta) : undefined;
+}
+
+// API keys guardadas en SecretStorage. Se mantiene una copia en memoria porque las cabeceras
+// se construyen de forma síncrona en cada petición
+const SECRET_API_KEY_LOCAL = 'dotnetMonitor.localApiKey';
+const SECRET_API_KEY_PERFIL = 'dotnetMonitor.apiKey.';
+let secretos: vscode.SecretStorage | undefined;
+let apiKeys = new Map<string, string>();
+let cargasApiKeys = 0;
+let avisoNoAutorizadoVisible = false;
+// Valor ilegible de la API key local del que ya se avisó, para no repetir el aviso en cada petición
+let apiKeyIlegibleAvisada: string | undefined;
+
+// Clave generada con "dotnet-monitor generatekey": el token para las peticiones
+// y el sujeto y la clave pública que necesita la instancia lanzada localmente
+interface ApiKeyLocal {
+	token: string;
+	subject: string;
+	publicKey: string;
+}
+
+// Función para obtener el nombre del secreto con la API key del perfil activo
+function getClaveSecreto(config = getConfig()): string {
+	return config.connectionMode === 'attach' ? SECRET_API_KEY_PERFIL + config.activeProfile : SECRET_API_KEY_LOCAL;
+}
+
+// Función para cargar en memoria las API keys del modo local y de todos los perfiles. Se leen en un mapa
+// nuevo que sustituye al anterior al terminar, para que las peticiones nunca vean el mapa a medio cargar
+async function cargarApiKeys() {
+	if (!secretos) {
+		return;
+	}
+	const carga = ++cargasApiKeys;
+	const claves = [SECRET_API_KEY_LOCAL, ...getConfig().connectionProfiles.map(p => SECRET_API_KEY_PERFIL + p.name)];
+	const cargadas = new Map<string, string>();
+	for (const clave of claves) {
+		const valor = await secretos.get(clave);
+		if (valor) {
+			cargadas.set(clave, valor);
+		}
+	}
+	// Si mientras tanto empezó otra carga, la más reciente es la que vale
+	if (carga === cargasApiKeys) {
+		apiKeys = cargadas;
+	}
+}
+
+// Función para leer la API key local. Si el secreto está dañado o tiene un formato antiguo se trata como
+// si no hubiera clave y se ofrece generar una nueva
+function getApiKeyLocal(): ApiKeyLocal | undefined {
+	const valor = apiKeys.get(SECRET_API_KEY_LOCAL);
+	if (!valor) {
+		return undefined;
+	}
+	try {
+		const clave = JSON.parse(valor);
+		if (typeof clave?.token === 'string' && typeof clave.subject === 'string' && typeof clave.publicKey === 'string') {
+			return clave;
+		}
+	} catch {
+		// Se avisa igual que con un formato inesperado
+	}
+	if (apiKeyIlegibleAvisada !== valor) {
+		apiKeyIlegibleAvisada = valor;
+		log('⚠️ The stored local API key could not be read');
+		vscode.window.showWarningMessage('The stored dotnet-monitor API key could not be read.', 'Generate New Key').then(async accion => {
+			if (accion && await generarApiKey()) {
+				vscode.window.showInformationMessage('New API key stored. Reopen the dashboard to restart dotnet-monitor with it.');
+			}
+		});
+	}
+	return undefined;
+}
+
+// Función para obtener el token Bearer del perfil de conexión activo
+function getToken(): string | undefined {
+	const config = getConfig();
+	if (config.connectionMode === 'attach') {
+		return config.apiKey || apiKeys.get(getClaveSecreto(config));
+	}
+	return config.authentication === 'apiKey' ? getApiKeyLocal()?.token : undefined;
+}
+
+// Función para obtener las cabeceras de autenticación del perfil de conexión activo
+function getAuthHeaders(): Record<string, string> {
+	const token = getToken();
+	return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Función para generar una API key nueva con dotnet-monitor y guardarla en SecretStorage
+async function generarApiKey(): Promise<ApiKeyLocal | undefined> {
+	try {
+		const { stdout } = await execAsync('dotnet-monitor generatekey --output MachineJson');
+		const salida = JSON.parse(stdout);
+		const clave: ApiKeyLocal = {
+			token: String(salida.AuthorizationHeader ?? '').replace(/^Bearer\s+/i, ''),
+			subject: salida.Authentication?.MonitorApiKey?.Subject,
+			publicKey: salida.Authentication?.MonitorApiKey?.PublicKey
+		};
+		if (!clave.token || !clave.subject || !clave.publicKey) {
+			throw new Error('Unexpected output from dotnet-monitor generatekey');
+		}
+		await secretos?.store(SECRET_API_KEY_LOCAL, JSON.stringify(clave));
+		apiKeys.set(SECRET_API_KEY_LOCAL, JSON.stringify(clave));
+		console.log('🔑 API key generada para el sujeto', clave.subject);
+		return clave;
+	} catch (error: any) {
+		vscode.window.showErrorMessage(`Could not generate an API key: ${error.message}`);
+		return undefined;
+	}
+}
+
+// Función para pedir la API key de una instancia remota y guardarla en SecretStorage
+async function introducirApiKey(config = getConfig()): Promise<boolean> {
+	const token = await vscode.window.showInputBox({
+		title: `API key for ${config.activeProfile}`,
+		prompt: 'Bearer token of the dotnet-monitor instance (the value after "Authorization: Bearer")',
+		password: true,
+		ignoreFocusOut: true
+	});
+	if (!token) {
+		return false;
+	}
+	const clave = getClaveSecreto(config);
+	await secretos?.store(clave, token.trim());
+	apiKeys.set(clave, token.trim());
+	return true;
+}
+
+// Función para gestionar la API key del perfil activo desde la paleta de comandos
+async function gestionarApiKey() {
+	const config = getConfig();
+	const attach = config.connectionMode === 'attach';
+	const opciones = attach
+		? ['Enter API key', 'Remove stored API key']
+		: ['Generate new API key', 'Remove stored API key'];
+
+	const seleccion = await vscode.window.showQuickPick(opciones, {
+		title: attach ? `API key for ${config.activeProfile}` : 'API key for the local dotnet-monitor'
+	});
+	if (seleccion === 'Enter API key') {
+		await introducirApiKey(config);
+	} else if (seleccion === 'Generate new API key') {
+		if (await generarApiKey()) {
+			if (config.authentication !== 'apiKey') {
+				await vscode.workspace.getConfiguration('dotnetMonitor').update('authentication', 'apiKey', vscode.ConfigurationTarget.Global);
+			}
+			vscode.window.showInformationMessage('New API key stored. Reopen the dashboard to restart dotnet-monitor with it.');
+		}
+	} else if (seleccion === 'Remove stored API key') {
+		await secretos?.delete(getClaveSecreto(config));
+		apiKeys.delete(getClaveSecreto(config));
+	}
+}
+
+// Función para avisar de una respuesta 401 y ofrecer introducir o regenerar la API key
+async function avisarNoAutorizado() {
+	if (avisoNoAutorizadoVisible) {
+		return;
+	}
+	avisoNoAutorizadoVisible = true;
+	try {
+		const config = getConfig();
+		const attach = config.connectionMode === 'attach';
+		const accion = attach ? 'Enter API key' : 'Regenerate API key';
+		const mensaje = attach
+			? `dotnet-monitor at ${config.baseUrl} rejected the request (401 Unauthorized). The API key of the "${config.activeProfile}" profile is missing or invalid.`
+			: 'dotnet-monitor rejected the request (401 Unauthorized). The stored API key does not match the one the running instance was started with.';
+
+		const seleccion = await vscode.window.showErrorMessage(mensaje, accion);
+		if (seleccion === 'Enter API key') {
+			await introducirApiKey(config);
+		} else if (seleccion === 'Regenerate API key' && await generarApiKey()) {
+			vscode.window.showInformationMessage('New API key stored. Reopen the dashboard to restart dotnet-monitor with it.');
+		}
+	} finally {
+		avisoNoAutorizadoVisible = false;
+	}
+}
+
+// Función para decidir si se acepta un certificado que no se puede verificar. El dotnet-monitor local usa
+// un certificado de desarrollo autofirmado; en una instancia remota sólo si el perfil lo permite
+function aceptarCertificadoNoValido(url: string): boolean {
+	let host: string;
+	try {
+		host = new URL(url).hostname;
+	} catch {
+		return false;
+	}
+	return ['localhost', '127.0.0.1', '[::1]'].includes(host) || getConfig().allowInvalidCertificates;
+}
+
+// Función auxiliar para hacer fetch con soporte para certificados autofirmados en local
+async function fetchWithAgent(url: string, headers: Record<string, string> = {}, method = 'GET'): Promise<Response> {
 	const isHttps = url.startsWith('https');
+	headers = { ...getAuthHeaders(), ...headers };
 	
 	if (isHttps) {
-		// Para HTTPS, usar https.get con rejectUnauthorized: false
+		// Para HTTPS, usar https.request para poder aceptar el certificado autofirmado local
 		return new Promise((resolve, reject) => {
-			https.get(url, { rejectUnauthorized: false }, (res) => {
+			https.request(url, { method, rejectUnauthorized: !aceptarCertificadoNoValido(url), headers }, (res) => {
 				let data = '';
 				res.on('data', chunk => data += chunk);
 				res.on('end', () => {
+					if (res.statusCode === 401) {
+						avisarNoAutorizado();
+					}
 					resolve({
 						ok: res.statusCode! >= 200 && res.statusCode! < 300,
 						status: res.statusCode!,
@@ -39,520 +344,4732 @@ async function fetchWithAgent(url: string): Promise<Response> {
 						text: async () => data
 					} as Response);
 				});
-			}).on('error', reject);
+			}).on('error', reject).end();
 		});
 	} else {
 		// Para HTTP, usar fetch normal
-		return fetch(url);
+		const response = await fetch(url, { method, headers });
+		if (response.status === 401) {
+			avisarNoAutorizado();
+		}
+		return response;
 	}
 }
 
-// Función para verificar si dotnet-monitor está instalado
-async function checkDotnetMonitor(): Promise<{ installed: boolean; version?: string; error?: string }> {
-	try {
-		const { stdout } = await execAsync('dotnet-monitor --version');
-		const version = stdout.trim();
-		return { installed: true, version };
-	} catch (error: any) {
-		return { 
-			installed: false, 
-			error: error.message 
-		};
-	}
-}
+// Función para descargar un artefacto binario (dump, gcdump, trace...) a disco mostrando progreso
+// Si se indica body se hace un POST con ese JSON. Devuelve false si el usuario cancela la descarga
+async function descargarArtefacto(url: string, destino: vscode.Uri, titulo: string, body?: unknown, cabeceras: Record<string, string> = {}): Promise<boolean> {
+	return vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: titulo,
+			cancellable: true
+		},
+		(progress, token) => new Promise<boolean>((resolve, reject) => {
+			const cliente = url.startsWith('https') ? https : http;
+			let terminado = false;
+			let archivo: fs.WriteStream | null = null;
 
-// Función para esperar a que la API esté disponible
-async function esperarAPI(url: string, maxIntentos: number = 30): Promise<boolean> {
-	console.log(`⏳ Esperando a que la API esté disponible en ${url}...`);
-	for (let i = 0; i < maxIntentos; i++) {
-		try {
-			const response = await fetchWithAgent(url);
-			console.log(`Intento ${i + 1}: Estado de la API - ${response.status}`);
-			console.log(response);
-			if (response.ok) {
-				return true;
-			}
-		} catch (error) {
-			// La API aún no está lista, esperar
-		}
-		await new Promise(resolve => setTimeout(resolve, 1000)); // Esperar 1 segundo
-	}
-	return false;
-}
+			// Borrar el archivo parcial si la descarga no se completa
+			const abortar = (error: Error | null) => {
+				if (terminado) {
+					return;
+				}
+				terminado = true;
+				request.destroy();
+				if (archivo) {
+					archivo.destroy();
+					fs.rm(destino.fsPath, { force: true }, () => {});
+				}
+				if (error) {
+					reject(error);
+				} else {
+					resolve(false);
+				}
+			};
 
-// Función para leer stream de métricas en formato JSON Sequence (RFC 7464)
-// La API devuelve application/json-seq que usa el separador \x1E (Record Separator) antes de cada JSON
-function iniciarStreamMetricas(pid: number, panel: vscode.WebviewPanel) {
-	const config = getConfig();
-	const url = `https://localhost:${config.port}/livemetrics?pid=${pid}`;
-	let activo = true;
-	let requestActual: http.ClientRequest | null = null;
-	
-	const conectar = () => {
-		if (!activo) {
-			return;
-		}
-		
-		console.log(`🌊 Iniciando stream de métricas para PID ${pid} en puerto ${config.port}`);
-		
-		requestActual = https.get(url, { rejectUnauthorized: false }, (response) => {
-			console.log(`✅ Conectado al stream (status: ${response.statusCode})`);
-			
-			let buffer = '';
-			const RECORD_SEPARATOR = '\x1E'; // ASCII Record Separator para JSON Sequence
-			
-			// Procesar datos conforme llegan
-			response.on('data', (chunk) => {
-				buffer += chunk.toString();
-				
-				// Buscar registros completos separados por \x1E
-				let separatorIndex;
-				while ((separatorIndex = buffer.indexOf(RECORD_SEPARATOR)) !== -1) {
-					const record = buffer.substring(0, separatorIndex).trim();
-					buffer = buffer.substring(separatorIndex + 1);
-					
-					if (record) {
+			const payload = body !== undefined ? JSON.stringify(body) : undefined;
+			const opciones: https.RequestOptions = {
+				method: payload ? 'POST' : 'GET',
+				rejectUnauthorized: !aceptarCertificadoNoValido(url),
+				headers: {
+					...getAuthHeaders(),
+					...cabeceras,
+					...(payload ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) } : {})
+				}
+			};
+
+			const request = cliente.request(url, opciones, (response) => {
+				const status = response.statusCode ?? 0;
+				if (status === 401) {
+					avisarNoAutorizado();
+				}
+
+				// dotnet-monitor devuelve un ProblemDetails en JSON cuando falla la operación
+				if (status < 200 || status >= 300) {
+					let body = '';
+					response.on('data', chunk => body += chunk);
+					response.on('end', () => {
+						let detalle = body;
 						try {
-							const metrica = JSON.parse(record);
-							console.log('📊 Métrica recibida:', metrica.name, '=', metrica.value);
-							
-							// Enviar al webview
-							panel.webview.postMessage({
-								command: 'actualizarMetrica',
-								data: metrica
-							});
-						} catch (error) {
-							console.error('❌ Error parseando JSON Sequence record:', error);
+							const problema = JSON.parse(body);
+							detalle = problema.detail || problema.title || body;
+						} catch {
+							// El cuerpo no es JSON, usar el texto tal cual
 						}
-					}
+						abortar(new Error(`HTTP ${status}${detalle ? `: ${detalle}` : ''}`));
+					});
+					return;
 				}
-			});
-			
-			response.on('end', () => {
-				console.log(`🔚 Stream terminado - ${config.autoReconnect ? `Reconectando en ${config.reconnectDelay}ms...` : 'No reconectando (autoReconnect deshabilitado)'}`);
-				
-				// Procesar cualquier registro final que quedó en el buffer
-				if (buffer.trim()) {
-					try {
-						const metrica = JSON.parse(buffer.trim());
-						console.log('📊 Métrica final recibida:', metrica.name, '=', metrica.value);
-						panel.webview.postMessage({
-							command: 'actualizarMetrica',
-							data: metrica
+
+				const total = parseInt(response.headers['content-length'] || '0', 10);
+				let recibidos = 0;
+				archivo = fs.createWriteStream(destino.fsPath);
+
+				response.on('data', (chunk: Buffer) => {
+					recibidos += chunk.length;
+					const mb = (recibidos / 1024 / 1024).toFixed(1);
+					if (total > 0) {
+						progress.report({
+							message: `${mb} MB / ${(total / 1024 / 1024).toFixed(1)} MB`,
+							increment: (chunk.length / total) * 100
 						});
-					} catch (error) {
-						console.log('⚠️ Buffer final no es JSON válido (puede ser normal si el stream se cortó)');
+					} else {
+						progress.report({ message: `${mb} MB` });
 					}
+				});
+				response.on('error', abortar);
+				archivo.on('error', abortar);
+				archivo.on('finish', () => {
+					if (!terminado) {
+						terminado = true;
+						console.log(`💾 Artefacto guardado en ${destino.fsPath} (${recibidos} bytes)`);
+						resolve(true);
+					}
+				});
+				response.pipe(archivo);
+			});
+
+			request.on('error', abortar);
+			request.end(payload);
+			token.onCancellationRequested(() => {
+				console.log('🛑 Descarga cancelada por el usuario');
+				abortar(null);
+			});
+		})
+	);
+}
+
+// Función para ofrecer mostrar un artefacto descargado en el explorador del sistema
+async function ofrecerMostrarArtefacto(destino: vscode.Uri, mensaje: string) {
+	const accion = await vscode.window.showInformationMessage(mensaje, 'Reveal in File Explorer');
+	if (accion) {
+		vscode.commands.executeCommand('revealFileInOS', destino);
+	}
+}
+
+// Función para obtener la carpeta por defecto donde guardar artefactos
+function getCarpetaArtefactos(): vscode.Uri {
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	return workspaceFolder ? workspaceFolder.uri : vscode.Uri.file(os.homedir());
+}
+
+// Función para generar una marca de tiempo apta para nombres de archivo
+function getTimestamp(): string {
+	return new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').replace('Z', '');
+}
+
+// Proveedor de egress FileSystem que la extensión configura en el dotnet-monitor que lanza
+const EGRESS_PROVIDER = 'workspace';
+
+// Función para obtener la carpeta de egress del dotnet-monitor en marcha (undefined si los artefactos se descargan por HTTP)
+function getCarpetaEgress(): string | undefined {
+	return monitor.proceso ? monitor.egress : undefined;
+}
+
+// Función para crear una carpeta de diagnósticos (egress o grabaciones) con un .gitignore que la excluye del control de versiones
+async function prepararCarpetaDiagnosticos(carpeta: string) {
+	await fs.promises.mkdir(carpeta, { recursive: true });
+	const gitignore = path.join(carpeta, '.gitignore');
+	if (!fs.existsSync(gitignore)) {
+		await fs.promises.writeFile(gitignore, '# Artefactos de diagnóstico de dotnet-monitor\n*\n', 'utf8');
+	}
+}
+
+// Función para pedir un artefacto al proveedor de egress. dotnet-monitor responde 202 con la URL de la operación
+function iniciarOperacionEgress(url: string, body?: unknown, cabeceras: Record<string, string> = {}): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const cliente = url.startsWith('https') ? https : http;
+		const destino = `${url}${url.includes('?') ? '&' : '?'}egressProvider=${EGRESS_PROVIDER}`;
+		const payload = body !== undefined ? JSON.stringify(body) : undefined;
+		const request = cliente.request(destino, {
+			method: payload ? 'POST' : 'GET',
+			rejectUnauthorized: !aceptarCertificadoNoValido(url),
+			headers: {
+				...getAuthHeaders(),
+				...cabeceras,
+				...(payload ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) } : {})
+			}
+		}, (response) => {
+			let texto = '';
+			response.on('data', chunk => texto += chunk);
+			response.on('end', () => {
+				const status = response.statusCode ?? 0;
+				if (status === 401) {
+					avisarNoAutorizado();
 				}
-				
-				// Reconectar automáticamente después de un breve delay si está habilitado
-				if (activo && config.autoReconnect) {
-					setTimeout(conectar, config.reconnectDelay);
+				if (status === 202 && response.headers.location) {
+					resolve(new URL(response.headers.location, url).toString());
+					return;
 				}
-			});
-			
-			response.on('error', (error) => {
-				console.error('❌ Error en stream:', error);
-				// Reconectar en caso de error si está habilitado
-				if (activo && config.autoReconnect) {
-					setTimeout(conectar, config.reconnectDelay);
+				let detalle = texto;
+				try {
+					const problema = JSON.parse(texto);
+					detalle = problema.detail || problema.title || texto;
+				} catch {
+					// El cuerpo no es JSON, usar el texto tal cual
 				}
+				reject(new Error(`HTTP ${status}${detalle ? `: ${detalle}` : ''}`));
 			});
 		});
-		
-		requestActual.on('error', (error) => {
-			console.error('❌ Error conectando al stream:', error);
-			// Reconectar en caso de error si está habilitado
-			if (activo && config.autoReconnect) {
-				setTimeout(conectar, config.reconnectDelay);
+		request.on('error', reject);
+		request.end(payload);
+	});
+}
+
+// Función para esperar a que termine una operación de egress mostrando su progreso.
+// Si el usuario cancela se cancela también la operación y se devuelve undefined
+async function esperarOperacion(urlOperacion: string, titulo: string): Promise<OperationInfo | undefined> {
+	return vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: titulo,
+			cancellable: true
+		},
+		async (progress, token) => {
+			const inicio = new Date();
+			while (!token.isCancellationRequested) {
+				const response = await fetchWithAgent(urlOperacion);
+				if (!response.ok) {
+					throw new Error(`HTTP ${response.status}`);
+				}
+				const operacion = parseOperation(await response.json());
+				if (operacion.status === 'Succeeded') {
+					return operacion;
+				}
+				if (operacion.status === 'Failed') {
+					throw new Error(operacion.error ?? 'the operation failed');
+				}
+				if (operacion.status === 'Cancelled') {
+					return undefined;
+				}
+				progress.report({ message: `${operacion.status} ${formatElapsed(inicio, new Date())}` });
+				await new Promise(resolve => setTimeout(resolve, 1000));
 			}
-		});
-	};
-	
-	// Iniciar la primera conexión
-	conectar();
-	
-	// Retornar función para cancelar el stream
-	return () => {
-		console.log('🛑 Cerrando stream de métricas');
-		activo = false;
-		if (requestActual) {
-			requestActual.destroy();
+			console.log('🛑 Operación cancelada por el usuario');
+			await fetchWithAgent(urlOperacion, {}, 'DELETE').catch(() => undefined);
+			return undefined;
 		}
-	};
+	);
 }
 
-// Función para obtener la lista de procesos
-async function obtenerProcesos(): Promise<{ processes: any[], debugActive: boolean, debugFound: boolean, hasAnyDebugProcess: boolean }> {
+// Función para recoger un artefacto con el proveedor de egress y renombrarlo como <proceso>_<pid>_<tipo>_<fecha>
+async function recogerConEgress(url: string, pid: number, tipo: string, extension: string, titulo: string, body?: unknown, cabeceras?: Record<string, string>): Promise<vscode.Uri | undefined> {
+	const urlOperacion = await iniciarOperacionEgress(url, body, cabeceras);
+	console.log(`📤 Operación de egress iniciada: ${urlOperacion}`);
+	actualizarOperaciones();
+
+	const operacion = await esperarOperacion(urlOperacion, titulo);
+	const ruta = getLocalArtifactPath(operacion?.resourceLocation);
+	if (!operacion || !ruta) {
+		return undefined;
+	}
+
+	const nombre = getArtifactFileName(operacion.processName, operacion.pid ?? pid, tipo, operacion.createdDateTime ?? new Date(), extension);
+	const destino = path.join(path.dirname(ruta), nombre);
 	try {
-		const config = getConfig();
-		console.log('🔍 Intentando obtener procesos desde la API...');
-		
-		// Probar primero la raíz para ver qué endpoints hay
-		const rootResponse = await fetchWithAgent(`http://localhost:${config.httpPort}/`);
-		console.log('Root status:', rootResponse.status);
-		if (rootResponse.ok) {
-			const rootData = await rootResponse.text();
-			console.log('Root response:', rootData);
-		}
-		
-		// Ahora probar /processes
-		const response = await fetchWithAgent(`https://localhost:${config.port}/processes`);
-		console.log('Processes status:', response.status);
-		
-		if (!response.ok) {
-			throw new Error(`HTTP error! status: ${response.status}`);
+		await fs.promises.rename(ruta, destino);
+	} catch (error) {
+		// Si no se puede renombrar (por ejemplo, dotnet-monitor lo escribió en otra máquina) se deja como está
+		console.log(`❌ No se pudo renombrar ${ruta}:`, error);
+		return vscode.Uri.file(ruta);
+	}
+	detallesOperaciones.set(operacion.operationId, { ...operacion, resourceLocation: destino });
+	console.log(`💾 Artefacto guardado en ${destino}`);
+	return vscode.Uri.file(destino);
+}
+
+// Tipos de dump soportados por el endpoint /dump de dotnet-monitor
+const DUMP_TYPES: (vscode.QuickPickItem & { value: string })[] = [
+	{ label: 'Mini', value: 'Mini', description: 'Stacks, exception info and loaded modules (smallest)' },
+	{ label: 'Heap', value: 'WithHeap', description: 'Mini dump plus the managed heap' },
+	{ label: 'Triage', value: 'Triage', description: 'Mini dump without personal data' },
+	{ label: 'Full', value: 'Full', description: 'Entire process memory (largest)' }
+];
+
+// Función para capturar un dump de memoria del proceso y guardarlo donde elija el usuario
+async function capturarDump(pid: number) {
+	const config = getConfig();
+
+	const tipo = await vscode.window.showQuickPick(DUMP_TYPES, {
+		title: `Capture Dump - PID ${pid}`,
+		placeHolder: 'Select the dump type'
+	});
+	if (!tipo) {
+		return;
+	}
+
+	// Con egress el archivo se escribe en la carpeta del workspace y no hace falta preguntar dónde guardarlo
+	const extension = process.platform === 'win32' ? 'dmp' : 'core';
+	let destino: vscode.Uri | undefined;
+	if (!getCarpetaEgress()) {
+		destino = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.joinPath(getCarpetaArtefactos(), `dump_${pid}_${tipo.label.toLowerCase()}_${getTimestamp()}.${extension}`),
+			filters: { 'Memory dumps': ['dmp', 'core'], 'All files': ['*'] },
+			saveLabel: 'Save Dump'
+		});
+		if (!destino) {
+			return;
 		}
-		const data = await response.json() as any[];
-		console.log('✅ Procesos obtenidos:', data);
-		
-		// Obtener información del programa en debug (si existe)
-		let debugProgramName: string | null = null;
-		let debugProgramPath: string | null = null;
-		let debugCwd: string | null = null;
-		let debugProjectName: string | null = null;
-		const debugSession = vscode.debug.activeDebugSession;
-		
-		if (debugSession && (debugSession.type === 'coreclr' || debugSession.type === 'clr')) {
-			console.log('🐛 Debug session configuration:', JSON.stringify(debugSession.configuration, null, 2));
-			
-			// Obtener el nombre y ruta del programa desde la configuración
-			const programPath = debugSession.configuration?.program;
-			if (programPath) {
-				debugProgramPath = programPath.replace(/\\/g, '/').toLowerCase();
-				// Extraer solo el nombre del archivo desde la ruta completa
-				debugProgramName = programPath.split('/').pop()?.split('\\').pop() || null;
-				console.log('🐛 Programa en debug:', debugProgramName);
-				console.log('🐛 Ruta completa:', debugProgramPath);
+	}
+
+	const url = `${config.baseUrl}/dump?pid=${pid}&type=${tipo.value}`;
+	const titulo = `Capturing ${tipo.label} dump of PID ${pid}`;
+	console.log(`📥 Capturando dump ${tipo.value} del PID ${pid} en ${destino?.fsPath ?? getCarpetaEgress()}`);
+
+	try {
+		const archivo = destino
+			? (await descargarArtefacto(url, destino, titulo) ? destino : undefined)
+			: await recogerConEgress(url, pid, `dump-${tipo.label.toLowerCase()}`, `.${extension}`, titulo);
+		if (archivo) {
+			await ofrecerMostrarArtefacto(archivo, `Dump saved to ${path.basename(archivo.fsPath)}`);
+		}
+	} catch (error: any) {
+		console.error('❌ Error capturando dump:', error);
+		vscode.window.showErrorMessage(`Could not capture dump: ${error.message}`);
+	}
+}
+
+// Snapshots del heap capturados durante la sesión, para poder compararlos después
+const heapSnapshots: { pid: number; archivo: vscode.Uri; fecha: Date }[] = [];
+
+// Función para capturar un snapshot del heap (.gcdump) y abrir el visor de tipos
+async function capturarGcDump(pid: number) {
+	const config = getConfig();
+
+	let destino: vscode.Uri | undefined;
+	if (!getCarpetaEgress()) {
+		destino = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.joinPath(getCarpetaArtefactos(), `heap_${pid}_${getTimestamp()}.gcdump`),
+			filters: { 'GC heap snapshots': ['gcdump'] },
+			saveLabel: 'Save Snapshot'
+		});
+		if (!destino) {
+			return;
+		}
+	}
+
+	const url = `${config.baseUrl}/gcdump?pid=${pid}`;
+	const titulo = `Capturing heap snapshot of PID ${pid}`;
+	console.log(`📸 Capturando snapshot del heap del PID ${pid} en ${destino?.fsPath ?? getCarpetaEgress()}`);
+
+	try {
+		const archivo = destino
+			? (await descargarArtefacto(url, destino, titulo) ? destino : undefined)
+			: await recogerConEgress(url, pid, 'gcdump', '.gcdump', titulo);
+		if (archivo) {
+			heapSnapshots.push({ pid, archivo, fecha: new Date() });
+			await mostrarHeapSnapshot(archivo);
+		}
+	} catch (error: any) {
+		console.error('❌ Error capturando gcdump:', error);
+		vscode.window.showErrorMessage(`Could not capture heap snapshot: ${error.message}`);
+	}
+}
+
+// Función para leer un .gcdump de disco y mostrar la tabla de tipos en un panel
+async function mostrarHeapSnapshot(archivo: vscode.Uri) {
+	let summary: GcDumpSummary;
+	try {
+		summary = await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: `Analyzing ${path.basename(archivo.fsPath)}` },
+			async () => parseGcDump(await fs.promises.readFile(archivo.fsPath))
+		);
+	} catch (error: any) {
+		console.error('❌ Error leyendo gcdump:', error);
+		vscode.window.showErrorMessage(`Could not read heap snapshot: ${error.message}`);
+		return;
+	}
+
+	console.log(`📦 Snapshot con ${summary.nodeCount} objetos y ${summary.types.length} tipos`);
+	const panel = vscode.window.createWebviewPanel(
+		'dotnetHeapSnapshot',
+		`Heap: ${path.basename(archivo.fsPath)}`,
+		vscode.ViewColumn.Active,
+		{
+			enableScripts: true
+		}
+	);
+	panel.webview.html = getHeapSnapshotHTML(path.basename(archivo.fsPath), summary);
+}
+
+// Función para elegir un snapshot capturado en la sesión o un .gcdump del disco
+async function elegirHeapSnapshot(titulo: string, pid?: number, excluir?: vscode.Uri): Promise<vscode.Uri | undefined> {
+	const capturados = heapSnapshots
+		.filter(s => (pid === undefined || s.pid === pid) && s.archivo.fsPath !== excluir?.fsPath)
+		.reverse()
+		.map(s => ({
+			label: `$(database) ${path.basename(s.archivo.fsPath)}`,
+			description: `PID ${s.pid} · ${s.fecha.toLocaleTimeString()}`,
+			archivo: s.archivo as vscode.Uri | undefined
+		}));
+	const items = [...capturados, { label: '$(folder-opened) Browse...', description: 'Pick a .gcdump file from disk', archivo: undefined }];
+
+	const seleccion = await vscode.window.showQuickPick(items, { title: titulo, placeHolder: 'Select a heap snapshot' });
+	if (!seleccion) {
+		return undefined;
+	}
+	if (seleccion.archivo) {
+		return seleccion.archivo;
+	}
+
+	const archivos = await vscode.window.showOpenDialog({
+		title: titulo,
+		defaultUri: getCarpetaArtefactos(),
+		filters: { 'GC heap snapshots': ['gcdump'] },
+		canSelectMany: false
+	});
+	return archivos?.[0];
+}
+
+// Función para comparar dos snapshots del heap y mostrar el crecimiento por tipo
+async function compararHeapSnapshots(pid?: number) {
+	const anterior = await elegirHeapSnapshot('Compare Heap Snapshots (1/2): baseline snapshot', pid);
+	if (!anterior) {
+		return;
+	}
+	const posterior = await elegirHeapSnapshot('Compare Heap Snapshots (2/2): later snapshot', pid, anterior);
+	if (!posterior) {
+		return;
+	}
+
+	let diffs: GcDumpTypeDiff[];
+	try {
+		diffs = await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: 'Comparing heap snapshots' },
+			async () => {
+				const before = parseGcDump(await fs.promises.readFile(anterior.fsPath));
+				const after = parseGcDump(await fs.promises.readFile(posterior.fsPath));
+				return diffGcDumps(before, after);
 			}
-			
-			// Obtener el directorio de trabajo
-			debugCwd = debugSession.configuration?.cwd?.replace(/\\/g, '/').toLowerCase() || null;
-			console.log('🐛 Working directory:', debugCwd);
-			
-			// Obtener el nombre del proyecto desde projectPath o launchConfigurationId
-			const projectPath = debugSession.configuration?.projectPath;
-			if (projectPath) {
-				debugProjectName = projectPath.split('/').pop()?.split('\\').pop()?.replace(/\.csproj$/i, '') || null;
-				console.log('🐛 Nombre del proyecto:', debugProjectName);
+		);
+	} catch (error: any) {
+		console.error('❌ Error comparando gcdumps:', error);
+		vscode.window.showErrorMessage(`Could not compare heap snapshots: ${error.message}`);
+		return;
+	}
+
+	const panel = vscode.window.createWebviewPanel(
+		'dotnetHeapDiff',
+		`Heap diff: ${path.basename(posterior.fsPath)}`,
+		vscode.ViewColumn.Active,
+		{
+			enableScripts: true
+		}
+	);
+	panel.webview.html = getHeapDiffHTML(path.basename(anterior.fsPath), path.basename(posterior.fsPath), diffs);
+}
+
+// Perfiles de trazas soportados por el endpoint /trace de dotnet-monitor
+const TRACE_PROFILES: (vscode.QuickPickItem & { value: string })[] = [
+	{ label: 'Cpu', value: 'Cpu', description: 'CPU sampling (call stacks)' },
+	{ label: 'Http', value: 'Http', description: 'Incoming and outgoing HTTP requests' },
+	{ label: 'Logs', value: 'Logs', description: 'ILogger output' },
+	{ label: 'Metrics', value: 'Metrics', description: 'EventCounters of the runtime and ASP.NET Core' },
+	{ label: 'All', value: 'Cpu,Http,Logs,Metrics', description: 'Cpu, Http, Logs and Metrics together' },
+	{ label: 'Custom providers...', value: 'custom', description: 'Enter a list of EventPipe providers' }
+];
+
+const EVENT_LEVELS = ['LogAlways', 'Critical', 'Error', 'Warning', 'Informational', 'Verbose'];
+
+// Función para convertir "Proveedor[:keywords[:nivel]], ..." en la configuración de proveedores de /trace
+function parsearProveedores(texto: string): { Name: string; Keywords?: string; EventLevel?: string }[] {
+	return texto
+		.split(',')
+		.map(p => p.trim())
+		.filter(p => p.length > 0)
+		.map(p => {
+			const [name, keywords, level] = p.split(':').map(parte => parte.trim());
+			return {
+				Name: name,
+				...(keywords ? { Keywords: keywords } : {}),
+				...(level ? { EventLevel: EVENT_LEVELS.find(l => l.toLowerCase() === level.toLowerCase()) ?? level } : {})
+			};
+		});
+}
+
+// Función para grabar una traza EventPipe (.nettrace) de duración fija.
+// Si se pasa el panel del dashboard se le envía una cuenta atrás mientras dura la grabación
+async function grabarTrace(pid: number, panel?: vscode.WebviewPanel) {
+	const config = getConfig();
+
+	const perfil = await vscode.window.showQuickPick(TRACE_PROFILES, {
+		title: `Record Trace - PID ${pid}`,
+		placeHolder: 'Select the trace profile'
+	});
+	if (!perfil) {
+		return;
+	}
+
+	let proveedores: ReturnType<typeof parsearProveedores> | undefined;
+	if (perfil.value === 'custom') {
+		const texto = await vscode.window.showInputBox({
+			title: 'Custom EventPipe providers',
+			prompt: 'Comma-separated providers as Name[:Keywords[:Level]]',
+			placeHolder: 'Microsoft-Windows-DotNETRuntime:0x1:Verbose, MyCompany-MyEventSource',
+			validateInput: valor => parsearProveedores(valor).length === 0 ? 'Enter at least one provider' : undefined
+		});
+		if (!texto) {
+			return;
+		}
+		proveedores = parsearProveedores(texto);
+	}
+
+	const duracionTexto = await vscode.window.showInputBox({
+		title: 'Trace duration',
+		prompt: 'Duration of the trace in seconds',
+		value: '30',
+		validateInput: valor => {
+			const segundos = Number(valor);
+			return Number.isInteger(segundos) && segundos >= 1 && segundos <= 3600 ? undefined : 'Enter a number of seconds between 1 and 3600';
+		}
+	});
+	if (!duracionTexto) {
+		return;
+	}
+	const duracion = Number(duracionTexto);
+
+	let destino: vscode.Uri | undefined;
+	if (!getCarpetaEgress()) {
+		destino = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.joinPath(getCarpetaArtefactos(), `trace_${pid}_${getTimestamp()}.nettrace`),
+			filters: { 'EventPipe traces': ['nettrace'] },
+			saveLabel: 'Save Trace'
+		});
+		if (!destino) {
+			return;
+		}
+	}
+
+	const url = proveedores
+		? `${config.baseUrl}/trace?pid=${pid}&durationSeconds=${duracion}`
+		: `${config.baseUrl}/trace?pid=${pid}&profile=${encodeURIComponent(perfil.value)}&durationSeconds=${duracion}`;
+	const body = proveedores ? { Providers: proveedores, RequestRundown: true, BufferSizeInMB: 256 } : undefined;
+	const titulo = `Recording ${perfil.label} trace of PID ${pid} (${duracion}s)`;
+	console.log(`⏺️ Grabando traza ${perfil.label} de ${duracion}s del PID ${pid} en ${destino?.fsPath ?? getCarpetaEgress()}`);
+
+	// Cuenta atrás en el dashboard mientras se graba la traza
+	const fin = Date.now() + duracion * 1000;
+	const enviarEstado = (estado: 'recording' | 'done' | 'cancelled' | 'error') => {
+		panel?.webview.postMessage({
+			command: 'estadoTrace',
+			data: { estado, restante: Math.max(0, Math.ceil((fin - Date.now()) / 1000)), perfil: perfil.label }
+		});
+	};
+	enviarEstado('recording');
+	const intervalo = setInterval(() => enviarEstado('recording'), 1000);
+
+	try {
+		const archivo = destino
+			? (await descargarArtefacto(url, destino, titulo, body) ? destino : undefined)
+			: await recogerConEgress(url, pid, 'trace', '.nettrace', titulo, body);
+		clearInterval(intervalo);
+		enviarEstado(archivo ? 'done' : 'cancelled');
+		if (archivo) {
+			await ofrecerMostrarArtefacto(archivo, `Trace saved to ${path.basename(archivo.fsPath)}`);
+		}
+	} catch (error: any) {
+		clearInterval(intervalo);
+		enviarEstado('error');
+		console.error('❌ Error grabando traza:', error);
+		vscode.window.showErrorMessage(`Could not record trace: ${error.message}`);
+	}
+}
+
+// Función para guardar los logs del proceso durante un tiempo (en la carpeta de egress o donde elija el usuario)
+async function capturarLogs(pid: number) {
+	const config = getConfig();
+
+	const duracionTexto = await vscode.window.showInputBox({
+		title: `Capture Logs - PID ${pid}`,
+		prompt: 'Duration of the log capture in seconds',
+		value: '60',
+		validateInput: valor => {
+			const segundos = Number(valor);
+			return Number.isInteger(segundos) && segundos >= 1 && segundos <= 3600 ? undefined : 'Enter a number of seconds between 1 and 3600';
+		}
+	});
+	if (!duracionTexto) {
+		return;
+	}
+	const duracion = Number(duracionTexto);
+
+	let destino: vscode.Uri | undefined;
+	if (!getCarpetaEgress()) {
+		destino = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.joinPath(getCarpetaArtefactos(), `logs_${pid}_${getTimestamp()}.ndjson`),
+			filters: { 'Logs (NDJSON)': ['ndjson'], 'All files': ['*'] },
+			saveLabel: 'Save Logs'
+		});
+		if (!destino) {
+			return;
+		}
+	}
+
+	const url = `${config.baseUrl}/logs?pid=${pid}&durationSeconds=${duracion}`;
+	const titulo = `Capturing logs of PID ${pid} (${duracion}s)`;
+	console.log(`📝 Capturando logs de ${duracion}s del PID ${pid} en ${destino?.fsPath ?? getCarpetaEgress()}`);
+
+	try {
+		const archivo = destino
+			? (await descargarArtefacto(url, destino, titulo) ? destino : undefined)
+			: await recogerConEgress(url, pid, 'logs', '.ndjson', titulo, undefined, { Accept: 'application/x-ndjson' });
+		if (archivo) {
+			await ofrecerMostrarArtefacto(archivo, `Logs saved to ${path.basename(archivo.fsPath)}`);
+		}
+	} catch (error: any) {
+		console.error('❌ Error capturando logs:', error);
+		vscode.window.showErrorMessage(`Could not capture logs: ${error.message}`);
+	}
+}
+
+// Función para capturar las pilas de llamadas del proceso en formato speedscope y abrir el flame graph
+async function capturarFlameGraph(pid: number) {
+	const config = getConfig();
+	console.log(`🔥 Capturando pilas de llamadas del PID ${pid}`);
+
+	try {
+		if (getCarpetaEgress()) {
+			const archivo = await recogerConEgress(
+				`${config.baseUrl}/stacks?pid=${pid}`, pid, 'stacks', '.speedscope.json', `Capturing call stacks of PID ${pid}`,
+				undefined, { Accept: 'application/speedscope+json' }
+			);
+			if (archivo) {
+				const guardado = await fs.promises.readFile(archivo.fsPath, 'utf8');
+				mostrarFlameGraph(parseSpeedscope(JSON.parse(guardado)), path.basename(archivo.fsPath));
 			}
+			return;
 		}
-		
-		console.log('🐛 Todos los procesos antes de filtrar:', data.map(p => ({ 
-			pid: p.pid, 
-			name: p.name, 
-			commandLine: p.commandLine?.substring(0, 150) 
-		})));
-		
-		// Si hay debug activo y el programa es un DLL, buscar en procesos "dotnet"
-		let debugProcessPid: number | null = null;
-		if (debugProgramName && debugProgramName.endsWith('.dll') && debugProgramPath) {
-			console.log('🔍 Buscando proceso dotnet que contenga:', debugProgramPath);
-			
-			// Buscar en todos los procesos "dotnet" para encontrar el correcto
-			for (const proceso of data.filter(p => p.name?.toLowerCase() === 'dotnet')) {
-				try {
-					// Obtener información detallada del proceso
-					const detailResponse = await fetchWithAgent(`https://localhost:${config.port}/process?pid=${proceso.pid}`);
-					if (detailResponse.ok) {
-						const detail = await detailResponse.json() as any;
-						console.log(`🔍 Proceso dotnet PID ${proceso.pid}:`, {
-							commandLine: detail.commandLine?.substring(0, 200)
-						});
-						
-						// Buscar la ruta del DLL en el commandLine
-						if (detail.commandLine) {
-							const cmdLower = detail.commandLine.replace(/\\/g, '/').toLowerCase();
-							if (cmdLower.includes(debugProgramPath)) {
-								console.log(`✅ FOUND! Proceso dotnet con PID ${proceso.pid} ejecutando ${debugProgramName}`);
-								debugProcessPid = proceso.pid;
-								break;
-							}
-						}
-					}
-				} catch (err) {
-					console.log(`❌ Error obteniendo info del proceso ${proceso.pid}:`, err);
+
+		const contenido = await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: `Capturing call stacks of PID ${pid}` },
+			async () => {
+				const response = await fetchWithAgent(
+					`${config.baseUrl}/stacks?pid=${pid}`,
+					{ Accept: 'application/speedscope+json' }
+				);
+				const texto = await response.text();
+				if (!response.ok) {
+					throw new Error(`HTTP ${response.status}: ${texto}`);
 				}
+				return texto;
 			}
+		);
+		mostrarFlameGraph(parseSpeedscope(JSON.parse(contenido)), `PID ${pid}`, contenido);
+	} catch (error: any) {
+		console.error('❌ Error capturando pilas:', error);
+		vscode.window.showErrorMessage(`Could not capture call stacks: ${error.message}`);
+	}
+}
+
+// Función para abrir un archivo speedscope del disco en el flame graph
+async function abrirSpeedscope() {
+	const archivos = await vscode.window.showOpenDialog({
+		title: 'Open speedscope file',
+		defaultUri: getCarpetaArtefactos(),
+		filters: { 'Speedscope profiles': ['json'] },
+		canSelectMany: false
+	});
+	if (!archivos?.[0]) {
+		return;
+	}
+
+	try {
+		const contenido = await fs.promises.readFile(archivos[0].fsPath, 'utf8');
+		mostrarFlameGraph(parseSpeedscope(JSON.parse(contenido)), path.basename(archivos[0].fsPath));
+	} catch (error: any) {
+		console.error('❌ Error leyendo speedscope:', error);
+		vscode.window.showErrorMessage(`Could not open speedscope file: ${error.message}`);
+	}
+}
+
+// Función para mostrar el flame graph en un panel. Si se pasa el contenido original se puede guardar a disco
+function mostrarFlameGraph(datos: SpeedscopeData, titulo: string, contenido?: string) {
+	const panel = vscode.window.createWebviewPanel(
+		'dotnetFlameGraph',
+		`Flame Graph: ${titulo}`,
+		vscode.ViewColumn.Active,
+		{
+			enableScripts: true
 		}
-		
-		const blackLists = ['microsoft.visualstudio.'];
-		
-		// Función para detectar si un proceso es el que está en debug
-		const isProcessDebugging = (proceso: any): boolean => {
-			// Si ya encontramos el PID exacto, usar eso
-			if (debugProcessPid !== null && proceso.pid === debugProcessPid) {
-				console.log('✅ Match por PID exacto:', proceso.pid);
-				return true;
+	);
+	panel.webview.html = getFlameGraphHTML(titulo, datos, contenido !== undefined);
+
+	panel.webview.onDidReceiveMessage(async (mensaje) => {
+		if (mensaje.command === 'guardarSpeedscope' && contenido !== undefined) {
+			const destino = await vscode.window.showSaveDialog({
+				defaultUri: vscode.Uri.joinPath(getCarpetaArtefactos(), `stacks_${getTimestamp()}.speedscope.json`),
+				filters: { 'Speedscope profiles': ['json'] },
+				saveLabel: 'Save Stacks'
+			});
+			if (!destino) {
+				return;
 			}
-			
-			if (!debugProgramName) return false;
-			
-			const procesoName = proceso.name?.toLowerCase() || '';
-			const debugName = debugProgramName.toLowerCase();
-			
-			console.log(`🔍 Evaluando proceso: "${procesoName}" contra debug: "${debugName}"`);
-			
-			// Estrategia 1: Comparación exacta de nombre
-			if (procesoName === debugName) {
-				console.log('✅ Match por nombre exacto:', procesoName);
-				return true;
+			try {
+				await fs.promises.writeFile(destino.fsPath, contenido);
+			} catch (error: any) {
+				console.error('❌ Error guardando speedscope:', error);
+				vscode.window.showErrorMessage(`Could not save call stacks: ${error.message}`);
+				return;
 			}
-			
-			// Estrategia 2: Nombre sin extensión (.exe, .dll)
-			const procesoNameWithoutExt = procesoName.replace(/\.(exe|dll)$/i, '');
-			const debugNameWithoutExt = debugName.replace(/\.(exe|dll)$/i, '');
-			console.log(`🔍 Comparando sin extensión: "${procesoNameWithoutExt}" vs "${debugNameWithoutExt}"`);
-			if (procesoNameWithoutExt === debugNameWithoutExt) {
-				console.log('✅ Match por nombre sin extensión:', procesoNameWithoutExt);
-				return true;
+			await ofrecerMostrarArtefacto(destino, `Call stacks saved to ${path.basename(destino.fsPath)}`);
+		}
+	});
+}
+
+// Función para localizar el método de un frame buscando su tipo en los .cs del workspace
+async function resolverUbicacionFrame(frame: StackFrameInfo): Promise<vscode.Location | undefined> {
+	const destino = getSourceTarget(frame);
+	if (!destino) {
+		return undefined;
+	}
+
+	const archivos = await vscode.workspace.findFiles('**/*.cs', '**/{bin,obj,node_modules}/**');
+	// Probar primero los archivos que se llaman como el tipo
+	archivos.sort((a, b) =>
+		Number(path.basename(b.fsPath, '.cs') === destino.typeName) - Number(path.basename(a.fsPath, '.cs') === destino.typeName)
+	);
+
+	for (const archivo of archivos) {
+		const source = Buffer.from(await vscode.workspace.fs.readFile(archivo)).toString('utf8');
+		if (!source.includes(destino.typeName)) {
+			continue;
+		}
+		const linea = findMethodInSource(source, destino.typeName, destino.methodName);
+		if (linea !== undefined) {
+			console.log(`📍 ${destino.typeName}.${destino.methodName} encontrado en ${archivo.fsPath}:${linea + 1}`);
+			return new vscode.Location(archivo, new vscode.Position(linea, 0));
+		}
+	}
+	return undefined;
+}
+
+// Función para abrir en el editor el método de un frame
+async function abrirFrameEnCodigo(frame: StackFrameInfo) {
+	const ubicacion = await resolverUbicacionFrame(frame);
+	if (!ubicacion) {
+		vscode.window.showWarningMessage(`Could not find ${frame.display} in the workspace`);
+		return;
+	}
+	await vscode.window.showTextDocument(ubicacion.uri, {
+		viewColumn: vscode.ViewColumn.One,
+		selection: ubicacion.range
+	});
+}
+
+// Función para capturar las pilas de llamadas de todos los hilos y mostrarlas en un árbol navegable
+async function capturarCallStacks(pid: number) {
+	const config = getConfig();
+	console.log(`🧵 Capturando pilas de llamadas (JSON) del PID ${pid}`);
+
+	let threads: ThreadStack[];
+	try {
+		if (getCarpetaEgress()) {
+			const archivo = await recogerConEgress(
+				`${config.baseUrl}/stacks?pid=${pid}`, pid, 'stacks', '.json', `Capturing call stacks of PID ${pid}`,
+				undefined, { Accept: 'application/json' }
+			);
+			if (!archivo) {
+				return;
 			}
-			
-			// Estrategia 3: Comparar con el nombre del DLL si el programa es un DLL
-			// En .NET, el proceso suele llamarse igual que el DLL pero sin extensión
-			if (debugName.endsWith('.dll')) {
-				const dllNameWithoutExt = debugName.replace(/\.dll$/i, '');
-				console.log(`🔍 Es DLL, comparando: "${procesoName}" vs "${dllNameWithoutExt}" o "${dllNameWithoutExt}.exe"`);
-				if (procesoName === dllNameWithoutExt || procesoName === dllNameWithoutExt + '.exe') {
-					console.log('✅ Match por nombre de DLL:', dllNameWithoutExt);
-					return true;
+			threads = parseCallStacks(await fs.promises.readFile(archivo.fsPath, 'utf8'));
+		} else {
+			threads = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: `Capturing call stacks of PID ${pid}` },
+				async () => {
+					const response = await fetchWithAgent(`${config.baseUrl}/stacks?pid=${pid}`, { Accept: 'application/json' });
+					const texto = await response.text();
+					if (!response.ok) {
+						throw new Error(`HTTP ${response.status}: ${texto}`);
+					}
+					return parseCallStacks(texto);
 				}
+			);
+		}
+	} catch (error: any) {
+		console.error('❌ Error capturando pilas:', error);
+		vscode.window.showErrorMessage(`Could not capture call stacks: ${error.message}`);
+		return;
+	}
+
+	const panel = vscode.window.createWebviewPanel(
+		'dotnetCallStacks',
+		`Call Stacks: PID ${pid}`,
+		vscode.ViewColumn.Active,
+		{
+			enableScripts: true
+		}
+	);
+	panel.webview.html = getCallStacksHTML(pid, threads);
+
+	panel.webview.onDidReceiveMessage(async (mensaje) => {
+		if (mensaje.command === 'abrirFrame') {
+			const frame = threads[mensaje.thread]?.frames[mensaje.frame];
+			if (frame) {
+				await abrirFrameEnCodigo(frame);
 			}
-			
-			// Estrategia 4: Buscar en la ruta del comando si está disponible
-			if (debugProgramPath && proceso.commandLine) {
-				const commandLine = proceso.commandLine.replace(/\\/g, '/').toLowerCase();
-				console.log(`🔍 Buscando ruta "${debugProgramPath}" en commandLine: "${commandLine.substring(0, 100)}..."`);
-				if (commandLine.includes(debugProgramPath)) {
-					console.log('✅ Match por ruta en commandLine');
-					return true;
-				}
+		}
+		if (mensaje.command === 'refrescar') {
+			panel.dispose();
+			await usarMonitor(() => capturarCallStacks(pid));
+		}
+	});
+}
+
+// Diagnósticos del panel Problems con las excepciones lanzadas por el proceso monitorizado
+let diagnosticosExcepciones: vscode.DiagnosticCollection | undefined;
+
+// Función para obtener el historial de excepciones del proceso
+async function obtenerExcepciones(pid: number): Promise<ExceptionInfo[]> {
+	const config = getConfig();
+	const response = await fetchWithAgent(`${config.baseUrl}/exceptions?pid=${pid}`, { Accept: 'application/x-ndjson' });
+	const texto = await response.text();
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}: ${texto}`);
+	}
+	return parseExceptions(texto);
+}
+
+// Función para publicar las excepciones en el panel Problems, en el primer frame que esté en el workspace
+async function publicarExcepcionesEnProblems(pid: number, grupos: ExceptionGroup[]) {
+	if (!diagnosticosExcepciones) {
+		return 0;
+	}
+	const porArchivo = new Map<string, { uri: vscode.Uri; diagnosticos: vscode.Diagnostic[] }>();
+	const ubicaciones = new Map<string, vscode.Location | undefined>();
+
+	for (const grupo of grupos) {
+		// Agrupar las apariciones por el frame de usuario donde se lanzaron
+		const porFrame = new Map<string, { frame: StackFrameInfo; ocurrencias: ExceptionInfo[] }>();
+		for (const ocurrencia of grupo.occurrences) {
+			const frame = ocurrencia.frames.find(f => !isFrameworkFrame(f));
+			if (frame) {
+				const entrada = porFrame.get(frame.display) ?? { frame, ocurrencias: [] };
+				entrada.ocurrencias.push(ocurrencia);
+				porFrame.set(frame.display, entrada);
 			}
-			
-			// Estrategia 5: Buscar por directorio de trabajo
-			if (debugCwd && proceso.commandLine) {
-				const commandLine = proceso.commandLine.replace(/\\/g, '/').toLowerCase();
-				console.log(`🔍 Buscando cwd "${debugCwd}" en commandLine`);
-				if (commandLine.includes(debugCwd)) {
-					console.log('✅ Match por working directory');
-					return true;
-				}
+		}
+
+		for (const [clave, { frame, ocurrencias }] of porFrame) {
+			if (!ubicaciones.has(clave)) {
+				ubicaciones.set(clave, await resolverUbicacionFrame(frame));
 			}
-			
-			// Estrategia 6: Comparar con el nombre del proyecto (.csproj)
-			if (debugProjectName) {
-				const projectName = debugProjectName.toLowerCase();
-				const procesoNameClean = procesoName.replace(/\.(exe|dll)$/i, '');
-				console.log(`🔍 Comparando con proyecto: "${procesoNameClean}" vs "${projectName}"`);
-				if (procesoNameClean === projectName) {
-					console.log('✅ Match por nombre de proyecto:', projectName);
-					return true;
+			const ubicacion = ubicaciones.get(clave);
+			if (!ubicacion) {
+				continue;
+			}
+			const diagnostico = new vscode.Diagnostic(
+				ubicacion.range,
+				`${grupo.typeName} thrown ${ocurrencias.length} time(s) in PID ${pid}: ${ocurrencias[0].message}`,
+				vscode.DiagnosticSeverity.Warning
+			);
+			diagnostico.source = 'dotnet-monitor';
+			const archivo = porArchivo.get(ubicacion.uri.toString()) ?? { uri: ubicacion.uri, diagnosticos: [] };
+			archivo.diagnosticos.push(diagnostico);
+			porArchivo.set(ubicacion.uri.toString(), archivo);
+		}
+	}
+
+	diagnosticosExcepciones.clear();
+	for (const { uri, diagnosticos } of porArchivo.values()) {
+		diagnosticosExcepciones.set(uri, diagnosticos);
+	}
+	return [...porArchivo.values()].reduce((total, archivo) => total + archivo.diagnosticos.length, 0);
+}
+
+// Función para mostrar el historial de excepciones (first-chance) agrupado por tipo
+async function mostrarExcepciones(pid: number) {
+	let grupos: ExceptionGroup[];
+	try {
+		grupos = groupExceptions(await obtenerExcepciones(pid));
+	} catch (error: any) {
+		console.error('❌ Error obteniendo excepciones:', error);
+		vscode.window.showErrorMessage(`Could not get exception history: ${error.message}. The exceptions feature must be enabled in dotnet-monitor (InProcessFeatures:Exceptions:Enabled).`);
+		return;
+	}
+
+	const panel = vscode.window.createWebviewPanel(
+		'dotnetExceptions',
+		`Exceptions: PID ${pid}`,
+		vscode.ViewColumn.Active,
+		{
+			enableScripts: true,
+			retainContextWhenHidden: true
+		}
+	);
+	panel.webview.html = getExceptionsHTML(pid, grupos);
+
+	panel.webview.onDidReceiveMessage(async (mensaje) => {
+		if (mensaje.command === 'abrirFrame') {
+			const ocurrencia = grupos[mensaje.grupo]?.occurrences[mensaje.ocurrencia];
+			const frame = ocurrencia?.frames[mensaje.frame];
+			if (frame) {
+				await abrirFrameEnCodigo(frame);
+			}
+		}
+
+		if (mensaje.command === 'refrescar') {
+			await usarMonitor(async () => {
+				try {
+					grupos = groupExceptions(await obtenerExcepciones(pid));
+					panel.webview.html = getExceptionsHTML(pid, grupos);
+				} catch (error: any) {
+					vscode.window.showErrorMessage(`Could not get exception history: ${error.message}`);
+				}
+			});
+		}
+
+		if (mensaje.command === 'publicarProblems') {
+			const total = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: 'Resolving exception locations in the workspace' },
+				() => publicarExcepcionesEnProblems(pid, grupos)
+			);
+			vscode.window.showInformationMessage(`${total} exception location(s) published to the Problems view`);
+		}
+
+		if (mensaje.command === 'limpiarProblems') {
+			diagnosticosExcepciones?.clear();
+		}
+	});
+}
+
+// Función para saber si una variable de entorno contiene un secreto (por nombre o por contenido)
+function esSecreto(clave: string, valor: string, patrones: string[]): boolean {
+	const nombre = clave.toLowerCase().replace(/[^a-z0-9_]/g, '');
+	if (patrones.some(patron => nombre.includes(patron.toLowerCase()))) {
+		return true;
+	}
+	// Cadenas de conexión con credenciales aunque el nombre no lo indique
+	return /(password|pwd|accountkey|sharedaccesskey)\s*=/i.test(valor) || /:\/\/[^/\s:@]+:[^/\s@]+@/.test(valor);
+}
+
+// Función para obtener el tiempo que lleva arrancado un proceso local (en segundos)
+async function obtenerUptime(pid: number): Promise<number | undefined> {
+	// El PID llega desde el webview: sólo se aceptan enteros positivos y se pasa como argumento, sin shell
+	if (!Number.isInteger(pid) || pid <= 0) {
+		return undefined;
+	}
+	try {
+		if (process.platform === 'win32') {
+			const { stdout } = await execFileAsync('powershell', ['-NoProfile', '-Command', `((Get-Date) - (Get-Process -Id ${pid}).StartTime).TotalSeconds`]);
+			return Math.round(parseFloat(stdout.trim().replace(',', '.')));
+		}
+		const { stdout } = await execFileAsync('ps', ['-o', 'etime=', '-p', String(pid)]);
+		// Formato [[dd-]hh:]mm:ss
+		const [dias, resto] = stdout.trim().includes('-') ? stdout.trim().split('-') : ['0', stdout.trim()];
+		const partes = resto.split(':').map(Number).reverse();
+		return Number(dias) * 86400 + (partes[2] ?? 0) * 3600 + (partes[1] ?? 0) * 60 + (partes[0] ?? 0);
+	} catch {
+		return undefined;
+	}
+}
+
+// Función para mostrar los detalles de un proceso: información del runtime, línea de comandos y entorno
+async function mostrarDetallesProceso(pid: number) {
+	const config = getConfig();
+	console.log(`ℹ️ Obteniendo detalles del PID ${pid}`);
+
+	let detalle: any;
+	let info: any;
+	let entorno: Record<string, string>;
+	try {
+		const base = config.baseUrl;
+		const [detalleResponse, infoResponse, envResponse] = await Promise.all([
+			fetchWithAgent(`${base}/process?pid=${pid}`),
+			fetchWithAgent(`${base}/info`),
+			fetchWithAgent(`${base}/env?pid=${pid}`)
+		]);
+		if (!detalleResponse.ok) {
+			throw new Error(`HTTP ${detalleResponse.status}: ${await detalleResponse.text()}`);
+		}
+		detalle = await detalleResponse.json();
+		info = infoResponse.ok ? await infoResponse.json() : {};
+		entorno = envResponse.ok ? await envResponse.json() as Record<string, string> : {};
+	} catch (error: any) {
+		console.error('❌ Error obteniendo detalles del proceso:', error);
+		vscode.window.showErrorMessage(`Could not get process details: ${error.message}`);
+		return;
+	}
+	// El PID es del host de dotnet-monitor: en modo attach no se puede consultar en esta máquina
+	const uptime = config.connectionMode === 'attach' ? 'Unavailable for attached instances' : await obtenerUptime(pid);
+
+	// Los valores secretos no se envían al webview hasta que el usuario los revela
+	const variables = Object.keys(entorno).sort((a, b) => a.localeCompare(b)).map(clave => {
+		const secreto = esSecreto(clave, entorno[clave] ?? '', config.secretPatterns);
+		return { clave, valor: secreto ? null : entorno[clave] };
+	});
+
+	const panel = vscode.window.createWebviewPanel(
+		'dotnetProcessDetails',
+		`Details: ${detalle.name ?? ''} (${pid})`,
+		vscode.ViewColumn.Active,
+		{
+			enableScripts: true
+		}
+	);
+	panel.webview.html = getProcessDetailsHTML(detalle, info, variables, uptime);
+
+	panel.webview.onDidReceiveMessage((mensaje) => {
+		if (mensaje.command === 'revelar' && mensaje.clave in entorno) {
+			panel.webview.postMessage({ command: 'valorRevelado', data: { clave: mensaje.clave, valor: entorno[mensaje.clave] } });
+		}
+	});
+}
+
+// Reglas de recogida de dotnet-monitor guardadas en el workspace. Se validan con el esquema
+// de schemas/collection-rules.schema.json y se pasan al dotnet-monitor lanzado por la extensión
+function getArchivoReglas(): vscode.Uri | undefined {
+	const carpeta = vscode.workspace.workspaceFolders?.[0];
+	return carpeta ? vscode.Uri.joinPath(carpeta.uri, '.vscode', 'dotnet-monitor-rules.json') : undefined;
+}
+
+async function leerArchivoReglas(): Promise<Record<string, unknown>> {
+	const archivo = getArchivoReglas();
+	if (!archivo || !fs.existsSync(archivo.fsPath)) {
+		return {};
+	}
+	const contenido = (await fs.promises.readFile(archivo.fsPath, 'utf8')).trim();
+	return contenido ? JSON.parse(contenido) : {};
+}
+
+// Función para obtener las reglas de los ajustes y del archivo (el archivo tiene prioridad)
+async function cargarReglas(): Promise<CollectionRules> {
+	const ajustes = vscode.workspace.getConfiguration('dotnetMonitor').get<CollectionRules>('collectionRules', {});
+	const archivo = await leerArchivoReglas();
+	delete archivo.$schema;
+	return { ...ajustes, ...archivo as CollectionRules };
+}
+
+// Función para abrir el archivo de reglas, creándolo si no existe
+async function editarReglas() {
+	const archivo = getArchivoReglas();
+	if (!archivo) {
+		vscode.window.showErrorMessage('Open a workspace folder to store collection rules.');
+		return;
+	}
+	if (!fs.existsSync(archivo.fsPath)) {
+		await fs.promises.mkdir(path.dirname(archivo.fsPath), { recursive: true });
+		await fs.promises.writeFile(archivo.fsPath, '{\n}\n', 'utf8');
+	}
+	await vscode.window.showTextDocument(archivo);
+}
+
+const TRIGGER_PRESETS: (vscode.QuickPickItem & { umbral?: string; valor?: number; crear: (valor: number) => CollectionRule['Trigger'] })[] = [
+	{ label: '$(pulse) High CPU', description: 'CPUUsage', umbral: 'CPU usage (%) above', valor: 80, crear: valor => ({ Type: 'CPUUsage', Settings: { GreaterThan: valor, SlidingWindowDuration: '00:00:10' } }) },
+	{ label: '$(database) Large GC heap', description: 'GCHeapSize', umbral: 'GC heap size (MB) above', valor: 500, crear: valor => ({ Type: 'GCHeapSize', Settings: { GreaterThan: valor } }) },
+	{ label: '$(list-ordered) Thread pool starvation', description: 'ThreadpoolQueueLength', umbral: 'Thread pool queue length above', valor: 100, crear: valor => ({ Type: 'ThreadpoolQueueLength', Settings: { GreaterThan: valor, SlidingWindowDuration: '00:00:10' } }) },
+	{ label: '$(error) Exceptions thrown', description: 'EventCounter System.Runtime/exception-count', umbral: 'Exceptions per interval above', valor: 10, crear: valor => ({ Type: 'EventCounter', Settings: { ProviderName: 'System.Runtime', CounterName: 'exception-count', GreaterThan: valor } }) },
+	{ label: '$(globe) Request burst', description: 'AspNetRequestCount', umbral: 'Requests within one minute', valor: 1000, crear: valor => ({ Type: 'AspNetRequestCount', Settings: { RequestCount: valor, SlidingWindowDuration: '00:01:00' } }) },
+	{ label: '$(watch) Slow requests', description: 'AspNetRequestDuration', umbral: 'Number of requests slower than 5 seconds', valor: 5, crear: valor => ({ Type: 'AspNetRequestDuration', Settings: { RequestCount: valor, RequestDuration: '00:00:05' } }) },
+	{ label: '$(warning) Server errors', description: 'AspNetResponseStatus', umbral: '5xx responses within one minute', valor: 10, crear: valor => ({ Type: 'AspNetResponseStatus', Settings: { StatusCodes: ['500-599'], ResponseCount: valor, SlidingWindowDuration: '00:01:00' } }) },
+	{ label: '$(play) Startup', description: 'Startup', crear: () => ({ Type: 'Startup' }) }
+];
+
+const ACTION_PRESETS: (vscode.QuickPickItem & { accion: { Type: string; Settings?: Record<string, unknown> } })[] = [
+	{ label: 'Dump', description: 'CollectDump (Mini)', picked: true, accion: { Type: 'CollectDump', Settings: { Type: 'Mini' } } },
+	{ label: 'GC dump', description: 'CollectGCDump', accion: { Type: 'CollectGCDump' } },
+	{ label: 'CPU trace', description: 'CollectTrace (Cpu, 30s)', accion: { Type: 'CollectTrace', Settings: { Profile: 'Cpu', Duration: '00:00:30' } } },
+	{ label: 'Call stacks', description: 'CollectStacks', accion: { Type: 'CollectStacks' } },
+	{ label: 'Logs', description: 'CollectLogs (30s)', accion: { Type: 'CollectLogs', Settings: { Duration: '00:00:30' } } },
+	{ label: 'Exceptions', description: 'CollectExceptions', accion: { Type: 'CollectExceptions' } },
+	{ label: 'Live metrics', description: 'CollectLiveMetrics (30s)', accion: { Type: 'CollectLiveMetrics', Settings: { Duration: '00:00:30' } } }
+];
+
+// Función para crear una regla paso a paso (disparador, umbral y acciones) y guardarla en el archivo de reglas
+async function agregarRegla() {
+	const archivo = getArchivoReglas();
+	if (!archivo) {
+		vscode.window.showErrorMessage('Open a workspace folder to store collection rules.');
+		return;
+	}
+	let existentes: Record<string, unknown>;
+	try {
+		existentes = await leerArchivoReglas();
+	} catch (error: any) {
+		vscode.window.showErrorMessage(`Could not read ${vscode.workspace.asRelativePath(archivo)}: ${error.message}`);
+		return;
+	}
+
+	const trigger = await vscode.window.showQuickPick(TRIGGER_PRESETS, { title: 'New collection rule (1/4)', placeHolder: 'When should the rule trigger?' });
+	if (!trigger) {
+		return;
+	}
+	let valor = 0;
+	if (trigger.umbral) {
+		const texto = await vscode.window.showInputBox({
+			title: 'New collection rule (2/4)',
+			prompt: trigger.umbral,
+			value: String(trigger.valor),
+			validateInput: v => Number(v) > 0 ? undefined : 'Enter a positive number'
+		});
+		if (!texto) {
+			return;
+		}
+		valor = Number(texto);
+	}
+
+	const acciones = await vscode.window.showQuickPick(ACTION_PRESETS, {
+		title: 'New collection rule (3/4)',
+		placeHolder: 'What should be collected?',
+		canPickMany: true
+	});
+	if (!acciones || acciones.length === 0) {
+		return;
+	}
+	const egress = await vscode.window.showInputBox({
+		title: 'New collection rule (3/4)',
+		prompt: 'Name of the egress provider configured in dotnet-monitor where artifacts are written',
+		value: getCarpetaEgress() ? EGRESS_PROVIDER : 'monitorFile',
+		validateInput: v => v.trim() ? undefined : 'Enter an egress provider name'
+	});
+	if (!egress) {
+		return;
+	}
+
+	const nombreSugerido = trigger.description!.split(' ')[0].replace(/[^A-Za-z0-9]/g, '');
+	const nombre = await vscode.window.showInputBox({
+		title: 'New collection rule (4/4)',
+		prompt: 'Rule name',
+		value: existentes[nombreSugerido] ? `${nombreSugerido}${Object.keys(existentes).length + 1}` : nombreSugerido,
+		validateInput: v => !/^[A-Za-z0-9_.-]+$/.test(v)
+			? 'Use only letters, digits, \'_\', \'.\' and \'-\''
+			: existentes[v] ? 'A rule with this name already exists' : undefined
+	});
+	if (!nombre) {
+		return;
+	}
+
+	const regla: CollectionRule = {
+		Trigger: trigger.crear(valor),
+		Actions: acciones.map(a => ({ Type: a.accion.Type, Settings: { ...a.accion.Settings, Egress: egress.trim() } })),
+		Limits: { ActionCount: 1 }
+	};
+	await fs.promises.mkdir(path.dirname(archivo.fsPath), { recursive: true });
+	await fs.promises.writeFile(archivo.fsPath, JSON.stringify({ ...existentes, [nombre]: regla }, null, '\t') + '\n', 'utf8');
+	await vscode.window.showTextDocument(archivo);
+}
+
+// Función para obtener el estado de las reglas de un proceso, con el detalle de cada una
+async function obtenerEstadoReglas(pid: number): Promise<CollectionRuleStatus[]> {
+	const config = getConfig();
+	const response = await fetchWithAgent(`${config.baseUrl}/collectionrules?pid=${pid}`);
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+	const resumen = await response.json() as Record<string, unknown>;
+
+	// El detalle (ocurrencias, límites y cuentas atrás) se pide regla a regla
+	const estados = await Promise.all(Object.entries(resumen).map(async ([nombre, estado]) => {
+		try {
+			const detalle = await fetchWithAgent(`${config.baseUrl}/collectionrules/${encodeURIComponent(nombre)}?pid=${pid}`);
+			if (detalle.ok) {
+				return parseCollectionRuleStatus(nombre, await detalle.json());
+			}
+		} catch (error) {
+			console.log(`❌ Error obteniendo el detalle de la regla ${nombre}:`, error);
+		}
+		return parseCollectionRuleStatus(nombre, estado);
+	}));
+	await agregarResultadosAcciones(pid, estados);
+	return estados;
+}
+
+// Disparos vistos de cada regla (por PID y nombre): cuántas veces había saltado y cuándo se vio el último
+const disparosReglas = new Map<string, { ocurrencias: number; disparo?: Date }>();
+
+// Función para añadir al estado de las reglas el resultado de las acciones de su último disparo. El disparo
+// se detecta cuando sube el contador de la regla; las acciones se buscan en /operations y en la carpeta de egress
+async function agregarResultadosAcciones(pid: number, estados: CollectionRuleStatus[]) {
+	const ahora = new Date();
+	for (const estado of estados) {
+		const clave = `${pid}/${estado.name}`;
+		const anterior = disparosReglas.get(clave);
+		const ocurrencias = estado.lifetimeOccurrences ?? 0;
+		disparosReglas.set(clave, {
+			ocurrencias,
+			disparo: anterior && ocurrencias > anterior.ocurrencias ? ahora : anterior?.disparo
+		});
+	}
+	const disparadas = estados.filter(estado => (estado.lifetimeOccurrences ?? 0) > 0);
+	if (disparadas.length === 0) {
+		return;
+	}
+
+	let operacionesProceso: OperationInfo[] = [];
+	try {
+		operacionesProceso = await obtenerOperaciones();
+	} catch (error) {
+		console.log('⚠️ No se pudieron obtener las operaciones para las reglas:', error);
+	}
+	const archivos: EgressFile[] = (await listarArtefactos()).map(artefacto => ({ name: path.basename(artefacto.uri.fsPath), modified: artefacto.fecha }));
+	for (const estado of disparadas) {
+		estado.lastAction = summarizeRuleActions(pid, disparosReglas.get(`${pid}/${estado.name}`)?.disparo, operacionesProceso, archivos);
+	}
+}
+
+// Función para mostrar el estado de las reglas de un proceso, actualizándolo mientras el panel está visible.
+// El panel mantiene su propia referencia a dotnet-monitor mientras está abierto
+async function mostrarReglas(pid: number) {
+	const referencia = await adquirirMonitor();
+	if (!referencia.listo) {
+		vscode.window.showErrorMessage('Could not connect to dotnet-monitor to get the collection rules state');
+		return;
+	}
+	const panel = vscode.window.createWebviewPanel(
+		'dotnetCollectionRules',
+		`Collection Rules: PID ${pid}`,
+		vscode.ViewColumn.Active,
+		{
+			enableScripts: true,
+			retainContextWhenHidden: true
+		}
+	);
+	panel.webview.html = getCollectionRulesHTML(pid);
+
+	const actualizar = async () => {
+		try {
+			panel.webview.postMessage({ command: 'estadoReglas', data: await obtenerEstadoReglas(pid) });
+		} catch (error: any) {
+			panel.webview.postMessage({ command: 'errorReglas', data: error.message });
+		}
+	};
+	actualizar();
+	const intervalo = setInterval(() => {
+		if (panel.visible) {
+			actualizar();
+		}
+	}, 5000);
+	const finMonitor = monitorDetenido.event(() => {
+		clearInterval(intervalo);
+		panel.webview.postMessage({ command: 'errorReglas', data: 'dotnet-monitor was stopped. Reopen this view to start it again.' });
+	});
+	panel.onDidDispose(() => {
+		clearInterval(intervalo);
+		finMonitor.dispose();
+		referencia.liberar();
+	});
+
+	panel.webview.onDidReceiveMessage(async (mensaje) => {
+		if (mensaje.command === 'refrescar') {
+			await actualizar();
+		}
+		if (mensaje.command === 'editarReglas') {
+			await editarReglas();
+		}
+		if (mensaje.command === 'agregarRegla') {
+			await agregarRegla();
+		}
+	});
+}
+
+// Vista lateral con las operaciones de egress de dotnet-monitor. Una operación terminada ya no cambia,
+// así que su detalle (ubicación del artefacto o error) se pide una sola vez
+const detallesOperaciones = new Map<string, OperationInfo>();
+const cambioOperaciones = new vscode.EventEmitter<void>();
+let operaciones: OperationInfo[] = [];
+let vistaOperaciones: vscode.TreeView<OperationInfo> | undefined;
+let actualizandoOperaciones = false;
+let operacionesSinAutorizacion = false;
+
+const ICONOS_OPERACION: Record<string, vscode.ThemeIcon> = {
+	Starting: new vscode.ThemeIcon('loading~spin'),
+	Running: new vscode.ThemeIcon('loading~spin'),
+	Stopping: new vscode.ThemeIcon('loading~spin'),
+	Succeeded: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+	Failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground')),
+	Cancelled: new vscode.ThemeIcon('circle-slash')
+};
+
+// Función para saber si hay un dotnet-monitor al que preguntar (el lanzado por la extensión o el del perfil attach)
+function monitorDisponible(): boolean {
+	return getConfig().connectionMode === 'attach' || !!monitor.proceso || monitor.reutilizado;
+}
+
+// Función para obtener las operaciones de dotnet-monitor con el detalle de las terminadas. Si la petición
+// falla el error lleva el código HTTP en status
+async function obtenerOperaciones(): Promise<OperationInfo[]> {
+	const config = getConfig();
+	const response = await fetchWithAgent(`${config.baseUrl}/operations`);
+	if (!response.ok) {
+		throw Object.assign(new Error(`HTTP ${response.status}`), { status: response.status });
+	}
+	const lista = (await response.json() as unknown[]).map(parseOperation);
+	return Promise.all(lista.map(async operacion => {
+		if (isOperationRunning(operacion)) {
+			return operacion;
+		}
+		const guardada = detallesOperaciones.get(operacion.operationId);
+		if (guardada) {
+			return guardada;
+		}
+		try {
+			const detalle = await fetchWithAgent(`${config.baseUrl}/operations/${operacion.operationId}`);
+			if (detalle.ok) {
+				const completa = parseOperation(await detalle.json());
+				detallesOperaciones.set(operacion.operationId, completa);
+				return completa;
+			}
+		} catch (error) {
+			console.log(`❌ Error obteniendo el detalle de la operación ${operacion.operationId}:`, error);
+		}
+		return operacion;
+	}));
+}
+
+// Función para refrescar la lista de operaciones de la vista lateral
+async function actualizarOperaciones() {
+	if (!vistaOperaciones || actualizandoOperaciones) {
+		return;
+	}
+	if (!monitorDisponible()) {
+		operaciones = [];
+		vistaOperaciones.message = 'dotnet-monitor is not running. Open the dashboard to start it.';
+		cambioOperaciones.fire();
+		return;
+	}
+
+	actualizandoOperaciones = true;
+	try {
+		operaciones = sortOperations(await obtenerOperaciones());
+		operacionesSinAutorizacion = false;
+		vistaOperaciones.message = operaciones.length === 0
+			? 'No operations yet. Artifacts sent to an egress provider appear here.'
+			: undefined;
+	} catch (error: any) {
+		// Sin credenciales válidas se deja de refrescar solo, para no repetir el aviso de 401
+		operacionesSinAutorizacion = error.status === 401;
+		vistaOperaciones.message = `Could not get the operations: ${error.message}`;
+	} finally {
+		actualizandoOperaciones = false;
+	}
+	cambioOperaciones.fire();
+}
+
+// Función para crear el elemento del árbol de una operación
+function crearItemOperacion(operacion: OperationInfo): vscode.TreeItem {
+	const enMarcha = isOperationRunning(operacion);
+	const artefacto = getArtifactName(operacion);
+	const rutaLocal = getLocalArtifactPath(operacion.resourceLocation);
+	const item = new vscode.TreeItem(artefacto ?? `${operacion.processName ?? 'Operation'} (${operacion.operationId.substring(0, 8)})`);
+
+	// dotnet-monitor no informa del porcentaje: el progreso de una operación en marcha es el tiempo transcurrido
+	const progreso = enMarcha && operacion.createdDateTime
+		? `${operacion.status} ${formatElapsed(operacion.createdDateTime, new Date())}`
+		: operacion.status;
+	item.description = [
+		progreso,
+		operacion.pid !== undefined ? `PID ${operacion.pid}` : undefined,
+		operacion.createdDateTime?.toLocaleTimeString()
+	].filter(Boolean).join(' · ');
+	item.iconPath = ICONOS_OPERACION[operacion.status] ?? new vscode.ThemeIcon('circle-outline');
+
+	const tooltip = new vscode.MarkdownString();
+	tooltip.appendMarkdown(`**${operacion.status}**`);
+	if (operacion.processName || operacion.pid !== undefined) {
+		tooltip.appendText(`\nProcess: ${operacion.processName ?? ''} (PID ${operacion.pid ?? '-'})`);
+	}
+	if (operacion.createdDateTime) {
+		tooltip.appendText(`\nStarted: ${operacion.createdDateTime.toLocaleString()}`);
+	}
+	if (operacion.egressProviderName) {
+		tooltip.appendText(`\nEgress provider: ${operacion.egressProviderName}`);
+	}
+	if (operacion.resourceLocation) {
+		tooltip.appendText(`\nArtifact: ${operacion.resourceLocation}`);
+	}
+	if (operacion.error) {
+		tooltip.appendText(`\nError: ${operacion.error}`);
+	}
+	tooltip.appendText(`\nOperation: ${operacion.operationId}`);
+	item.tooltip = tooltip;
+
+	if (enMarcha) {
+		item.contextValue = operacion.isStoppable ? 'operacionEnMarchaDetenible' : 'operacionEnMarcha';
+	} else if (operacion.resourceLocation) {
+		item.contextValue = rutaLocal ? 'operacionArtefactoLocal' : 'operacionArtefactoRemoto';
+		item.command = { command: 'dotnetMonitor.openOperationArtifact', title: 'Open Artifact', arguments: [operacion] };
+	}
+	return item;
+}
+
+// Función para cancelar una operación en marcha o, si se indica detener, terminarla conservando lo recogido
+async function cancelarOperacion(operacion: OperationInfo, detener: boolean) {
+	try {
+		const url = `${getConfig().baseUrl}/operations/${operacion.operationId}${detener ? '?stop=true' : ''}`;
+		const response = await fetchWithAgent(url, {}, 'DELETE');
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}`);
+		}
+	} catch (error: any) {
+		vscode.window.showErrorMessage(`Could not ${detener ? 'stop' : 'cancel'} the operation: ${error.message}`);
+	}
+	await actualizarOperaciones();
+}
+
+// Función para abrir o mostrar en el explorador el artefacto de una operación terminada
+async function abrirArtefactoOperacion(operacion: OperationInfo, mostrarEnExplorador: boolean) {
+	const rutaLocal = getLocalArtifactPath(operacion.resourceLocation);
+	if (!rutaLocal) {
+		if (operacion.resourceLocation) {
+			vscode.env.openExternal(vscode.Uri.parse(operacion.resourceLocation));
+		}
+		return;
+	}
+	if (!fs.existsSync(rutaLocal)) {
+		vscode.window.showErrorMessage(`${rutaLocal} was not found on this machine. dotnet-monitor may have written it on another host.`);
+		return;
+	}
+	const uri = vscode.Uri.file(rutaLocal);
+	if (mostrarEnExplorador) {
+		vscode.commands.executeCommand('revealFileInOS', uri);
+	} else {
+		await abrirArtefacto(uri);
+	}
+}
+
+// Índice de la carpeta de egress, visible en el explorador. Se actualiza con un observador de la carpeta
+interface ArtefactoIndexado {
+	uri: vscode.Uri;
+	tamano: number;
+	fecha: Date;
+}
+
+const cambioArtefactos = new vscode.EventEmitter<void>();
+
+// Función para listar los artefactos de la carpeta de egress, los más recientes primero
+async function listarArtefactos(): Promise<ArtefactoIndexado[]> {
+	const carpeta = getConfig().egressDirectory;
+	if (!carpeta || !fs.existsSync(carpeta)) {
+		return [];
+	}
+	const entradas = await fs.promises.readdir(carpeta, { withFileTypes: true });
+	const artefactos = await Promise.all(entradas
+		.filter(entrada => entrada.isFile() && !entrada.name.startsWith('.'))
+		.map(async entrada => {
+			const ruta = path.join(carpeta, entrada.name);
+			const stats = await fs.promises.stat(ruta);
+			return { uri: vscode.Uri.file(ruta), tamano: stats.size, fecha: stats.mtime };
+		}));
+	return artefactos.sort((a, b) => b.fecha.getTime() - a.fecha.getTime());
+}
+
+function crearItemArtefacto(artefacto: ArtefactoIndexado): vscode.TreeItem {
+	const item = new vscode.TreeItem(artefacto.uri);
+	const mb = artefacto.tamano / 1024 / 1024;
+	item.description = `${mb >= 1 ? `${mb.toFixed(1)} MB` : `${Math.ceil(artefacto.tamano / 1024)} KB`} · ${artefacto.fecha.toLocaleString()}`;
+	item.tooltip = artefacto.uri.fsPath;
+	item.contextValue = 'artefacto';
+	item.command = { command: 'dotnetMonitor.openArtifact', title: 'Open Artifact', arguments: [artefacto] };
+	return item;
+}
+
+// Función para abrir un artefacto con el visor de la extensión que le corresponda
+async function abrirArtefacto(uri: vscode.Uri) {
+	const nombre = path.basename(uri.fsPath).toLowerCase();
+	try {
+		if (nombre.endsWith('.gcdump')) {
+			await mostrarHeapSnapshot(uri);
+		} else if (/_metrics_.*\.ndjson$/.test(nombre)) {
+			await abrirGrabacion(uri);
+		} else if (nombre.endsWith('.speedscope.json')) {
+			const contenido = await fs.promises.readFile(uri.fsPath, 'utf8');
+			mostrarFlameGraph(parseSpeedscope(JSON.parse(contenido)), path.basename(uri.fsPath));
+		} else if (/\.(json|ndjson|txt|log)$/.test(nombre)) {
+			await vscode.commands.executeCommand('vscode.open', uri);
+		} else {
+			// Dumps y trazas se analizan con herramientas externas (dotnet-dump, PerfView...)
+			await vscode.commands.executeCommand('revealFileInOS', uri);
+		}
+	} catch (error: any) {
+		vscode.window.showErrorMessage(`Could not open ${path.basename(uri.fsPath)}: ${error.message}`);
+	}
+}
+
+// Función para elegir un proceso desde la paleta de comandos (el proceso en debug aparece primero)
+async function elegirProceso(titulo: string): Promise<number | undefined> {
+	const result = await obtenerProcesos();
+	if (result.processes.length === 0) {
+		vscode.window.showWarningMessage('No .NET processes found');
+		return undefined;
+	}
+
+	const items = [...result.processes]
+		.sort((a, b) => Number(b.isDebugging) - Number(a.isDebugging))
+		.map(proc => ({
+			label: `${proc.isDebugging ? '🐛 ' : ''}${proc.name || 'N/A'}`,
+			description: `PID ${proc.pid}`,
+			detail: proc.commandLine,
+			pid: proc.pid as number
+		}));
+
+	const seleccion = await vscode.window.showQuickPick(items, {
+		title: titulo,
+		placeHolder: 'Select a .NET process',
+		matchOnDetail: true
+	});
+	return seleccion?.pid;
+}
+
+// Función para elegir el perfil de conexión activo o crear uno nuevo para conectarse a una URL
+async function elegirPerfilConexion() {
+	const config = getConfig();
+	const ajustes = vscode.workspace.getConfiguration('dotnetMonitor');
+	type Opcion = vscode.QuickPickItem & { perfil?: string; nuevo?: boolean };
+
+	const opciones: Opcion[] = [
+		{ label: '$(rocket) Launch locally', description: 'Start dotnet-monitor on this machine', perfil: '' },
+		...config.connectionProfiles.map(p => ({
+			label: `${p.mode === 'attach' ? '$(plug)' : '$(rocket)'} ${p.name}`,
+			description: p.mode === 'attach' ? p.url : 'Launch locally',
+			detail: p.mode === 'attach' && (p.apiKey || apiKeys.has(SECRET_API_KEY_PERFIL + p.name)) ? 'API key configured' : undefined,
+			perfil: p.name
+		})),
+		{ label: '$(add) Attach to URL...', description: 'Create a new connection profile', nuevo: true }
+	];
+	opciones.forEach(o => {
+		if (o.perfil === config.activeProfile) {
+			o.label += ' $(check)';
+		}
+	});
+
+	const seleccion = await vscode.window.showQuickPick(opciones, {
+		title: 'dotnet-monitor connection',
+		placeHolder: 'Select how to connect to dotnet-monitor'
+	});
+	if (!seleccion) {
+		return;
+	}
+
+	let nombre = seleccion.perfil ?? '';
+	if (seleccion.nuevo) {
+		const url = await vscode.window.showInputBox({
+			title: 'Attach to URL',
+			prompt: 'Base URL of the dotnet-monitor API',
+			placeHolder: 'https://my-service:52323',
+			validateInput: valor => /^https?:\/\/\S+$/.test(valor.trim()) ? undefined : 'Enter an http(s) URL'
+		});
+		if (!url) {
+			return;
+		}
+		const apiKey = await vscode.window.showInputBox({
+			title: 'Attach to URL',
+			prompt: 'API key (leave empty if the instance runs with --no-auth)',
+			password: true
+		});
+		if (apiKey === undefined) {
+			return;
+		}
+		nombre = await vscode.window.showInputBox({
+			title: 'Attach to URL',
+			prompt: 'Profile name',
+			value: new URL(url.trim()).host,
+			validateInput: valor => !valor.trim()
+				? 'Enter a name'
+				: config.connectionProfiles.some(p => p.name === valor.trim()) ? 'A profile with this name already exists' : undefined
+		}) ?? '';
+		if (!nombre) {
+			return;
+		}
+		nombre = nombre.trim();
+
+		// La API key se guarda en SecretStorage, nunca en los ajustes
+		const perfil: ConnectionProfile = { name: nombre, mode: 'attach', url: url.trim() };
+		await ajustes.update('connectionProfiles', [...config.connectionProfiles, perfil], vscode.ConfigurationTarget.Global);
+		if (apiKey) {
+			await secretos?.store(SECRET_API_KEY_PERFIL + nombre, apiKey.trim());
+			apiKeys.set(SECRET_API_KEY_PERFIL + nombre, apiKey.trim());
+		}
+	}
+
+	await ajustes.update('activeProfile', nombre, vscode.ConfigurationTarget.Global);
+	vscode.window.showInformationMessage(nombre
+		? `dotnet-monitor connection profile: ${nombre}`
+		: 'dotnet-monitor will be launched locally');
+}
+
+// Función para verificar si dotnet-monitor está instalado
+async function checkDotnetMonitor(): Promise<{ installed: boolean; version?: string; error?: string }> {
+	try {
+		const { stdout } = await execAsync('dotnet-monitor --version');
+		const version = stdout.trim();
+		return { installed: true, version };
+	} catch (error: any) {
+		return { 
+			installed: false, 
+			error: error.message 
+		};
+	}
+}
+
+// Función para escribir en el canal de salida de dotnet-monitor
+function log(mensaje: string) {
+	canalSalida?.appendLine(`[${new Date().toLocaleTimeString()}] ${mensaje}`);
+}
+
+// Función para saber si un puerto local está ocupado
+function puertoEnUso(puerto: number): Promise<boolean> {
+	return new Promise(resolve => {
+		const servidor = net.createServer();
+		servidor.once('error', () => resolve(true));
+		servidor.once('listening', () => servidor.close(() => resolve(false)));
+		servidor.listen(puerto, 'localhost');
+	});
+}
+
+// Función para pedir al sistema un puerto local libre
+function buscarPuertoLibre(): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const servidor = net.createServer();
+		servidor.once('error', reject);
+		servidor.listen(0, 'localhost', () => {
+			const puerto = (servidor.address() as net.AddressInfo).port;
+			servidor.close(() => resolve(puerto));
+		});
+	});
+}
+
+// Función para comprobar si en un puerto ocupado hay un dotnet-monitor que acepta nuestras credenciales
+function esMonitorCompatible(puerto: number): Promise<boolean> {
+	return new Promise(resolve => {
+		https.get(`https://localhost:${puerto}/processes`, { rejectUnauthorized: false, headers: getAuthHeaders(), timeout: 2000 }, (res) => {
+			res.resume();
+			resolve(res.statusCode === 200);
+		})
+			.on('timeout', function (this: http.ClientRequest) { this.destroy(); })
+			.on('error', () => resolve(false));
+	});
+}
+
+// Referencia al dotnet-monitor compartido. Recuerda si se contó al adquirirla, para soltarla
+// correctamente aunque después cambie el perfil de conexión
+interface ReferenciaMonitor {
+	listo: boolean;
+	liberar: () => void;
+}
+
+// Función para obtener una referencia al dotnet-monitor compartido, arrancándolo si hace falta.
+// Cada referencia debe liberarse cuando ya no se use (liberarla más de una vez no tiene efecto)
+async function adquirirMonitor(): Promise<ReferenciaMonitor> {
+	const config = getConfig();
+	if (config.connectionMode === 'attach') {
+		return { listo: await esperarAPI(`${config.baseUrl}/processes`, 5), liberar: () => {} };
+	}
+
+	monitor.referencias++;
+	const generacion = monitor.generacion;
+	let liberada = false;
+	const liberar = () => {
+		if (liberada) {
+			return;
+		}
+		liberada = true;
+		// La referencia se perdió al detener dotnet-monitor con el comando: no debe detener otra instancia
+		if (generacion !== monitor.generacion) {
+			return;
+		}
+		monitor.referencias--;
+		if (monitor.referencias === 0 && !monitor.manual) {
+			detenerMonitor();
+		}
+	};
+	const listo = await iniciarMonitor();
+	if (!listo) {
+		liberar();
+	}
+	return { listo, liberar };
+}
+
+// Función para ejecutar una acción con dotnet-monitor disponible: lo arranca si hace falta
+// y suelta la referencia al terminar la acción
+async function usarMonitor(accion: () => Promise<unknown>) {
+	const config = getConfig();
+	const referencia = await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: config.connectionMode === 'attach' ? `Connecting to ${config.baseUrl}...` : 'Starting dotnet-monitor...'
+		},
+		() => adquirirMonitor()
+	);
+	if (!referencia.listo) {
+		vscode.window.showErrorMessage(config.connectionMode === 'attach'
+			? `Could not connect to dotnet-monitor at ${config.baseUrl}`
+			: 'Could not start dotnet-monitor. Check the "Dotnet Monitor" output for details.');
+		return;
+	}
+	try {
+		await accion();
+	} finally {
+		referencia.liberar();
+	}
+}
+
+// Función para elegir un proceso desde la paleta de comandos y ejecutar una acción sobre él
+function usarProcesoElegido(titulo: string, accion: (pid: number) => Promise<unknown>) {
+	return usarMonitor(async () => {
+		const pid = await elegirProceso(titulo);
+		if (pid !== undefined) {
+			await accion(pid);
+		}
+	});
+}
+
+// Función para arrancar dotnet-monitor (o reutilizar una instancia compatible) y esperar a que la API responda
+function iniciarMonitor(): Promise<boolean> {
+	if (monitor.proceso || monitor.reutilizado) {
+		return esperarAPI(`${getConfig().baseUrl}/processes`, 5);
+	}
+	if (!monitor.arranque) {
+		monitor.arranque = lanzarMonitor().finally(() => monitor.arranque = undefined);
+	}
+	return monitor.arranque;
+}
+
+async function lanzarMonitor(): Promise<boolean> {
+	// Hasta que no termina la instancia anterior su puerto sigue ocupado y podría parecer reutilizable
+	if (monitor.salida) {
+		log('Waiting for the previous dotnet-monitor to exit...');
+		await monitor.salida;
+	}
+	const config = getConfig();
+
+	// Verificar si dotnet-monitor está instalado
+	const monitorCheck = await checkDotnetMonitor();
+	if (!monitorCheck.installed) {
+		vscode.window.showErrorMessage(
+			'dotnet-monitor no está instalado. Ejecuta: dotnet tool install -g dotnet-monitor'
+		);
+		return false;
+	}
+
+	// Con --urls o --metricUrls en los argumentos se respetan los puertos del usuario
+	const urlsPropias = config.commandArgs.some(arg => /^--(urls|metricUrls)$/i.test(arg));
+	let puerto = config.port;
+	let puertoMetricas = config.httpPort;
+	if (!urlsPropias) {
+		if (await puertoEnUso(puerto)) {
+			if (await esMonitorCompatible(puerto)) {
+				// Ya hay un dotnet-monitor escuchando que acepta nuestras credenciales: se reutiliza sin lanzarlo
+				log(`Port ${puerto} is in use by a compatible dotnet-monitor, reusing it`);
+				monitor.reutilizado = true;
+				monitor.puerto = puerto;
+				monitor.puertoMetricas = puertoMetricas;
+				return esperarAPI(`https://localhost:${puerto}/processes`, 5);
+			}
+			puerto = await buscarPuertoLibre();
+			log(`Port ${config.port} is in use, using port ${puerto} instead`);
+		}
+		if (await puertoEnUso(puertoMetricas)) {
+			puertoMetricas = await buscarPuertoLibre();
+			log(`Metrics port ${config.httpPort} is in use, using port ${puertoMetricas} instead`);
+		}
+	}
+
+	// En modo autenticado se quita --no-auth y se pasa la clave pública por variables de entorno
+	let args = config.commandArgs;
+	const env: NodeJS.ProcessEnv = {
+		...process.env,
+		// El intervalo de recogida de métricas se configura con una variable de entorno de dotnet-monitor
+		DotnetMonitor_GlobalCounter__IntervalSeconds: String(config.metricsInterval)
+	};
+	if (config.authentication === 'apiKey') {
+		const clave = getApiKeyLocal() ?? await generarApiKey();
+		if (!clave) {
+			return false;
+		}
+		args = args.filter(arg => arg !== '--no-auth');
+		env.DotnetMonitor_Authentication__MonitorApiKey__Subject = clave.subject;
+		env.DotnetMonitor_Authentication__MonitorApiKey__PublicKey = clave.publicKey;
+	}
+	// Proveedor de egress FileSystem en la carpeta configurada (los artefactos no se descargan por HTTP)
+	monitor.egress = undefined;
+	if (config.egressDirectory) {
+		try {
+			await prepararCarpetaDiagnosticos(config.egressDirectory);
+			env[`DotnetMonitor_Egress__FileSystem__${EGRESS_PROVIDER}__DirectoryPath`] = config.egressDirectory;
+			env[`DotnetMonitor_Egress__FileSystem__${EGRESS_PROVIDER}__IntermediateDirectoryPath`] = path.join(config.egressDirectory, '.partial');
+			monitor.egress = config.egressDirectory;
+			log(`Egress provider "${EGRESS_PROVIDER}" writes artifacts to ${config.egressDirectory}`);
+		} catch (error: any) {
+			log(`Could not prepare the egress directory ${config.egressDirectory}: ${error.message}`);
+			vscode.window.showWarningMessage(`Artifacts will be downloaded over HTTP: could not create ${config.egressDirectory} (${error.message})`);
+		}
+	}
+
+	// Reglas de recogida: sólo se aplican si todas son válidas
+	try {
+		const reglas = await cargarReglas();
+		const errores = validateCollectionRules(reglas);
+		if (errores.length > 0) {
+			errores.forEach(error => log(`Collection rule error: ${error}`));
+			vscode.window.showWarningMessage(
+				`Collection rules were not applied: ${errores[0]}${errores.length > 1 ? ` (and ${errores.length - 1} more)` : ''}`,
+				'Edit rules'
+			).then(accion => accion && editarReglas());
+		} else if (Object.keys(reglas).length > 0) {
+			Object.assign(env, toEnvironmentVariables(reglas, 'DotnetMonitor_CollectionRules'));
+			log(`Applying collection rules: ${Object.keys(reglas).join(', ')}`);
+		}
+	} catch (error: any) {
+		log(`Could not read collection rules: ${error.message}`);
+		vscode.window.showWarningMessage(`Could not read collection rules: ${error.message}`, 'Edit rules')
+			.then(accion => accion && editarReglas());
+	}
+	if (!urlsPropias) {
+		args = [...args, '--urls', `https://localhost:${puerto}`, '--metricUrls', `http://localhost:${puertoMetricas}`];
+	}
+
+	// Iniciar dotnet-monitor con argumentos configurables
+	monitor.deteniendo = false;
+	monitor.puerto = puerto;
+	monitor.puertoMetricas = puertoMetricas;
+	const proceso = spawn('dotnet-monitor', args, { env });
+	monitor.proceso = proceso;
+	log(`Started dotnet-monitor (PID ${proceso.pid}): dotnet-monitor ${args.join(' ')}`);
+	console.log('✅ Dotnet Monitor iniciado con PID:', proceso.pid);
+	console.log('🔐 Autenticación:', config.authentication);
+	console.log('⏱️ Intervalo de métricas:', config.metricsInterval, 's');
+	console.log('🔌 Puerto HTTPS:', puerto);
+	console.log('🔌 Puerto de métricas:', puertoMetricas);
+
+	// Enviar la salida del proceso al canal de salida
+	proceso.stdout?.on('data', (data) => canalSalida?.append(data.toString()));
+	proceso.stderr?.on('data', (data) => canalSalida?.append(data.toString()));
+	proceso.on('error', (error) => log(`dotnet-monitor error: ${error.message}`));
+	proceso.on('exit', (code, signal) => {
+		log(`dotnet-monitor exited (code ${code ?? '-'}, signal ${signal ?? '-'})`);
+		if (monitor.proceso !== proceso) {
+			return;
+		}
+		monitor.proceso = undefined;
+		if (!monitor.deteniendo && (monitor.referencias > 0 || monitor.manual)) {
+			reiniciarTrasCaida();
+		}
+	});
+
+	const listo = await esperarAPI(`https://localhost:${puerto}/processes`);
+	if (!listo) {
+		log('dotnet-monitor API did not become ready');
+		detenerMonitor();
+	}
+	return listo;
+}
+
+// Función para relanzar dotnet-monitor si se cae mientras alguien lo usa (como mucho 3 veces por minuto)
+function reiniciarTrasCaida() {
+	const ahora = Date.now();
+	monitor.caidas = monitor.caidas.filter(t => ahora - t < 60000);
+	monitor.caidas.push(ahora);
+	if (monitor.caidas.length > 3) {
+		log('dotnet-monitor keeps crashing, giving up');
+		vscode.window.showErrorMessage('dotnet-monitor stopped unexpectedly several times.', 'Show Output', 'Restart')
+			.then(accion => {
+				if (accion === 'Show Output') {
+					canalSalida?.show();
+				} else if (accion === 'Restart') {
+					monitor.caidas = [];
+					iniciarMonitor();
+				}
+			});
+		return;
+	}
+	log(`Restarting dotnet-monitor in ${getConfig().reconnectDelay}ms...`);
+	setTimeout(() => {
+		if (!monitor.proceso && (monitor.referencias > 0 || monitor.manual)) {
+			iniciarMonitor();
+		}
+	}, getConfig().reconnectDelay);
+}
+
+// Función para reiniciar dotnet-monitor (por ejemplo para aplicar cambios de configuración)
+async function reiniciarMonitor(): Promise<boolean> {
+	await detenerMonitor();
+	monitor.caidas = [];
+	if (monitor.referencias === 0) {
+		monitor.manual = true;
+	}
+	return iniciarMonitor();
+}
+
+// Función para detener el dotnet-monitor lanzado por la extensión (una instancia reutilizada no se toca).
+// Se resuelve cuando el proceso ha terminado; si no termina en 5 segundos se mata
+function detenerMonitor(): Promise<void> {
+	monitor.reutilizado = false;
+	monitor.puerto = undefined;
+	monitor.puertoMetricas = undefined;
+	const proceso = monitor.proceso;
+	if (proceso) {
+		console.log('🛑 Cerrando dotnet-monitor con PID:', proceso.pid);
+		log(`Stopping dotnet-monitor (PID ${proceso.pid})`);
+		monitor.deteniendo = true;
+		const salida: Promise<void> = new Promise<void>(resolve => {
+			if (proceso.exitCode !== null || proceso.signalCode !== null) {
+				resolve();
+				return;
+			}
+			const forzar = setTimeout(() => {
+				log(`dotnet-monitor (PID ${proceso.pid}) did not exit, killing it`);
+				proceso.kill('SIGKILL');
+				setTimeout(resolve, 1000);
+			}, 5000);
+			proceso.once('exit', () => {
+				clearTimeout(forzar);
+				resolve();
+			});
+		}).finally(() => {
+			if (monitor.salida === salida) {
+				monitor.salida = undefined;
+			}
+		});
+		monitor.salida = salida;
+		proceso.kill();
+		monitor.proceso = undefined;
+	}
+	return monitor.salida ?? Promise.resolve();
+}
+
+// Función para esperar a que la API esté disponible
+async function esperarAPI(url: string, maxIntentos: number = 30): Promise<boolean> {
+	console.log(`⏳ Esperando a que la API esté disponible en ${url}...`);
+	for (let i = 0; i < maxIntentos; i++) {
+		try {
+			const response = await fetchWithAgent(url);
+			console.log(`Intento ${i + 1}: Estado de la API - ${response.status}`);
+			console.log(response);
+			if (response.ok) {
+				return true;
+			}
+		} catch (error) {
+			// La API aún no está lista, esperar
+		}
+		await new Promise(resolve => setTimeout(resolve, 1000)); // Esperar 1 segundo
+	}
+	return false;
+}
+
+// Proveedores de ASP.NET Core y Kestrel para la sección HTTP del dashboard.
+// El histograma http.server.request.duration sólo existe en .NET 8 o superior
+const HTTP_PROVIDERS = ['Microsoft.AspNetCore.Hosting', 'Microsoft-AspNetCore-Server-Kestrel'];
+const HTTP_METERS = [{ meterName: 'Microsoft.AspNetCore.Hosting', instrumentNames: ['http.server.request.duration'] }];
+
+// Función para construir el cuerpo del POST de /livemetrics con los proveedores y meters configurados.
+// Devuelve undefined si sólo se usan los contadores por defecto (System.Runtime)
+function getConfiguracionMetricas(config: ReturnType<typeof getConfig>) {
+	const proveedores = [...config.metricProviders];
+	const meters = [...config.meters];
+	if (config.httpMetrics) {
+		HTTP_PROVIDERS
+			.filter(nombre => !proveedores.some(p => p.providerName === nombre))
+			.forEach(providerName => proveedores.push({ providerName }));
+		HTTP_METERS
+			.filter(meter => !meters.some(m => m.meterName === meter.meterName))
+			.forEach(meter => meters.push(meter));
+	}
+
+	if (proveedores.length === 0 && meters.length === 0 && config.includeDefaultProviders) {
+		return undefined;
+	}
+	return {
+		includeDefaultProviders: config.includeDefaultProviders,
+		providers: proveedores.map(p => ({
+			providerName: p.providerName,
+			...(p.counterNames?.length ? { counterNames: p.counterNames } : {})
+		})),
+		meters: meters.map(m => ({
+			meterName: m.meterName,
+			...(m.instrumentNames?.length ? { instrumentNames: m.instrumentNames } : {})
+		}))
+	};
+}
+
+// Función para consultar periódicamente el endpoint /metrics (formato Prometheus) de dotnet-monitor
+// y enviar al webview los mismos registros que /livemetrics. /metrics sólo expone las métricas
+// configuradas en dotnet-monitor para su proceso por defecto, así que el PID es sólo informativo
+function iniciarScrapeMetricas(pid: number, panel: vscode.WebviewPanel, alRecibir?: (metrica: any) => void) {
+	const config = getConfig();
+	const proveedores: KnownProvider[] = [
+		{ name: 'System.Runtime', isMeter: false },
+		...config.metricProviders.map(p => ({ name: p.providerName, isMeter: false })),
+		...config.meters.map(m => ({ name: m.meterName, isMeter: true })),
+		...HTTP_PROVIDERS.map(name => ({ name, isMeter: false })),
+		...HTTP_METERS.map(m => ({ name: m.meterName, isMeter: true }))
+	];
+	let activo = true;
+	let temporizador: NodeJS.Timeout | undefined;
+
+	console.log(`📡 Consultando ${config.prometheusUrl} cada ${config.metricsInterval}s (PID ${pid})`);
+
+	const consultar = async () => {
+		try {
+			const response = await fetchWithAgent(config.prometheusUrl, { Accept: 'text/plain' });
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.status}`);
+			}
+			const metricas = prometheusToLiveMetrics(parsePrometheus(await response.text()), proveedores);
+			console.log(`📊 ${metricas.length} métricas leídas de /metrics`);
+			if (activo) {
+				metricas.forEach(metrica => {
+					panel.webview.postMessage({ command: 'actualizarMetrica', data: metrica });
+					alRecibir?.(metrica);
+				});
+			}
+		} catch (error) {
+			console.error('❌ Error consultando /metrics:', error);
+		}
+		if (activo) {
+			temporizador = setTimeout(consultar, config.metricsInterval * 1000);
+		}
+	};
+	consultar();
+
+	return () => {
+		activo = false;
+		clearTimeout(temporizador);
+		console.log(`🛑 Consulta de /metrics detenida para PID ${pid}`);
+	};
+}
+
+// Función para leer stream de métricas en formato JSON Sequence (RFC 7464)
+// La API devuelve application/json-seq que usa el separador \x1E (Record Separator) antes de cada JSON
+function iniciarStreamMetricas(pid: number, panel: vscode.WebviewPanel, alRecibir?: (metrica: any) => void) {
+	const config = getConfig();
+	const url = `${config.baseUrl}/livemetrics?pid=${pid}`;
+	let activo = true;
+	let requestActual: http.ClientRequest | null = null;
+	
+	// Con proveedores personalizados la configuración se envía en el cuerpo de un POST
+	const configuracionMetricas = getConfiguracionMetricas(config);
+	const payload = configuracionMetricas ? JSON.stringify(configuracionMetricas) : undefined;
+	
+	const conectar = () => {
+		if (!activo) {
+			return;
+		}
+		
+		console.log(`🌊 Iniciando stream de métricas para PID ${pid} en puerto ${config.port}`);
+		if (payload) {
+			console.log('🧩 Proveedores de métricas:', payload);
+		}
+		
+		const cliente = url.startsWith('https') ? https : http;
+		requestActual = cliente.request(url, {
+			method: payload ? 'POST' : 'GET',
+			rejectUnauthorized: !aceptarCertificadoNoValido(url),
+			headers: {
+				...getAuthHeaders(),
+				...(payload ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) } : {})
+			}
+		}, (response) => {
+			console.log(`✅ Conectado al stream (status: ${response.statusCode})`);
+			
+			// Sin autorización no tiene sentido reconectar: se avisa y se abandona el stream
+			if (response.statusCode === 401) {
+				avisarNoAutorizado();
+				response.resume();
+				return;
+			}
+			
+			let buffer = '';
+			const RECORD_SEPARATOR = '\x1E'; // ASCII Record Separator para JSON Sequence
+			
+			// Procesar datos conforme llegan
+			response.on('data', (chunk) => {
+				buffer += chunk.toString();
+				
+				// Buscar registros completos separados por \x1E
+				let separatorIndex;
+				while ((separatorIndex = buffer.indexOf(RECORD_SEPARATOR)) !== -1) {
+					const record = buffer.substring(0, separatorIndex).trim();
+					buffer = buffer.substring(separatorIndex + 1);
+					
+					if (record) {
+						try {
+							const metrica = JSON.parse(record);
+							console.log('📊 Métrica recibida:', metrica.name, '=', metrica.value);
+							
+							// Enviar al webview
+							panel.webview.postMessage({
+								command: 'actualizarMetrica',
+								data: metrica
+							});
+							alRecibir?.(metrica);
+						} catch (error) {
+							console.error('❌ Error parseando JSON Sequence record:', error);
+						}
+					}
+				}
+			});
+			
+			response.on('end', () => {
+				console.log(`🔚 Stream terminado - ${config.autoReconnect ? `Reconectando en ${config.reconnectDelay}ms...` : 'No reconectando (autoReconnect deshabilitado)'}`);
+				
+				// Procesar cualquier registro final que quedó en el buffer
+				if (buffer.trim()) {
+					try {
+						const metrica = JSON.parse(buffer.trim());
+						console.log('📊 Métrica final recibida:', metrica.name, '=', metrica.value);
+						panel.webview.postMessage({
+							command: 'actualizarMetrica',
+							data: metrica
+						});
+						alRecibir?.(metrica);
+					} catch (error) {
+						console.log('⚠️ Buffer final no es JSON válido (puede ser normal si el stream se cortó)');
+					}
+				}
+				
+				// Reconectar automáticamente después de un breve delay si está habilitado
+				if (activo && config.autoReconnect) {
+					setTimeout(conectar, config.reconnectDelay);
+				}
+			});
+			
+			response.on('error', (error) => {
+				console.error('❌ Error en stream:', error);
+				// Reconectar en caso de error si está habilitado
+				if (activo && config.autoReconnect) {
+					setTimeout(conectar, config.reconnectDelay);
+				}
+			});
+		});
+		
+		requestActual.on('error', (error) => {
+			console.error('❌ Error conectando al stream:', error);
+			// Reconectar en caso de error si está habilitado
+			if (activo && config.autoReconnect) {
+				setTimeout(conectar, config.reconnectDelay);
+			}
+		});
+		requestActual.end(payload);
+	};
+	
+	// Iniciar la primera conexión
+	conectar();
+	
+	// Retornar función para cancelar el stream
+	return () => {
+		console.log('🛑 Cerrando stream de métricas');
+		activo = false;
+		if (requestActual) {
+			requestActual.destroy();
+		}
+	};
+}
+
+// Grabación en curso de una sesión de métricas
+interface GrabacionMetricas {
+	archivo: vscode.Uri;
+	registros: number;
+	escribir: (metrica: unknown) => void;
+	cerrar: () => Promise<void>;
+}
+
+// Función para obtener la carpeta de las grabaciones: la de egress si está configurada o .diagnostics en el workspace
+function getCarpetaGrabaciones(): string {
+	return getConfig().egressDirectory ?? path.join(getCarpetaArtefactos().fsPath, '.diagnostics');
+}
+
+// Función para obtener el nombre de un proceso, que sólo se usa para nombrar archivos
+async function obtenerNombreProceso(pid: number): Promise<string | undefined> {
+	try {
+		const response = await fetchWithAgent(`${getConfig().baseUrl}/process?pid=${pid}`);
+		if (response.ok) {
+			return (await response.json() as any).name;
+		}
+	} catch (error) {
+		console.log('⚠️ No se pudo obtener el nombre del proceso:', error);
+	}
+	return undefined;
+}
+
+// Función para empezar a grabar en NDJSON los registros de métricas que llegan de un proceso
+async function iniciarGrabacion(pid: number): Promise<GrabacionMetricas> {
+	const config = getConfig();
+	const carpeta = getCarpetaGrabaciones();
+	await prepararCarpetaDiagnosticos(carpeta);
+	const nombreProceso = await obtenerNombreProceso(pid);
+
+	const inicio = new Date();
+	const ruta = path.join(carpeta, getArtifactFileName(nombreProceso, pid, 'metrics', inicio, '.ndjson'));
+	const flujo = fs.createWriteStream(ruta, { encoding: 'utf8' });
+	flujo.on('error', error => log(`Could not write the metrics recording ${ruta}: ${error.message}`));
+	flujo.write(createRecordingHeader(pid, inicio, nombreProceso, config.metricsTransport));
+	console.log(`📼 Grabando métricas del PID ${pid} en ${ruta}`);
+
+	const grabacion: GrabacionMetricas = {
+		archivo: vscode.Uri.file(ruta),
+		registros: 0,
+		escribir: (metrica) => {
+			grabacion.registros++;
+			flujo.write(formatRecordedMetric(Date.now(), metrica));
+		},
+		cerrar: () => new Promise(resolve => flujo.end(() => resolve()))
+	};
+	return grabacion;
+}
+
+// Tiempo que el historial de un dashboard guarda en memoria. Lo anterior se pasa a disco por tandas,
+// cuando lo más antiguo pasa del límite en más de MARGEN_HISTORIAL_MS
+const MAX_HISTORIAL_MS = 2 * 3600000;
+const MARGEN_HISTORIAL_MS = 5 * 60000;
+
+// Historial completo de las métricas recibidas por un dashboard, para exportarlo y guardar baselines
+interface HistorialMetricas {
+	agregar: (metrica: any) => void;
+	// Todos los registros de la sesión, los pasados a disco y los que siguen en memoria
+	leer: () => Promise<RecordedMetric[]>;
+	// Valores de cada métrica de toda la sesión, para comparar con una baseline
+	series: MetricSeries;
+	cerrar: () => Promise<void>;
+}
+
+// Función para crear el historial de métricas de un dashboard. Los registros de más de MAX_HISTORIAL_MS
+// se escriben en un NDJSON temporal (el formato de las grabaciones) en lugar de quedarse en memoria
+function crearHistorialMetricas(): HistorialMetricas {
+	const recientes: RecordedMetric[] = [];
+	const series: MetricSeries = new Map();
+	const ruta = path.join(os.tmpdir(), `dotnet-monitor-history-${getTimestamp()}-${Math.random().toString(36).slice(2, 8)}.ndjson`);
+	let flujo: fs.WriteStream | undefined;
+	let escrito = Promise.resolve();
+
+	const volcar = (ahora: number) => {
+		const antiguos = recientes.splice(0, recientes.findIndex(registro => ahora - registro.t <= MAX_HISTORIAL_MS));
+		if (!flujo) {
+			flujo = fs.createWriteStream(ruta, { encoding: 'utf8' });
+			flujo.on('error', error => log(`Could not write the metric history ${ruta}: ${error.message}`));
+		}
+		const destino = flujo;
+		const texto = antiguos.map(registro => formatRecordedMetric(registro.t, registro.metric)).join('');
+		escrito = new Promise(resolve => destino.write(texto, () => resolve()));
+	};
+
+	return {
+		series,
+		agregar: (metrica) => {
+			const ahora = Date.now();
+			recientes.push({ t: ahora, metric: metrica });
+			addToSeries(series, metrica);
+			if (ahora - recientes[0].t > MAX_HISTORIAL_MS + MARGEN_HISTORIAL_MS) {
+				volcar(ahora);
+			}
+		},
+		leer: async () => {
+			if (!flujo) {
+				return [...recientes];
+			}
+			await escrito;
+			const enDisco = parseRecording(await fs.promises.readFile(ruta, 'utf8')).records;
+			return enDisco.concat(recientes);
+		},
+		cerrar: async () => {
+			recientes.length = 0;
+			series.clear();
+			if (flujo) {
+				const abierto = flujo;
+				flujo = undefined;
+				await new Promise<void>(resolve => abierto.end(() => resolve()));
+				await fs.promises.rm(ruta, { force: true });
+			}
+		}
+	};
+}
+
+// Función para reproducir una sesión grabada en el dashboard de métricas, a 1x, 10x o toda de golpe
+async function abrirGrabacion(archivo?: vscode.Uri) {
+	if (!archivo) {
+		const carpeta = getCarpetaGrabaciones();
+		const archivos = await vscode.window.showOpenDialog({
+			title: 'Open recorded session',
+			defaultUri: fs.existsSync(carpeta) ? vscode.Uri.file(carpeta) : getCarpetaArtefactos(),
+			filters: { 'Metric sessions': ['ndjson', 'jsonl', 'json-seq', 'json'], 'All files': ['*'] },
+			canSelectMany: false
+		});
+		archivo = archivos?.[0];
+		if (!archivo) {
+			return;
+		}
+	}
+
+	const nombre = path.basename(archivo.fsPath);
+	let grabacion: Recording;
+	try {
+		grabacion = parseRecording(await fs.promises.readFile(archivo.fsPath, 'utf8'));
+	} catch (error: any) {
+		vscode.window.showErrorMessage(`Could not read ${nombre}: ${error.message}`);
+		return;
+	}
+	const registros = grabacion.records;
+	if (registros.length === 0) {
+		vscode.window.showErrorMessage(`${nombre} does not contain metric records`);
+		return;
+	}
+	console.log(`📼 Reproduciendo ${registros.length} registros de ${archivo.fsPath}`);
+
+	const panel = vscode.window.createWebviewPanel(
+		'dotnetMetricsReplay',
+		`Replay: ${nombre}`,
+		vscode.ViewColumn.One,
+		{
+			enableScripts: true,
+			retainContextWhenHidden: true
+		}
+	);
+
+	let indice = 0;
+	let velocidad: number | 'all' = 1;
+	let temporizador: NodeJS.Timeout | undefined;
+	const pid = grabacion.header?.pid ?? 0;
+	const mostrar = () => {
+		panel.webview.html = getMetricsHTML(pid, {
+			nombre,
+			total: registros.length,
+			proceso: grabacion.header?.processName,
+			velocidad: String(velocidad)
+		});
+	};
+	const enviarEstado = () => {
+		panel.webview.postMessage({
+			command: 'estadoReproduccion',
+			data: { indice, total: registros.length, reproduciendo: temporizador !== undefined, hora: registros[Math.max(0, indice - 1)].t }
+		});
+	};
+	const pausar = () => {
+		clearTimeout(temporizador);
+		temporizador = undefined;
+	};
+
+	// Los registros que llegaron a la vez se envían juntos; entre grupos se espera lo mismo que en la grabación
+	const avanzar = () => {
+		temporizador = undefined;
+		do {
+			const registro = registros[indice++];
+			panel.webview.postMessage({ command: 'actualizarMetrica', data: registro.metric, timestamp: registro.t });
+		} while (indice < registros.length && (velocidad === 'all' || registros[indice].t <= registros[indice - 1].t));
+		if (indice < registros.length && velocidad !== 'all') {
+			temporizador = setTimeout(avanzar, (registros[indice].t - registros[indice - 1].t) / velocidad);
+		}
+		enviarEstado();
+	};
+
+	// La comparación con una baseline usa los registros reproducidos hasta el momento
+	const comparador = crearComparadorBaseline(panel, async () => registros.slice(0, indice), () => registros.slice(0, indice));
+
+	mostrar();
+	panel.onDidDispose(() => {
+		pausar();
+		comparador.detener();
+	});
+	panel.webview.onDidReceiveMessage((mensaje) => {
+		// El webview avisa cuando está listo para recibir registros (al abrirse y tras reiniciar)
+		if (mensaje.command === 'reproduccionLista') {
+			avanzar();
+		}
+
+		if (mensaje.command === 'reproducir') {
+			pausar();
+			velocidad = mensaje.velocidad === 'all' ? 'all' : Number(mensaje.velocidad) || 1;
+			if (indice >= registros.length) {
+				indice = 0;
+				mostrar();
+			} else {
+				avanzar();
+			}
+		}
+
+		if (mensaje.command === 'pausarReproduccion') {
+			pausar();
+			enviarEstado();
+		}
+
+		if (mensaje.command === 'exportarMetricas') {
+			exportarMetricas(registros, pid);
+		}
+
+		if (mensaje.command === 'gestionarBaseline') {
+			comparador.gestionar(pid);
+		}
+
+		if (mensaje.command === 'reiniciarReproduccion') {
+			pausar();
+			indice = 0;
+			mostrar();
+		}
+	});
+}
+
+// Función para elegir el intervalo de tiempo del historial de métricas con el que trabajar. Los intervalos
+// relativos se cuentan desde el último registro, para que sirvan también con sesiones grabadas
+async function elegirIntervalo(registros: RecordedMetric[], titulo: string, placeHolder: string): Promise<RecordedMetric[] | undefined> {
+	const primero = registros[0].t;
+	const ultimo = registros[registros.length - 1].t;
+	const minutos = (n: number) => ({ from: ultimo - n * 60000, to: ultimo });
+
+	const opciones: (vscode.QuickPickItem & { rango?: TimeRange; personalizado?: boolean })[] = [
+		{ label: 'Whole session', description: `${new Date(primero).toLocaleTimeString()} - ${new Date(ultimo).toLocaleTimeString()}` },
+		{ label: 'Last 5 minutes', rango: minutos(5) },
+		{ label: 'Last 15 minutes', rango: minutos(15) },
+		{ label: 'Last hour', rango: minutos(60) },
+		{ label: 'Custom range...', description: 'Enter start and end times', personalizado: true }
+	];
+	const opcion = await vscode.window.showQuickPick(opciones, { title: titulo, placeHolder });
+	if (!opcion) {
+		return;
+	}
+	let rango = opcion.rango;
+	if (opcion.personalizado) {
+		const hora = (t: number) => new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
+		const texto = await vscode.window.showInputBox({
+			title: titulo,
+			prompt: 'Local time range as HH:mm[:ss]-HH:mm[:ss]',
+			value: `${hora(primero)}-${hora(ultimo)}`,
+			validateInput: valor => parseTimeRange(valor, new Date(primero)) ? undefined : 'Use the format HH:mm-HH:mm or HH:mm:ss-HH:mm:ss'
+		});
+		if (!texto) {
+			return;
+		}
+		rango = parseTimeRange(texto, new Date(primero));
+	}
+
+	const seleccion = filterByTimeRange(registros, rango);
+	if (seleccion.length === 0) {
+		vscode.window.showWarningMessage('No metrics were received in the selected time range.');
+		return undefined;
+	}
+	return seleccion;
+}
+
+// Función para exportar el historial de métricas de la sesión a CSV o JSON, eligiendo el intervalo de tiempo
+async function exportarMetricas(registros: RecordedMetric[], pid: number) {
+	if (registros.length === 0) {
+		vscode.window.showInformationMessage('No metrics have been received yet.');
+		return;
+	}
+	const seleccion = await elegirIntervalo(registros, `Export Metrics - PID ${pid} (1/2)`, 'Time range to export');
+	if (!seleccion) {
+		return;
+	}
+
+	const formato = await vscode.window.showQuickPick([
+		{ label: 'CSV', description: 'One row per collection round and one column per metric', extension: 'csv' },
+		{ label: 'JSON', description: 'One series of samples per metric', extension: 'json' }
+	], { title: `Export Metrics - PID ${pid} (2/2)`, placeHolder: `Export ${seleccion.length} records as...` });
+	if (!formato) {
+		return;
+	}
+
+	const carpeta = getCarpetaGrabaciones();
+	const destino = await vscode.window.showSaveDialog({
+		defaultUri: vscode.Uri.joinPath(fs.existsSync(carpeta) ? vscode.Uri.file(carpeta) : getCarpetaArtefactos(), `metrics_${pid}_${getTimestamp()}.${formato.extension}`),
+		filters: formato.extension === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] },
+		saveLabel: 'Export'
+	});
+	if (!destino) {
+		return;
+	}
+
+	try {
+		const contenido = formato.extension === 'csv' ? toCsv(seleccion) : toJson(seleccion, { pid });
+		await fs.promises.writeFile(destino.fsPath, contenido, 'utf8');
+		console.log(`📤 ${seleccion.length} registros exportados a ${destino.fsPath}`);
+		const accion = await vscode.window.showInformationMessage(`Exported ${seleccion.length} metric records to ${path.basename(destino.fsPath)}`, 'Open', 'Reveal in File Explorer');
+		if (accion === 'Open') {
+			vscode.commands.executeCommand('vscode.open', destino);
+		} else if (accion) {
+			vscode.commands.executeCommand('revealFileInOS', destino);
+		}
+	} catch (error: any) {
+		vscode.window.showErrorMessage(`Could not export metrics: ${error.message}`);
+	}
+}
+
+// Baselines de métricas guardadas en el workspace (una por archivo) para compararlas con sesiones posteriores
+function getCarpetaBaselines(): vscode.Uri | undefined {
+	const carpeta = vscode.workspace.workspaceFolders?.[0];
+	return carpeta ? vscode.Uri.joinPath(carpeta.uri, '.vscode', 'dotnet-monitor-baselines') : undefined;
+}
+
+async function listarBaselines(): Promise<Baseline[]> {
+	const carpeta = getCarpetaBaselines();
+	if (!carpeta || !fs.existsSync(carpeta.fsPath)) {
+		return [];
+	}
+	const baselines: Baseline[] = [];
+	for (const archivo of await fs.promises.readdir(carpeta.fsPath)) {
+		if (!archivo.endsWith('.json')) {
+			continue;
+		}
+		try {
+			const baseline = JSON.parse(await fs.promises.readFile(path.join(carpeta.fsPath, archivo), 'utf8'));
+			if (baseline?.metrics) {
+				baselines.push(baseline);
+			}
+		} catch (error: any) {
+			log(`Could not read the baseline ${archivo}: ${error.message}`);
+		}
+	}
+	return baselines.sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+}
+
+// Función para guardar como baseline las estadísticas de un intervalo del historial de métricas
+async function guardarBaseline(registros: RecordedMetric[], pid: number): Promise<Baseline | undefined> {
+	const carpeta = getCarpetaBaselines();
+	if (!carpeta) {
+		vscode.window.showErrorMessage('Open a workspace folder to store baselines.');
+		return undefined;
+	}
+	if (registros.length === 0) {
+		vscode.window.showInformationMessage('No metrics have been received yet.');
+		return undefined;
+	}
+	const seleccion = await elegirIntervalo(registros, `Save Baseline - PID ${pid} (1/2)`, 'Time range to summarize');
+	if (!seleccion) {
+		return undefined;
+	}
+
+	const nombre = await vscode.window.showInputBox({
+		title: `Save Baseline - PID ${pid} (2/2)`,
+		prompt: 'Baseline name',
+		placeHolder: 'e.g. before-cache-change',
+		validateInput: valor => /^[A-Za-z0-9_.-]+$/.test(valor) ? undefined : 'Use only letters, digits, ".", "_" and "-"'
+	});
+	if (!nombre) {
+		return undefined;
+	}
+	const archivo = vscode.Uri.joinPath(carpeta, `${nombre}.json`);
+	if (fs.existsSync(archivo.fsPath)) {
+		const respuesta = await vscode.window.showWarningMessage(`Baseline "${nombre}" already exists. Replace it?`, { modal: true }, 'Replace');
+		if (respuesta !== 'Replace') {
+			return undefined;
+		}
+	}
+
+	const baseline = createBaseline(nombre, seleccion, new Date(), pid || undefined);
+	try {
+		await fs.promises.mkdir(carpeta.fsPath, { recursive: true });
+		await fs.promises.writeFile(archivo.fsPath, JSON.stringify(baseline, null, 2) + '\n', 'utf8');
+	} catch (error: any) {
+		vscode.window.showErrorMessage(`Could not save baseline: ${error.message}`);
+		return undefined;
+	}
+	console.log(`📐 Baseline "${nombre}" guardada con ${Object.keys(baseline.metrics).length} métricas en ${archivo.fsPath}`);
+	return baseline;
+}
+
+async function elegirBaseline(): Promise<Baseline | undefined> {
+	const baselines = await listarBaselines();
+	if (baselines.length === 0) {
+		vscode.window.showInformationMessage('There are no saved baselines. Save one from a monitoring session first.');
+		return undefined;
+	}
+	const seleccion = await vscode.window.showQuickPick(baselines.map(baseline => ({
+		label: baseline.name,
+		description: `${new Date(baseline.from).toLocaleString()} - ${new Date(baseline.to).toLocaleTimeString()}`,
+		detail: `${Object.keys(baseline.metrics).length} metrics${baseline.pid ? ` · PID ${baseline.pid}` : ''}`,
+		baseline
+	})), { title: 'Compare with Baseline', placeHolder: 'Select a baseline' });
+	return seleccion?.baseline;
+}
+
+// Función para gestionar la baseline de un panel de métricas: guardar una a partir del historial o comparar
+// el historial con una guardada, enviando las diferencias al webview cada 5 segundos mientras se compara.
+// Para guardar se leen los registros completos; para comparar basta con los valores de cada métrica
+function crearComparadorBaseline(panel: vscode.WebviewPanel, obtenerRegistros: () => Promise<RecordedMetric[]>, obtenerActuales: () => RecordedMetric[] | MetricSeries) {
+	let baseline: Baseline | undefined;
+	let intervalo: NodeJS.Timeout | undefined;
+
+	const enviar = () => {
+		if (!baseline) {
+			panel.webview.postMessage({ command: 'comparacionBaseline', data: null });
+			return;
+		}
+		const deltas = compareWithBaseline(baseline, obtenerActuales());
+		panel.webview.postMessage({
+			command: 'comparacionBaseline',
+			data: { nombre: baseline.name, creada: baseline.createdAt, deltas, resumen: summarizeRegressions(deltas) }
+		});
+	};
+	const comparar = (seleccionada: Baseline) => {
+		clearInterval(intervalo);
+		baseline = seleccionada;
+		intervalo = setInterval(enviar, 5000);
+		enviar();
+	};
+	const detener = () => {
+		clearInterval(intervalo);
+		intervalo = undefined;
+		baseline = undefined;
+	};
+
+	const gestionar = async (pid: number) => {
+		const opciones: (vscode.QuickPickItem & { accion: 'guardar' | 'comparar' | 'detener' })[] = [
+			{ label: '$(save) Save as baseline...', description: 'Min, avg, p95 and max of each metric over a time range', accion: 'guardar' },
+			{ label: '$(diff) Compare with baseline...', description: 'Show this session side by side with a saved baseline', accion: 'comparar' }
+		];
+		if (baseline) {
+			opciones.push({ label: '$(close) Stop comparing', description: baseline.name, accion: 'detener' });
+		}
+		const opcion = await vscode.window.showQuickPick(opciones, { title: `Baseline - PID ${pid}` });
+
+		if (opcion?.accion === 'guardar') {
+			const guardada = await guardarBaseline(await obtenerRegistros(), pid);
+			if (guardada) {
+				const accion = await vscode.window.showInformationMessage(`Saved baseline "${guardada.name}"`, 'Compare Now');
+				if (accion) {
+					comparar(guardada);
+				}
+			}
+		} else if (opcion?.accion === 'comparar') {
+			const seleccionada = await elegirBaseline();
+			if (seleccionada) {
+				comparar(seleccionada);
+			}
+		} else if (opcion?.accion === 'detener') {
+			detener();
+			enviar();
+		}
+	};
+
+	return { gestionar, detener };
+}
+
+// Alertas sobre las métricas en directo (ajuste dotnetMonitor.alerts). Se evalúan en la extensión con cada
+// registro del stream de los dashboards abiertos, aunque el panel no esté visible
+interface AlertaDisparada {
+	regla: string;
+	pid: number;
+	valor: number;
+	disparada: Date;
+	resuelta?: Date;
+	// Momento en que se dejó de monitorizar el proceso con la alerta aún disparada
+	detenida?: Date;
+	silenciada: boolean;
+	capturas?: vscode.Uri[];
+}
+
+const MAX_HISTORIAL_ALERTAS = 200;
+const historialAlertas: AlertaDisparada[] = [];
+// Reglas silenciadas con la acción "Mute" hasta que se reactivan o se reinicia VS Code
+const alertasSilenciadas = new Set<string>();
+let reglasAlertas: AlertRule[] | undefined;
+
+const EJEMPLO_ALERTA = 'cpu-usage > 80% for 10s';
+
+function cargarReglasAlertas(): AlertRule[] {
+	if (reglasAlertas) {
+		return reglasAlertas;
+	}
+	const configuradas = vscode.workspace.getConfiguration('dotnetMonitor').get<(string | AlertRuleConfig)[]>('alerts', []);
+	const invalidas = configuradas.filter(regla => !parseAlertRule(regla));
+	reglasAlertas = configuradas.map(regla => parseAlertRule(regla)).filter((regla): regla is AlertRule => regla !== undefined);
+	if (invalidas.length > 0) {
+		vscode.window.showWarningMessage(
+			`Ignoring invalid alert rules: ${invalidas.map(regla => JSON.stringify(regla)).join(', ')}. Use e.g. "${EJEMPLO_ALERTA}" or "gen-2-size growing for 5 min".`,
+			'Open Settings'
+		).then(accion => accion && vscode.commands.executeCommand('workbench.action.openSettings', 'dotnetMonitor.alerts'));
+	}
+	return reglasAlertas;
+}
+
+function formatearValorAlerta(valor: number): string {
+	return valor.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+// Función para recoger sin preguntar un diagnóstico de una regla de alerta: con egress en la carpeta de egress
+// y si no descargándolo a la misma carpeta que las grabaciones de métricas
+async function capturarPorRegla(pid: number, accion: CaptureAction, nombreProceso?: string): Promise<vscode.Uri | undefined> {
+	const config = getConfig();
+	const tipoDump = accion.option ?? 'Mini';
+	const capturas: Record<CaptureAction['kind'], { ruta: string; tipo: string; extension: string; cabeceras?: Record<string, string> }> = {
+		stacks: { ruta: `/stacks?pid=${pid}`, tipo: 'stacks', extension: '.json', cabeceras: { Accept: 'application/json' } },
+		gcdump: { ruta: `/gcdump?pid=${pid}`, tipo: 'gcdump', extension: '.gcdump' },
+		dump: { ruta: `/dump?pid=${pid}&type=${tipoDump}`, tipo: `dump-${tipoDump.toLowerCase()}`, extension: process.platform === 'win32' ? '.dmp' : '.core' },
+		trace: { ruta: `/trace?pid=${pid}&profile=${encodeURIComponent(accion.option ?? 'Cpu')}&durationSeconds=${accion.durationSeconds}`, tipo: 'trace', extension: '.nettrace' },
+		logs: { ruta: `/logs?pid=${pid}&durationSeconds=${accion.durationSeconds}`, tipo: 'logs', extension: '.ndjson', cabeceras: { Accept: 'application/x-ndjson' } }
+	};
+	const captura = capturas[accion.kind];
+	const url = `${config.baseUrl}${captura.ruta}`;
+	const titulo = `Alert: capturing ${captura.tipo} of PID ${pid}${accion.durationSeconds ? ` (${accion.durationSeconds}s)` : ''}`;
+	console.log(`🚨 Captura automática de ${captura.tipo} del PID ${pid}`);
+
+	if (getCarpetaEgress()) {
+		return recogerConEgress(url, pid, captura.tipo, captura.extension, titulo, undefined, captura.cabeceras);
+	}
+	const carpeta = getCarpetaGrabaciones();
+	await prepararCarpetaDiagnosticos(carpeta);
+	const destino = vscode.Uri.file(path.join(carpeta, getArtifactFileName(nombreProceso, pid, captura.tipo, new Date(), captura.extension)));
+	return await descargarArtefacto(url, destino, titulo, undefined, captura.cabeceras) ? destino : undefined;
+}
+
+// Función para recoger los diagnósticos de una regla disparada, todos a la vez para que cubran el momento del problema
+async function recogerEvidencias(pid: number, regla: AlertRule, alerta: AlertaDisparada) {
+	const nombreProceso = getCarpetaEgress() ? undefined : await obtenerNombreProceso(pid);
+	const resultados = await Promise.allSettled(regla.captures.map(accion => capturarPorRegla(pid, accion, nombreProceso)));
+
+	const archivos = resultados.flatMap(resultado => resultado.status === 'fulfilled' && resultado.value ? [resultado.value] : []);
+	const errores = resultados.flatMap(resultado => resultado.status === 'rejected' ? [resultado.reason?.message ?? String(resultado.reason)] : []);
+	alerta.capturas = archivos;
+	errores.forEach(error => log(`❌ Automatic capture for "${regla.text}" on PID ${pid} failed: ${error}`));
+	if (errores.length > 0) {
+		vscode.window.showErrorMessage(`Could not capture diagnostics for "${regla.text}": ${errores.join('; ')}`);
+	}
+	if (archivos.length > 0) {
+		log(`📦 Captured for "${regla.text}" on PID ${pid}: ${archivos.map(archivo => archivo.fsPath).join(', ')}`);
+		const accion = await vscode.window.showInformationMessage(
+			`📦 Captured ${archivos.map(archivo => path.basename(archivo.fsPath)).join(', ')} when "${regla.text}" tripped`,
+			'Reveal in File Explorer'
+		);
+		if (accion) {
+			vscode.commands.executeCommand('revealFileInOS', archivos[0]);
+		}
+	}
+}
+
+// Función para crear el evaluador de alertas del proceso mostrado en un dashboard: avisa con una notificación
+// al dispararse una alerta, la guarda en el historial y marca la tarjeta de la métrica en el webview
+function crearEvaluadorAlertas(pid: number, panel: vscode.WebviewPanel, abrirPanel: () => void) {
+	const estados = new Map<string, AlertState>();
+	const activas = new Map<string, { alerta: AlertaDisparada; metrica: any }>();
+	// Capturas automáticas hechas por cada regla mientras se monitoriza el proceso
+	const presupuestos = new Map<string, CaptureBudget>();
+	let detenido = false;
+
+	// Función para decidir si una regla disparada recoge diagnósticos (sin pasar del máximo ni del tiempo de espera)
+	const puedeCapturar = (regla: AlertRule) => {
+		if (regla.captures.length === 0) {
+			return false;
+		}
+		if (!presupuestos.has(regla.text)) {
+			presupuestos.set(regla.text, { count: 0 });
+		}
+		const resultado = takeCapture(regla, presupuestos.get(regla.text)!, Date.now());
+		if (resultado !== 'ok') {
+			log(`⏭️ Not capturing for "${regla.text}" on PID ${pid}: ${resultado === 'limit' ? `already captured ${regla.maxCaptures} times in this session` : 'still in cooldown'}`);
+		}
+		return resultado === 'ok';
+	};
+
+	const marcar = (regla: string, metrica: any, activa: boolean) => {
+		panel.webview.postMessage({ command: 'estadoAlerta', data: { regla, activa, metrica } });
+	};
+
+	const evaluar = (metrica: any) => {
+		if (detenido) {
+			return;
+		}
+		for (const regla of cargarReglasAlertas()) {
+			if (!matchesAlertRule(regla, metrica)) {
+				continue;
+			}
+			if (!estados.has(regla.text)) {
+				estados.set(regla.text, { firing: false });
+			}
+			const valor = displayValue(metrica);
+			const transicion = evaluateAlert(regla, estados.get(regla.text)!, Date.now(), valor);
+
+			if (transicion === 'fired') {
+				const alerta: AlertaDisparada = { regla: regla.text, pid, valor, disparada: new Date(), silenciada: alertasSilenciadas.has(regla.text) };
+				activas.set(regla.text, { alerta, metrica });
+				historialAlertas.unshift(alerta);
+				historialAlertas.splice(MAX_HISTORIAL_ALERTAS);
+				log(`🔔 Alert on PID ${pid}: ${regla.text} (value ${formatearValorAlerta(valor)})`);
+				marcar(regla.text, metrica, true);
+				// Las reglas silenciadas no avisan pero siguen recogiendo diagnósticos
+				const capturando = puedeCapturar(regla);
+				if (capturando) {
+					recogerEvidencias(pid, regla, alerta);
+				}
+				if (!alerta.silenciada) {
+					const mensaje = `🔔 PID ${pid}: ${regla.text} (now ${formatearValorAlerta(valor)})${capturando ? '. Capturing diagnostics...' : ''}`;
+					vscode.window.showWarningMessage(mensaje, 'Open Dashboard', 'Mute').then(accion => {
+						if (accion === 'Open Dashboard') {
+							abrirPanel();
+						} else if (accion === 'Mute') {
+							alertasSilenciadas.add(regla.text);
+						}
+					});
+				}
+			} else if (transicion === 'resolved') {
+				const activa = activas.get(regla.text);
+				if (activa) {
+					activa.alerta.resuelta = new Date();
+					activas.delete(regla.text);
+				}
+				log(`✅ Alert resolved on PID ${pid}: ${regla.text} (value ${formatearValorAlerta(valor)})`);
+				marcar(regla.text, metrica, false);
+			}
+		}
+	};
+
+	// El dashboard no conserva su estado al ocultarse: al volver a mostrarse se marcan otra vez las alertas activas
+	const reenviar = () => {
+		for (const [regla, { metrica }] of activas) {
+			marcar(regla, metrica, true);
+		}
+	};
+
+	// Al dejar de monitorizar el proceso (cambio de proceso, fin de la sesión de debug o panel cerrado) las alertas
+	// activas ya no se pueden resolver: se cierran en el historial y, si el panel sigue mostrándolas, se desmarcan
+	const detener = (desmarcar: boolean) => {
+		detenido = true;
+		for (const [regla, { alerta, metrica }] of activas) {
+			alerta.detenida = new Date();
+			log(`⏹️ Stopped monitoring PID ${pid} with alert still firing: ${regla}`);
+			if (desmarcar) {
+				marcar(regla, metrica, false);
+			}
+		}
+		activas.clear();
+	};
+
+	return { evaluar, reenviar, detener };
+}
+
+// Función para mostrar el historial de alertas de la sesión de VS Code, de la más reciente a la más antigua
+async function mostrarHistorialAlertas() {
+	if (historialAlertas.length === 0) {
+		const accion = await vscode.window.showInformationMessage(
+			cargarReglasAlertas().length > 0 ? 'No alerts have fired yet.' : 'No alert rules are configured.',
+			'Add Alert Rule'
+		);
+		if (accion) {
+			await agregarReglaAlerta();
+		}
+		return;
+	}
+	const hora = (fecha: Date) => fecha.toLocaleTimeString();
+	const seleccion = await vscode.window.showQuickPick(historialAlertas.map(alerta => ({
+		label: `${alerta.resuelta ? '$(pass)' : alerta.detenida ? '$(debug-stop)' : alertasSilenciadas.has(alerta.regla) ? '$(bell-slash)' : '$(bell-dot)'} ${alerta.regla}`,
+		description: `PID ${alerta.pid} · ${formatearValorAlerta(alerta.valor)}`,
+		detail: (alerta.resuelta
+			? `Fired at ${hora(alerta.disparada)}, resolved at ${hora(alerta.resuelta)}`
+			: alerta.detenida
+				? `Fired at ${hora(alerta.disparada)}, stopped monitoring at ${hora(alerta.detenida)}`
+				: `Firing since ${hora(alerta.disparada)}${alerta.silenciada ? ' (muted)' : ''}`)
+			+ (alerta.capturas?.length ? ` · captured ${alerta.capturas.map(archivo => path.basename(archivo.fsPath)).join(', ')}` : ''),
+		alerta
+	})), { title: 'Alert History', placeHolder: 'Select an alert to open the dashboard of its process' });
+	if (seleccion) {
+		await abrirDashboard(seleccion.alerta.pid);
+	}
+}
+
+// Función para añadir una regla de alerta al ajuste dotnetMonitor.alerts del workspace (o del usuario sin workspace)
+async function agregarReglaAlerta() {
+	const texto = await vscode.window.showInputBox({
+		title: 'Add Alert Rule',
+		prompt: 'Metric, condition and optional duration, compared with the value shown in the dashboard',
+		placeHolder: `${EJEMPLO_ALERTA} · threadpool-queue-length > 50 · gen-2-size growing for 5 min`,
+		validateInput: valor => parseAlertRule(valor) ? undefined : 'Use "<metric> <op> <value>[%|MB|GB] [for <duration>]" or "<metric> growing for <duration>"'
+	});
+	if (!texto) {
+		return;
+	}
+
+	// Diagnósticos que se recogen al dispararse (ninguno: sólo se avisa)
+	const capturas = await vscode.window.showQuickPick([
+		{ label: '$(list-tree) stacks', description: 'Call stacks of all threads' },
+		{ label: '$(record) trace 10s', description: '10 second CPU trace' },
+		{ label: '$(database) gcdump', description: 'GC heap snapshot' },
+		{ label: '$(file-binary) dump Mini', description: 'Mini memory dump' },
+		{ label: '$(output) logs 30s', description: '30 seconds of logs' }
+	], { title: 'Add Alert Rule', placeHolder: 'Diagnostics to capture when it trips (none to only notify)', canPickMany: true });
+	if (!capturas) {
+		return;
+	}
+	let regla: string | AlertRuleConfig = texto.trim();
+	if (capturas.length > 0) {
+		const maximo = await vscode.window.showInputBox({
+			title: 'Add Alert Rule',
+			prompt: 'Maximum number of captures per monitoring session (at least 5 minutes apart)',
+			value: '3',
+			validateInput: valor => Number.isInteger(Number(valor)) && Number(valor) >= 1 ? undefined : 'Enter a whole number of at least 1'
+		});
+		if (!maximo) {
+			return;
+		}
+		regla = { when: texto.trim(), capture: capturas.map(captura => captura.label.replace(/^\$\([^)]+\)\s*/, '')), cooldown: '5 min', maxCaptures: Number(maximo) };
+	}
+
+	const ajustes = vscode.workspace.getConfiguration('dotnetMonitor');
+	const destino = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+	await ajustes.update('alerts', [...ajustes.get<(string | AlertRuleConfig)[]>('alerts', []), regla], destino);
+	vscode.window.showInformationMessage(`Added alert rule "${parseAlertRule(regla)!.text}". It applies to the metrics dashboards that are open.`);
+}
+
+// Función para volver a avisar de las reglas silenciadas
+async function reactivarAlertas() {
+	if (alertasSilenciadas.size === 0) {
+		vscode.window.showInformationMessage('No alert rules are muted.');
+		return;
+	}
+	const seleccion = await vscode.window.showQuickPick([...alertasSilenciadas], { title: 'Unmute Alerts', canPickMany: true, placeHolder: 'Select the rules to notify again' });
+	seleccion?.forEach(regla => alertasSilenciadas.delete(regla));
+}
+
+// Función para leer el stream de logs (/logs) en formato NDJSON y enviarlo al webview por lotes
+function iniciarStreamLogs(pid: number, panel: vscode.WebviewPanel) {
+	const config = getConfig();
+	// durationSeconds=-1 mantiene el stream abierto indefinidamente
+	const url = `${config.baseUrl}/logs?pid=${pid}&durationSeconds=-1`;
+	let activo = true;
+	let requestActual: http.ClientRequest | null = null;
+	let pendientes: any[] = [];
+
+	// Agrupar las entradas para no saturar el webview cuando hay ráfagas de logs
+	const intervalo = setInterval(() => {
+		if (pendientes.length > 0) {
+			panel.webview.postMessage({ command: 'nuevosLogs', data: pendientes });
+			pendientes = [];
+		}
+	}, 250);
+
+	const conectar = () => {
+		if (!activo) {
+			return;
+		}
+
+		console.log(`📜 Iniciando stream de logs para PID ${pid}`);
+
+		const cliente = url.startsWith('https') ? https : http;
+		requestActual = cliente.get(url, { rejectUnauthorized: !aceptarCertificadoNoValido(url), headers: { ...getAuthHeaders(), Accept: 'application/x-ndjson' } }, (response) => {
+			console.log(`✅ Conectado al stream de logs (status: ${response.statusCode})`);
+			if (response.statusCode === 401) {
+				avisarNoAutorizado();
+				response.resume();
+				return;
+			}
+			let buffer = '';
+
+			response.on('data', (chunk) => {
+				buffer += chunk.toString();
+
+				let newlineIndex;
+				while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+					const linea = buffer.substring(0, newlineIndex).trim();
+					buffer = buffer.substring(newlineIndex + 1);
+					if (linea) {
+						try {
+							pendientes.push(JSON.parse(linea));
+						} catch (error) {
+							console.error('❌ Error parseando entrada de log:', error);
+						}
+					}
+				}
+			});
+
+			response.on('end', () => {
+				console.log('🔚 Stream de logs terminado');
+				if (activo && config.autoReconnect) {
+					setTimeout(conectar, config.reconnectDelay);
+				}
+			});
+
+			response.on('error', (error) => {
+				console.error('❌ Error en stream de logs:', error);
+				if (activo && config.autoReconnect) {
+					setTimeout(conectar, config.reconnectDelay);
+				}
+			});
+		});
+
+		requestActual.on('error', (error) => {
+			console.error('❌ Error conectando al stream de logs:', error);
+			if (activo && config.autoReconnect) {
+				setTimeout(conectar, config.reconnectDelay);
+			}
+		});
+	};
+
+	conectar();
+
+	// Retornar función para cancelar el stream
+	return () => {
+		console.log('🛑 Cerrando stream de logs');
+		activo = false;
+		clearInterval(intervalo);
+		if (requestActual) {
+			requestActual.destroy();
+		}
+	};
+}
+
+// Función para obtener la lista de procesos
+async function obtenerProcesos(debugSession = vscode.debug.activeDebugSession): Promise<{ processes: any[], debugActive: boolean, debugFound: boolean, hasAnyDebugProcess: boolean }> {
+	try {
+		const config = getConfig();
+		console.log('🔍 Intentando obtener procesos desde la API...');
+		
+		// Probar primero la raíz para ver qué endpoints hay (sólo con la instancia local)
+		if (config.connectionMode === 'launch') {
+			const rootResponse = await fetchWithAgent(`http://localhost:${monitor.puertoMetricas ?? config.httpPort}/`);
+			console.log('Root status:', rootResponse.status);
+			if (rootResponse.ok) {
+				const rootData = await rootResponse.text();
+				console.log('Root response:', rootData);
+			}
+		}
+		
+		// Ahora probar /processes
+		const response = await fetchWithAgent(`${config.baseUrl}/processes`);
+		console.log('Processes status:', response.status);
+		
+		if (!response.ok) {
+			throw new Error(`HTTP error! status: ${response.status}`);
+		}
+		const data = await response.json() as any[];
+		console.log('✅ Procesos obtenidos:', data);
+		
+		// Identificar el proceso en debug: por el PID de la sesión y, si no se conoce, con la heurística
+		const debugTarget = debugSession && esSesionDotnet(debugSession) ? getDebugTarget(debugSession) : undefined;
+		let debugMatch: DebugMatch | undefined;
+		if (debugTarget) {
+			console.log('🐛 Debug target:', debugTarget);
+			let candidatos: ProcessCandidate[] = data.map(p => ({ pid: p.pid, name: p.name, commandLine: p.commandLine }));
+
+			// Un .dll se ejecuta con el host "dotnet": sólo entonces hace falta la línea de comandos de cada proceso
+			if (needsCommandLine(debugTarget)) {
+				candidatos = await Promise.all(candidatos.map(async candidato => {
+					if (candidato.name?.toLowerCase() !== 'dotnet' || candidato.commandLine) {
+						return candidato;
+					}
+					try {
+						const detailResponse = await fetchWithAgent(`${config.baseUrl}/process?pid=${candidato.pid}`);
+						if (detailResponse.ok) {
+							const detail = await detailResponse.json() as any;
+							return { ...candidato, commandLine: detail.commandLine };
+						}
+					} catch (err) {
+						console.log(`❌ Error obteniendo info del proceso ${candidato.pid}:`, err);
+					}
+					return candidato;
+				}));
+			}
+
+			debugMatch = matchDebugProcess(candidatos, debugTarget);
+			if (debugMatch) {
+				console.log(`✅ Proceso en debug: PID ${debugMatch.pid} (${debugMatch.reason})`);
+				log(`Debuggee of "${debugSession!.name}": PID ${debugMatch.pid} (${debugMatch.reason})`);
+			} else {
+				console.log('❌ No se encontró el proceso en debug');
+			}
+		}
+		
+		const blackLists = ['microsoft.visualstudio.'];
+		
+		// Filtrar procesos
+		const filteredProcesses = data
+			.filter(prop => {
+				const name = prop.name.toLowerCase();
+				// No filtrar blacklist si hay debug activo y el proceso es "dotnet"
+				if (debugTarget && name === 'dotnet') {
+					return true;
+				}
+				// Aplicar blacklist normal
+				return !blackLists.some(blackList => name.startsWith(blackList));
+			})
+			.map(proceso => ({
+				...proceso,
+				isDebugging: proceso.pid === debugMatch?.pid,
+				debugReason: proceso.pid === debugMatch?.pid ? debugMatch?.reason : undefined
+			}));
+		
+		// Verify if the debug process was found
+		const debugActive = !!debugTarget;
+		const debugProcess = debugActive ? filteredProcesses.find(p => p.isDebugging) : undefined;
+		const debugFound = !!debugProcess;
+		// Check if there are any debug processes in the entire list
+		const hasAnyDebugProcess = filteredProcesses.some(p => p.isDebugging);
+		
+		// If there is a debug process, show only that one
+		if (debugActive) {
+			return {
+				processes: debugProcess ? [debugProcess] : filteredProcesses,
+				debugActive,
+				debugFound,
+				hasAnyDebugProcess
+			};
+		}
+		
+		return {
+			processes: filteredProcesses,
+			debugActive: false,
+			debugFound: false,
+			hasAnyDebugProcess
+		};
+	} catch (error: any) {
+		console.error('Error obteniendo procesos:', error);
+		return {
+			processes: [],
+			debugActive: false,
+			debugFound: false,
+			hasAnyDebugProcess: false
+		};
+	}
+}
+
+// Función para abrir el dashboard. Con un PID se abre directamente la vista de métricas de ese proceso
+// y, si viene de una sesión de debug, los streams se detienen cuando la sesión termina
+async function abrirDashboard(pidInicial?: number, sesionDebug?: vscode.DebugSession) {
+	const config = getConfig();
+	const attach = config.connectionMode === 'attach';
+
+	const panel = vscode.window.createWebviewPanel(
+		'dotnetDashboard',
+		pidInicial !== undefined ? `Dotnet Monitor - PID ${pidInicial}` : 'Dotnet Monitor Dashboard',
+		vscode.ViewColumn.One,
+		{
+			enableScripts: true
+		}
+	);
+
+	// Arrancar (o reutilizar) el dotnet-monitor compartido y esperar a que la API esté lista
+	if (attach) {
+		console.log(`🔗 Conectando a dotnet-monitor en ${config.baseUrl} (perfil "${config.activeProfile}")`);
+	}
+	panel.webview.html = getLoadingHTML(attach ? `Connecting to ${escapeHtml(config.baseUrl)}...` : 'Starting dotnet-monitor...');
+	const { listo: apiReady, liberar } = await adquirirMonitor();
+
+	if (!apiReady) {
+		panel.webview.html = getErrorHTML(attach
+			? `Could not connect to dotnet-monitor at ${escapeHtml(config.baseUrl)}. Check the URL and API key of the "${escapeHtml(config.activeProfile)}" profile`
+			: 'Could not connect to dotnet-monitor API. See the "Dotnet Monitor" output channel for details');
+		return;
+	}
+
+	// Variable para guardar la función de cancelación del stream
+	let cancelarStream: (() => void) | null = null;
+	let cancelarLogs: (() => void) | null = null;
+	let grabacion: GrabacionMetricas | undefined;
+	// Evita empezar dos grabaciones si se pulsa otra vez mientras se crea el archivo
+	let iniciandoGrabacion = false;
+	let cerrado = false;
+	// Historial completo de la sesión del proceso mostrado (los gráficos sólo guardan maxDataPoints puntos)
+	let historial = crearHistorialMetricas();
+	// La comparación con una baseline sigue activa al cambiar de proceso, para comparar una nueva ejecución
+	const comparador = crearComparadorBaseline(panel, () => historial.leer(), () => historial.series);
+	let alertas: ReturnType<typeof crearEvaluadorAlertas> | undefined;
+
+	// Función para terminar la grabación en curso y ofrecer reproducirla
+	const detenerGrabacion = async () => {
+		if (!grabacion) {
+			return;
+		}
+		const terminada = grabacion;
+		grabacion = undefined;
+		await terminada.cerrar();
+		if (!cerrado) {
+			panel.webview.postMessage({ command: 'estadoGrabacion', data: { grabando: false } });
+		}
+		const accion = await vscode.window.showInformationMessage(
+			`Recorded ${terminada.registros} metric records to ${path.basename(terminada.archivo.fsPath)}`,
+			'Replay',
+			'Reveal in File Explorer'
+		);
+		if (accion === 'Replay') {
+			await abrirGrabacion(terminada.archivo);
+		} else if (accion) {
+			vscode.commands.executeCommand('revealFileInOS', terminada.archivo);
+		}
+	};
+
+	// Función para mostrar las métricas de un proceso, cancelando los streams anteriores
+	const mostrarMetricas = (pid: number) => {
+		if (cancelarStream) {
+			cancelarStream();
+		}
+		if (cancelarLogs) {
+			cancelarLogs();
+			cancelarLogs = null;
+		}
+		detenerGrabacion();
+		
+		// Mostrar HTML con gráficos
+		panel.webview.html = getMetricsHTML(pid);
+		
+		// Iniciar stream de métricas (o la consulta periódica de /metrics). Lo que llega se guarda
+		// en el historial y, si se ha pedido, en la grabación
+		historial.cerrar();
+		historial = crearHistorialMetricas();
+		alertas?.detener(false);
+		const evaluador = alertas = crearEvaluadorAlertas(pid, panel, () => cerrado ? abrirDashboard(pid) : panel.reveal());
+		const recibir = (metrica: any) => {
+			historial.agregar(metrica);
+			grabacion?.escribir(metrica);
+			evaluador.evaluar(metrica);
+		};
+		cancelarStream = getConfig().metricsTransport === 'prometheus'
+			? iniciarScrapeMetricas(pid, panel, recibir)
+			: iniciarStreamMetricas(pid, panel, recibir);
+	};
+
+	// Obtener lista de procesos, o ir directamente a las métricas del proceso indicado
+	if (pidInicial !== undefined) {
+		mostrarMetricas(pidInicial);
+	} else {
+		loadProcesosHtml(panel);
+	}
+
+	// Al terminar la sesión de debug se detienen los streams pero el panel sigue abierto con los últimos datos
+	const finDebug = sesionDebug && vscode.debug.onDidTerminateDebugSession(sesion => {
+		if (sesion.id !== sesionDebug.id) {
+			return;
+		}
+		console.log(`⏹️ Sesión de debug "${sesion.name}" terminada, deteniendo streams`);
+		if (cancelarStream) {
+			cancelarStream();
+			cancelarStream = null;
+		}
+		if (cancelarLogs) {
+			cancelarLogs();
+			cancelarLogs = null;
+		}
+		detenerGrabacion();
+		alertas?.detener(true);
+		panel.webview.postMessage({ command: 'sesionTerminada', data: { nombre: sesion.name } });
+	});
+
+	// Si se detiene dotnet-monitor con el comando el panel se queda con los últimos datos
+	const finMonitor = monitorDetenido.event(() => {
+		console.log('⏹️ dotnet-monitor detenido, deteniendo streams del dashboard');
+		if (cancelarStream) {
+			cancelarStream();
+			cancelarStream = null;
+		}
+		if (cancelarLogs) {
+			cancelarLogs();
+			cancelarLogs = null;
+		}
+		detenerGrabacion();
+		alertas?.detener(true);
+		panel.webview.postMessage({ command: 'monitorDetenido' });
+	});
+
+	const vistaPanel = panel.onDidChangeViewState(e => {
+		if (e.webviewPanel.visible) {
+			alertas?.reenviar();
+		}
+	});
+
+	// 🎯 ESCUCHAR MENSAJES DEL WEBVIEW
+	panel.webview.onDidReceiveMessage(
+		async (mensaje) => {
+			console.log('📨 Mensaje recibido del webview:', mensaje);
+
+			if(mensaje.command === 'obtenerProcesos') {
+				loadProcesosHtml(panel);
+			}
+
+			if (mensaje.command === 'backToList') {
+				console.log('🔙 Volviendo a la lista de procesos...');
+				
+				// Si hay un stream anterior, cancelarlo
+				if (cancelarStream) {
+					cancelarStream();
+					cancelarStream = null;
+				}
+				if (cancelarLogs) {
+					cancelarLogs();
+					cancelarLogs = null;
+				}
+				detenerGrabacion();
+				alertas?.detener(false);
+				alertas = undefined;
+				
+				// Volver a cargar la lista de procesos
+				loadProcesosHtml(panel);
+			}
+
+			if (mensaje.command === 'seleccionarProceso') {
+				const pid = mensaje.pid;
+				console.log(`✅ Usuario seleccionó proceso con PID: ${pid}`);
+				mostrarMetricas(pid);
+			}
+
+			if (mensaje.command === 'iniciarLogs' && !cancelarLogs) {
+				cancelarLogs = iniciarStreamLogs(mensaje.pid, panel);
+			}
+
+			if (mensaje.command === 'exportarMetricas') {
+				await exportarMetricas(await historial.leer(), mensaje.pid);
+			}
+
+			if (mensaje.command === 'gestionarBaseline') {
+				await comparador.gestionar(mensaje.pid);
+			}
+
+			if (mensaje.command === 'mostrarAlertas') {
+				await mostrarHistorialAlertas();
+			}
+
+			if (mensaje.command === 'alternarGrabacion') {
+				if (grabacion) {
+					await detenerGrabacion();
+				} else if (!iniciandoGrabacion) {
+					iniciandoGrabacion = true;
+					try {
+						const nueva = await iniciarGrabacion(mensaje.pid);
+						// Si el panel se cerró mientras tanto no queda nadie que pueda detenerla
+						if (cerrado) {
+							await nueva.cerrar();
+						} else {
+							grabacion = nueva;
+							panel.webview.postMessage({ command: 'estadoGrabacion', data: { grabando: true, archivo: path.basename(nueva.archivo.fsPath) } });
+						}
+					} catch (error: any) {
+						vscode.window.showErrorMessage(`Could not start recording: ${error.message}`);
+					} finally {
+						iniciandoGrabacion = false;
+					}
+				}
+			}
+
+			if (mensaje.command === 'capturarDump') {
+				await capturarDump(mensaje.pid);
+			}
+
+			if (mensaje.command === 'capturarGcDump') {
+				await capturarGcDump(mensaje.pid);
+			}
+
+			if (mensaje.command === 'compararHeapSnapshots') {
+				await compararHeapSnapshots(mensaje.pid);
+			}
+
+			if (mensaje.command === 'grabarTrace') {
+				await grabarTrace(mensaje.pid, panel);
+			}
+
+			if (mensaje.command === 'capturarLogs') {
+				await capturarLogs(mensaje.pid);
+			}
+
+			if (mensaje.command === 'capturarFlameGraph') {
+				await capturarFlameGraph(mensaje.pid);
+			}
+
+			if (mensaje.command === 'capturarCallStacks') {
+				await capturarCallStacks(mensaje.pid);
+			}
+
+			if (mensaje.command === 'mostrarExcepciones') {
+				await mostrarExcepciones(mensaje.pid);
+			}
+
+			if (mensaje.command === 'mostrarDetalles') {
+				await mostrarDetallesProceso(mensaje.pid);
+			}
+
+			if (mensaje.command === 'mostrarReglas') {
+				await mostrarReglas(mensaje.pid);
+			}
+		}
+	);
+
+	// Limpiar al cerrar el panel
+	panel.onDidDispose(() => {
+		
+		// Cancelar stream si existe
+		if (cancelarStream) {
+			cancelarStream();
+		}
+		if (cancelarLogs) {
+			cancelarLogs();
+		}
+		cerrado = true;
+		detenerGrabacion();
+		comparador.detener();
+		alertas?.detener(false);
+		historial.cerrar();
+		vistaPanel.dispose();
+		finDebug?.dispose();
+		finMonitor.dispose();
+		
+		// Soltar la referencia: dotnet-monitor se detiene cuando ningún panel lo usa
+		liberar();
+	});
+}
+
+// PID de cada sesión de debug según el evento "process" del debug adapter
+const pidsSesionDebug = new Map<string, number>();
+
+// Función para obtener los datos con los que identificar el proceso de una sesión de debug
+function getDebugTarget(sesion: vscode.DebugSession): DebugTarget {
+	const configuracion = sesion.configuration ?? {};
+	return {
+		pid: getAttachProcessId(configuracion) ?? pidsSesionDebug.get(sesion.id),
+		program: configuracion.program,
+		cwd: configuracion.cwd,
+		projectPath: configuracion.projectPath
+	};
+}
+
+// Función para saber si una sesión de debug es de .NET
+function esSesionDotnet(sesion: vscode.DebugSession): boolean {
+	return sesion.type === 'coreclr' || sesion.type === 'clr';
+}
+
+// Función para esperar a que el proceso de una sesión de debug aparezca en /processes
+async function esperarProcesoDebug(sesion: vscode.DebugSession, token: vscode.CancellationToken): Promise<number | undefined> {
+	let terminada = false;
+	const finDebug = vscode.debug.onDidTerminateDebugSession(s => terminada = terminada || s.id === sesion.id);
+	try {
+		for (let intento = 0; intento < 60 && !terminada && !token.isCancellationRequested; intento++) {
+			const result = await obtenerProcesos(sesion);
+			const proceso = result.processes.find(p => p.isDebugging);
+			if (proceso) {
+				return proceso.pid;
+			}
+			await new Promise(resolve => setTimeout(resolve, 1000));
+		}
+		return undefined;
+	} finally {
+		finDebug.dispose();
+	}
+}
+
+// Función para abrir las métricas del proceso en debug cuando empieza una sesión de .NET
+async function monitorizarSesionDebug(sesion: vscode.DebugSession) {
+	const config = vscode.workspace.getConfiguration('dotnetMonitor');
+	if (!config.get<boolean>('autoOpenOnDebug', false) || !esSesionDotnet(sesion)) {
+		return;
+	}
+	console.log(`🐛 Sesión de debug .NET iniciada: ${sesion.name}`);
+
+	// Se mantiene una referencia al monitor mientras se busca el proceso
+	const referencia = await adquirirMonitor();
+	if (!referencia.listo) {
+		vscode.window.showErrorMessage('Could not start dotnet-monitor for the debug session.', 'Show Output')
+			.then(accion => accion && canalSalida?.show());
+		return;
+	}
+	try {
+		const pid = await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Window,
+				title: `Dotnet Monitor: waiting for ${sesion.name}...`,
+				cancellable: true
+			},
+			(_progress, token) => esperarProcesoDebug(sesion, token)
+		);
+		if (pid === undefined) {
+			if (vscode.debug.activeDebugSession?.id === sesion.id) {
+				vscode.window.showWarningMessage(`Could not find the process of "${sesion.name}" in dotnet-monitor.`);
+			}
+			return;
+		}
+		await abrirDashboard(pid, sesion);
+	} finally {
+		referencia.liberar();
+	}
+}
+
+// This method is called when your extension is activated
+// Your extension is activated the very first time the command is executed
+export async function activate(context: vscode.ExtensionContext) {
+	console.log('==========================================');
+	console.log('🚀 DOTNET MONITOR EXTENSION ACTIVATING!!!');
+	console.log('==========================================');
+	
+	vscode.window.showInformationMessage('Dotnet Monitor extension is now active!');
+	
+	console.log('Congratulations, your extension "dotnet-monitor-vscode" is now active!');
+
+	// API keys en SecretStorage: se recargan si cambian los secretos o los perfiles de conexión
+	// La primera carga termina antes de registrar los comandos para que ninguna petición salga sin su API key
+	secretos = context.secrets;
+	await cargarApiKeys();
+	context.subscriptions.push(
+		secretos.onDidChange(() => cargarApiKeys()),
+		vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration('dotnetMonitor.connectionProfiles')) {
+				cargarApiKeys();
+			}
+		})
+	);
+
+	// ----- NUEVO COMANDO: MOSTRAR WEBVIEW -----
+	const dashboardCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.showDashboard',
+		() => abrirDashboard()
+	);
+	context.subscriptions.push(dashboardCmd);
+
+	// El debug adapter informa del PID del proceso depurado con el evento "process" de DAP
+	const trackerFactory: vscode.DebugAdapterTrackerFactory = {
+		createDebugAdapterTracker: (sesion) => ({
+			onDidSendMessage: (mensaje) => {
+				const pid = mensaje?.type === 'event' && mensaje.event === 'process' ? mensaje.body?.systemProcessId : undefined;
+				if (typeof pid === 'number') {
+					console.log(`🐛 Sesión "${sesion.name}" depura el PID ${pid}`);
+					pidsSesionDebug.set(sesion.id, pid);
+				}
+			}
+		})
+	};
+	context.subscriptions.push(
+		vscode.debug.registerDebugAdapterTrackerFactory('coreclr', trackerFactory),
+		vscode.debug.registerDebugAdapterTrackerFactory('clr', trackerFactory),
+		vscode.debug.onDidTerminateDebugSession(sesion => pidsSesionDebug.delete(sesion.id))
+	);
+
+	// Abrir la vista de métricas automáticamente al empezar una sesión de debug de .NET (opcional)
+	context.subscriptions.push(
+		vscode.debug.onDidStartDebugSession(sesion => monitorizarSesionDebug(sesion))
+	);
+
+	// Comandos para controlar el dotnet-monitor compartido. Al iniciarlo a mano se mantiene
+	// en marcha aunque se cierren todos los paneles, hasta que se detenga explícitamente
+	const startMonitorCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.startMonitor',
+		async () => {
+			if (getConfig().connectionMode === 'attach') {
+				vscode.window.showInformationMessage('The active connection profile attaches to an existing dotnet-monitor.');
+				return;
+			}
+			monitor.manual = true;
+			if (await iniciarMonitor()) {
+				vscode.window.showInformationMessage(`dotnet-monitor is running on ${getConfig().baseUrl}`);
+			} else {
+				monitor.manual = false;
+				vscode.window.showErrorMessage('Could not start dotnet-monitor.', 'Show Output')
+					.then(accion => accion && canalSalida?.show());
+			}
+		}
+	);
+	const stopMonitorCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.stopMonitor',
+		async () => {
+			if (!monitor.proceso && !monitor.reutilizado) {
+				monitor.manual = false;
+				vscode.window.showInformationMessage('dotnet-monitor is not running.');
+				return;
+			}
+			if (monitor.referencias > 0) {
+				const respuesta = await vscode.window.showWarningMessage(
+					`dotnet-monitor is in use by ${monitor.referencias} open view(s) or running action(s). Stop it anyway?`,
+					{ modal: true, detail: 'Dashboards, log streams and collection rule views will stop receiving data until they are reopened.' },
+					'Stop'
+				);
+				if (respuesta !== 'Stop') {
+					return;
+				}
+			}
+			monitor.manual = false;
+			monitor.generacion++;
+			monitor.referencias = 0;
+			detenerMonitor();
+			monitorDetenido.fire();
+			vscode.window.showInformationMessage('dotnet-monitor stopped.');
+		}
+	);
+	const restartMonitorCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.restartMonitor',
+		async () => {
+			if (await reiniciarMonitor()) {
+				vscode.window.showInformationMessage(`dotnet-monitor restarted on ${getConfig().baseUrl}`);
+			}
+		}
+	);
+	context.subscriptions.push(startMonitorCmd, stopMonitorCmd, restartMonitorCmd, monitorDetenido);
+
+	// Vista lateral de operaciones: se refresca sola mientras está visible y dotnet-monitor sigue vivo
+	vistaOperaciones = vscode.window.createTreeView('dotnetMonitor.operations', {
+		treeDataProvider: {
+			onDidChangeTreeData: cambioOperaciones.event,
+			getChildren: (operacion?: OperationInfo) => operacion ? [] : operaciones,
+			getTreeItem: crearItemOperacion
+		}
+	});
+	const intervaloOperaciones = setInterval(() => {
+		if (vistaOperaciones?.visible && !operacionesSinAutorizacion) {
+			actualizarOperaciones();
+		}
+	}, 3000);
+	context.subscriptions.push(
+		vistaOperaciones,
+		cambioOperaciones,
+		{ dispose: () => clearInterval(intervaloOperaciones) },
+		vistaOperaciones.onDidChangeVisibility(e => e.visible && actualizarOperaciones()),
+		vscode.commands.registerCommand('dotnetMonitor.refreshOperations', () => {
+			operacionesSinAutorizacion = false;
+			return actualizarOperaciones();
+		}),
+		vscode.commands.registerCommand('dotnetMonitor.cancelOperation', (operacion: OperationInfo) => cancelarOperacion(operacion, false)),
+		vscode.commands.registerCommand('dotnetMonitor.stopOperation', (operacion: OperationInfo) => cancelarOperacion(operacion, true)),
+		vscode.commands.registerCommand('dotnetMonitor.openOperationArtifact', (operacion: OperationInfo) => abrirArtefactoOperacion(operacion, false)),
+		vscode.commands.registerCommand('dotnetMonitor.revealOperationArtifact', (operacion: OperationInfo) => abrirArtefactoOperacion(operacion, true))
+	);
+
+	// Índice de artefactos de la carpeta de egress en el explorador
+	let observadorArtefactos: vscode.FileSystemWatcher | undefined;
+	const observarArtefactos = () => {
+		observadorArtefactos?.dispose();
+		observadorArtefactos = undefined;
+		const carpeta = getConfig().egressDirectory;
+		if (carpeta) {
+			observadorArtefactos = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(carpeta), '*'));
+			observadorArtefactos.onDidCreate(() => cambioArtefactos.fire());
+			observadorArtefactos.onDidChange(() => cambioArtefactos.fire());
+			observadorArtefactos.onDidDelete(() => cambioArtefactos.fire());
+		}
+		cambioArtefactos.fire();
+	};
+	observarArtefactos();
+	context.subscriptions.push(
+		cambioArtefactos,
+		{ dispose: () => observadorArtefactos?.dispose() },
+		vscode.window.registerTreeDataProvider('dotnetMonitor.artifacts', {
+			onDidChangeTreeData: cambioArtefactos.event,
+			getChildren: (artefacto?: ArtefactoIndexado) => artefacto ? [] : listarArtefactos(),
+			getTreeItem: crearItemArtefacto
+		}),
+		vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration('dotnetMonitor.egressDirectory')) {
+				observarArtefactos();
+				if (monitor.proceso) {
+					vscode.window.showInformationMessage('The egress directory changed. Restart dotnet-monitor to use it?', 'Restart')
+						.then(accion => accion && reiniciarMonitor());
+				}
+			}
+		}),
+		vscode.commands.registerCommand('dotnetMonitor.refreshArtifacts', () => cambioArtefactos.fire()),
+		vscode.commands.registerCommand('dotnetMonitor.openArtifact', (artefacto: ArtefactoIndexado) => abrirArtefacto(artefacto.uri)),
+		vscode.commands.registerCommand('dotnetMonitor.revealArtifact', (artefacto: ArtefactoIndexado) => vscode.commands.executeCommand('revealFileInOS', artefacto.uri)),
+		vscode.commands.registerCommand('dotnetMonitor.captureLogs', () => usarProcesoElegido('Capture Logs', capturarLogs))
+	);
+
+	// Comandos de alertas sobre las métricas en directo
+	context.subscriptions.push(
+		vscode.commands.registerCommand('dotnetMonitor.addAlertRule', () => agregarReglaAlerta()),
+		vscode.commands.registerCommand('dotnetMonitor.showAlertHistory', () => mostrarHistorialAlertas()),
+		vscode.commands.registerCommand('dotnetMonitor.unmuteAlerts', () => reactivarAlertas()),
+		vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration('dotnetMonitor.alerts')) {
+				reglasAlertas = undefined;
+			}
+		})
+	);
+
+	// Comando para reproducir una sesión de métricas grabada
+	const openRecordingCmd = vscode.commands.registerCommand('dotnetMonitor.openRecordedSession', () => abrirGrabacion());
+	context.subscriptions.push(openRecordingCmd);
+
+	// Comandos de reglas de recogida: editar el archivo, crear una regla guiada y ver su estado
+	const editRulesCmd = vscode.commands.registerCommand('dotnetMonitor.editCollectionRules', () => editarReglas());
+	const addRuleCmd = vscode.commands.registerCommand('dotnetMonitor.addCollectionRule', () => agregarRegla());
+	const showRulesCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.showCollectionRules',
+		() => usarProcesoElegido('Collection Rules', mostrarReglas)
+	);
+	context.subscriptions.push(editRulesCmd, addRuleCmd, showRulesCmd);
+
+	// Las reglas sólo se leen al lanzar dotnet-monitor: si cambian se ofrece reiniciarlo
+	const avisarCambioReglas = () => {
+		if (monitor.proceso) {
+			vscode.window.showInformationMessage('Collection rules changed. Restart dotnet-monitor to apply them?', 'Restart')
+				.then(accion => accion && reiniciarMonitor());
+		}
+	};
+	const observadorReglas = vscode.workspace.createFileSystemWatcher('**/.vscode/dotnet-monitor-rules.json');
+	context.subscriptions.push(
+		observadorReglas,
+		observadorReglas.onDidChange(avisarCambioReglas),
+		observadorReglas.onDidCreate(avisarCambioReglas),
+		observadorReglas.onDidDelete(avisarCambioReglas),
+		vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration('dotnetMonitor.collectionRules')) {
+				avisarCambioReglas();
+			}
+		})
+	);
+
+	// Comando para elegir el perfil de conexión (lanzar localmente o conectarse a una URL)
+	const selectProfileCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.selectConnectionProfile',
+		() => elegirPerfilConexion()
+	);
+	context.subscriptions.push(selectProfileCmd);
+
+	// Comando para generar, introducir o borrar la API key del perfil activo
+	const manageApiKeyCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.manageApiKey',
+		() => gestionarApiKey()
+	);
+	context.subscriptions.push(manageApiKeyCmd);
+
+	// Comando para capturar un dump desde la paleta de comandos
+	const captureDumpCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.captureDump',
+		() => usarProcesoElegido('Capture Dump', capturarDump)
+	);
+	context.subscriptions.push(captureDumpCmd);
+
+	// Comando para comparar dos snapshots del heap (capturados o desde disco)
+	const compareHeapCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.compareHeapSnapshots',
+		() => compararHeapSnapshots()
+	);
+	context.subscriptions.push(compareHeapCmd);
+
+	// Comando para abrir el flame graph capturando pilas o cargando un archivo speedscope
+	const flameGraphCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.showFlameGraph',
+		async () => {
+			const origen = await vscode.window.showQuickPick(
+				[
+					{ label: '$(pulse) Capture call stacks', description: 'From a running .NET process', value: 'capture' },
+					{ label: '$(folder-opened) Open speedscope file...', description: 'From disk', value: 'file' }
+				],
+				{ title: 'Flame Graph' }
+			);
+			if (origen?.value === 'capture') {
+				await usarProcesoElegido('Flame Graph', capturarFlameGraph);
+			} else if (origen?.value === 'file') {
+				await abrirSpeedscope();
+			}
+		}
+	);
+	context.subscriptions.push(flameGraphCmd);
+
+	// Comando para capturar las pilas de llamadas de un proceso
+	const captureStacksCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.captureStacks',
+		() => usarProcesoElegido('Capture Call Stacks', capturarCallStacks)
+	);
+	context.subscriptions.push(captureStacksCmd);
+
+	// Colección de diagnósticos para publicar excepciones en el panel Problems
+	diagnosticosExcepciones = vscode.languages.createDiagnosticCollection('dotnet-monitor');
+	context.subscriptions.push(diagnosticosExcepciones);
+
+	canalSalida = vscode.window.createOutputChannel('Dotnet Monitor');
+	context.subscriptions.push(canalSalida);
+
+	// Comando para ver el historial de excepciones de un proceso
+	const showExceptionsCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.showExceptions',
+		() => usarProcesoElegido('Exception History', mostrarExcepciones)
+	);
+	context.subscriptions.push(showExceptionsCmd);
+
+	// Comando para ver los detalles (runtime, línea de comandos y entorno) de un proceso
+	const processDetailsCmd = vscode.commands.registerCommand(
+		'dotnetMonitor.showProcessDetails',
+		() => usarProcesoElegido('Process Details', mostrarDetallesProceso)
+	);
+	context.subscriptions.push(processDetailsCmd);
+}
+
+async function loadProcesosHtml(panel: vscode.WebviewPanel) {
+		panel.webview.html = getLoadingHTML('Getting process list...');
+			const result = await obtenerProcesos();
+
+			// Determine the type of warning to show
+			let warningType: 'none' | 'no-processes' | 'no-debug-process' | 'no-active-debug' = 'none';
+			
+			if (result.processes.length === 0) {
+				// No .NET processes found at all
+				warningType = 'no-processes';
+			} else if (result.debugActive && !result.debugFound) {
+				// Debug session is active but the specific debug process was not found
+				warningType = 'no-debug-process';
+			} else if (!result.hasAnyDebugProcess) {
+				// There are processes but none of them are being debugged
+				warningType = 'no-active-debug';
+			}
+
+			// Show process list with warning information
+			panel.webview.html = getProcessListHTML(result.processes, warningType);
+}
+
+// Función para generar HTML de loading
+function getLoadingHTML(mensaje: string): string {
+	return `
+		<!DOCTYPE html>
+		<html>
+		<head>
+			<style>
+				body {
+					padding: 20px;
+					font-family: var(--vscode-font-family);
+					color: var(--vscode-foreground);
+					background-color: var(--vscode-editor-background);
+					display: flex;
+					justify-content: center;
+					align-items: center;
+					height: 100vh;
+					margin: 0;
+				}
+				.loading {
+					text-align: center;
+				}
+				.spinner {
+					border: 4px solid rgba(255, 255, 255, 0.1);
+					border-left-color: #4ec9b0;
+					border-radius: 50%;
+					width: 40px;
+					height: 40px;
+					animation: spin 1s linear infinite;
+					margin: 0 auto 20px;
+				}
+				@keyframes spin {
+					to { transform: rotate(360deg); }
+				}
+			</style>
+		</head>
+		<body>
+			<div class="loading">
+				<div class="spinner"></div>
+				<p>${mensaje}</p>
+			</div>
+		</body>
+		</html>
+	`;
+}
+
+// Función para generar HTML de error
+function getErrorHTML(mensaje: string): string {
+	return `
+		<!DOCTYPE html>
+		<html>
+		<head>
+			<style>
+				body {
+					padding: 20px;
+					font-family: var(--vscode-font-family);
+					color: var(--vscode-foreground);
+					background-color: var(--vscode-editor-background);
+				}
+				.error {
+					color: #f48771;
+					font-size: 24px;
+					margin-bottom: 10px;
+				}
+			</style>
+		</head>
+		<body>
+			<h1 class="error">❌ Error</h1>
+			<p>${mensaje}</p>
+		</body>
+		</html>
+	`;
+}
+
+// Función para generar HTML con lista de procesos
+function getProcessListHTML(procesos: any[], warningType: 'none' | 'no-processes' | 'no-debug-process' | 'no-active-debug' = 'none'): string {
+	const procesosHTML = procesos.map(proc => `
+		<div class="proceso-item ${proc.isDebugging ? 'debugging' : ''}" onclick="seleccionarProceso(${proc.pid})">
+			<div class="proceso-info">
+				<span class="proceso-pid">PID: ${proc.pid}</span>
+				<span class="proceso-name">${proc.name || 'N/A'}</span>
+				${proc.isDebugging ? `<span class="debug-badge" title="${escapeHtml(proc.debugReason ?? '')}">🐛 DEBUGGING</span>` : ''}
+				<button class="details-button" onclick="event.stopPropagation(); mostrarDetalles(${proc.pid})">ℹ️ Details</button>
+			</div>
+			<div class="proceso-command">${proc.commandLine || 'N/A'}</div>
+		</div>
+	`).join('');
+
+	let warningMessage = '';
+	let warningDescription = '';
+	
+	if (warningType === 'no-processes') {
+		warningMessage = 'No .NET processes found';
+		warningDescription = 'Make sure your .NET application is running and try again.';
+	} else if (warningType === 'no-debug-process') {
+		warningMessage = 'Debug process not found';
+		warningDescription = 'An active debug session was detected, but the corresponding process could not be found. Make sure your application is running in debug mode and try again.';
+	} else if (warningType === 'no-active-debug') {
+		warningMessage = 'No active debug processes found';
+		warningDescription = 'There are .NET processes running, but none of them are currently being debugged. Start debugging your application to monitor it.';
+	}
+
+	const warningBanner = warningType !== 'none' ? `
+		<div class="warning-banner">
+			<div class="warning-content">
+				<span class="warning-icon">⚠️</span>
+				<div class="warning-text">
+					<strong>${warningMessage}</strong>
+					<p>${warningDescription}</p>
+				</div>
+			</div>
+			<button class="retry-button" onclick="searchAgain()">🔄 Search Again</button>
+		</div>
+	` : '';
+
+	const reloadButton = warningType === 'none' ? `
+		<div style="text-align: center; margin-top: 20px;">
+			<button class="reload-button" onclick="searchAgain()">🔄 Reload Processes</button>
+		</div>
+	` : '';
+
+	return `
+		<!DOCTYPE html>
+		<html>
+		<head>
+			<style>
+				body {
+					padding: 20px;
+					font-family: var(--vscode-font-family);
+					color: var(--vscode-foreground);
+					background-color: var(--vscode-editor-background);
+					margin: 0;
+				}
+				h1 {
+					color: #4ec9b0;
+					margin-bottom: 20px;
+				}
+				.warning-banner {
+					background-color: rgba(255, 193, 7, 0.15);
+					border: 1px solid #ffc107;
+					border-radius: 5px;
+					padding: 15px;
+					margin-bottom: 20px;
+					display: flex;
+					justify-content: space-between;
+					align-items: center;
+				}
+				.warning-content {
+					display: flex;
+					gap: 15px;
+					align-items: flex-start;
+				}
+				.warning-icon {
+					font-size: 24px;
+					line-height: 1;
+				}
+				.warning-text {
+					flex: 1;
+				}
+				.warning-text strong {
+					color: #ffc107;
+					display: block;
+					margin-bottom: 5px;
+				}
+				.warning-text p {
+					margin: 0;
+					font-size: 0.9em;
+					color: var(--vscode-descriptionForeground);
+				}
+				.retry-button {
+					background-color: #ffc107;
+					color: #000;
+					border: none;
+					padding: 8px 16px;
+					border-radius: 4px;
+					cursor: pointer;
+					font-weight: bold;
+					font-size: 0.9em;
+					transition: background-color 0.2s;
+				}
+				.retry-button:hover {
+					background-color: #ffb300;
+				}
+				.reload-button {
+					background-color: var(--vscode-button-background);
+					color: var(--vscode-button-foreground);
+					border: none;
+					padding: 10px 20px;
+					border-radius: 4px;
+					cursor: pointer;
+					font-weight: bold;
+					font-size: 0.95em;
+					transition: background-color 0.2s;
+				}
+				.reload-button:hover {
+					background-color: var(--vscode-button-hoverBackground);
+				}
+				.proceso-item {
+					padding: 15px;
+					margin: 10px 0;
+					background-color: var(--vscode-editor-inactiveSelectionBackground);
+					border: 1px solid var(--vscode-panel-border);
+					border-radius: 5px;
+					cursor: pointer;
+					transition: all 0.2s;
+				}
+				.proceso-item:hover {
+					background-color: var(--vscode-list-hoverBackground);
+					border-color: #4ec9b0;
+				}
+				.proceso-info {
+					display: flex;
+					gap: 20px;
+					margin-bottom: 5px;
+					align-items: center;
+				}
+				.proceso-pid {
+					font-weight: bold;
+					color: #4ec9b0;
+				}
+				.proceso-name {
+					color: var(--vscode-foreground);
+				}
+				.debug-badge {
+					background-color: #f48771;
+					color: #000;
+					padding: 2px 8px;
+					border-radius: 4px;
+					font-size: 0.75em;
+					font-weight: bold;
+					margin-left: 10px;
+				}
+				.details-button {
+					margin-left: auto;
+					background-color: transparent;
+					color: var(--vscode-textLink-foreground);
+					border: 1px solid var(--vscode-panel-border);
+					padding: 2px 10px;
+					border-radius: 4px;
+					cursor: pointer;
+					font-size: 0.85em;
+				}
+				.details-button:hover {
+					background-color: var(--vscode-list-hoverBackground);
+				}
+				.proceso-item.debugging {
+					border-left: 3px solid #f48771;
+					background-color: rgba(244, 135, 113, 0.1);
+				}
+				.proceso-command {
+					font-size: 0.9em;
+					color: var(--vscode-descriptionForeground);
+					font-family: monospace;
+				}
+				.empty-message {
+					text-align: center;
+					padding: 40px 20px;
+					color: var(--vscode-descriptionForeground);
+				}
+				.empty-message p {
+					font-size: 1.1em;
+					margin: 0;
+				}
+			</style>
+		</head>
+		<body>
+			<h1>🔍 Select a .NET Process</h1>
+			${reloadButton}
+			${warningBanner}
+			<div id="lista-procesos">
+				${procesosHTML}
+			</div>
+			
+			
+			<script>
+				const vscode = acquireVsCodeApi();
+				
+				function seleccionarProceso(pid) {
+					vscode.postMessage({
+						command: 'seleccionarProceso',
+						pid: pid
+					});
+				}
+				
+				function searchAgain() {
+					vscode.postMessage({
+						command: 'obtenerProcesos'
+					});
+				}
+				
+				function mostrarDetalles(pid) {
+					vscode.postMessage({
+						command: 'mostrarDetalles',
+						pid: pid
+					});
+				}
+			</script>
+		</body>
+		</html>
+	`;
+}
+
+// Función para escapar texto que se inserta en el HTML de los webviews
+function escapeHtml(texto: string): string {
+	return texto.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' })[c]!);
+}
+
+// Función para generar HTML con la tabla de tipos de un snapshot del heap
+function getHeapSnapshotHTML(fileName: string, summary: GcDumpSummary): string {
+	// Evitar que un nombre de tipo cierre el <script> en el que se incrusta el JSON
+	const typesJson = JSON.stringify(summary.types).replace(/</g, '\\u003c');
+
+	return `
+		<!DOCTYPE html>
+		<html>
+		<head>
+			<style>
+				body {
+					padding: 20px;
+					font-family: var(--vscode-font-family);
+					color: var(--vscode-foreground);
+					background-color: var(--vscode-editor-background);
+					margin: 0;
+				}
+				h1 {
+					color: #4ec9b0;
+					margin-bottom: 10px;
+				}
+				#summary {
+					padding: 10px;
+					background-color: var(--vscode-textBlockQuote-background);
+					border-radius: 5px;
+					margin-bottom: 15px;
+					font-size: 14px;
+				}
+				input {
+					width: 100%;
+					box-sizing: border-box;
+					padding: 6px 10px;
+					margin-bottom: 15px;
+					background-color: var(--vscode-input-background);
+					color: var(--vscode-input-foreground);
+					border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+					border-radius: 4px;
+				}
+				table {
+					width: 100%;
+					border-collapse: collapse;
+					font-size: 13px;
+				}
+				th {
+					text-align: left;
+					padding: 8px;
+					border-bottom: 2px solid var(--vscode-panel-border);
+					cursor: pointer;
+					user-select: none;
+					white-space: nowrap;
+				}
+				th:hover {
+					color: #4ec9b0;
+				}
+				td {
+					padding: 6px 8px;
+					border-bottom: 1px solid var(--vscode-panel-border);
+				}
+				tr:hover td {
+					background-color: var(--vscode-list-hoverBackground);
+				}
+				.numeric {
+					text-align: right;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+				}
+				.type-name {
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+					word-break: break-all;
+				}
+			</style>
+		</head>
+		<body>
+			<h1>📦 Heap Snapshot - ${escapeHtml(fileName)}</h1>
+			<div id="summary"></div>
+			<input id="filter" type="text" placeholder="Filter types...">
+			<table>
+				<thead>
+					<tr>
+						<th data-key="name">Type</th>
+						<th data-key="count" class="numeric">Count</th>
+						<th data-key="exclusiveSize" class="numeric">Exclusive Size</th>
+						<th data-key="inclusiveSize" class="numeric">Inclusive Size</th>
+					</tr>
+				</thead>
+				<tbody id="rows"></tbody>
+			</table>
+
+			<script>
+				const types = ${typesJson};
+				const totalSize = ${summary.totalSize};
+				const maxRows = 2000;
+				let sortKey = 'exclusiveSize';
+				let sortDesc = true;
+
+				function formatBytes(bytes) {
+					if (bytes >= 1024 * 1024) {
+						return (bytes / 1024 / 1024).toFixed(2) + ' MB';
+					}
+					if (bytes >= 1024) {
+						return (bytes / 1024).toFixed(1) + ' KB';
+					}
+					return bytes + ' B';
+				}
+
+				function escapeHtml(text) {
+					return text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+				}
+
+				function render() {
+					const filter = document.getElementById('filter').value.toLowerCase();
+					const rows = types
+						.filter(t => t.name.toLowerCase().includes(filter))
+						.sort((a, b) => {
+							const result = sortKey === 'name' ? a.name.localeCompare(b.name) : a[sortKey] - b[sortKey];
+							return sortDesc ? -result : result;
+						});
+
+					document.getElementById('rows').innerHTML = rows.slice(0, maxRows).map(t =>
+						'<tr>' +
+							'<td class="type-name">' + escapeHtml(t.name) + '</td>' +
+							'<td class="numeric">' + t.count.toLocaleString() + '</td>' +
+							'<td class="numeric">' + formatBytes(t.exclusiveSize) + '</td>' +
+							'<td class="numeric">' + formatBytes(t.inclusiveSize) + '</td>' +
+						'</tr>'
+					).join('');
+
+					document.getElementById('summary').textContent =
+						'Total heap: ' + formatBytes(totalSize) + ' · ' + types.length.toLocaleString() + ' types · ' +
+						'Showing ' + Math.min(rows.length, maxRows).toLocaleString() + ' of ' + rows.length.toLocaleString();
+
+					document.querySelectorAll('th').forEach(th => {
+						const arrow = th.dataset.key === sortKey ? (sortDesc ? ' ▼' : ' ▲') : '';
+						th.textContent = th.textContent.replace(/ [▼▲]$/, '') + arrow;
+					});
+				}
+
+				document.querySelectorAll('th').forEach(th => {
+					th.addEventListener('click', () => {
+						if (sortKey === th.dataset.key) {
+							sortDesc = !sortDesc;
+						} else {
+							sortKey = th.dataset.key;
+							sortDesc = sortKey !== 'name';
+						}
+						render();
+					});
+				});
+				document.getElementById('filter').addEventListener('input', render);
+				render();
+			</script>
+		</body>
+		</html>
+	`;
+}
+
+// Función para generar HTML con las diferencias por tipo entre dos snapshots del heap
+function getHeapDiffHTML(beforeName: string, afterName: string, diffs: GcDumpTypeDiff[]): string {
+	const diffsJson = JSON.stringify(diffs).replace(/</g, '\\u003c');
+
+	return `
+		<!DOCTYPE html>
+		<html>
+		<head>
+			<style>
+				body {
+					padding: 20px;
+					font-family: var(--vscode-font-family);
+					color: var(--vscode-foreground);
+					background-color: var(--vscode-editor-background);
+					margin: 0;
+				}
+				h1 {
+					color: #4ec9b0;
+					margin-bottom: 10px;
+				}
+				#summary {
+					padding: 10px;
+					background-color: var(--vscode-textBlockQuote-background);
+					border-radius: 5px;
+					margin-bottom: 15px;
+					font-size: 14px;
+				}
+				.toolbar {
+					display: flex;
+					gap: 15px;
+					align-items: center;
+					margin-bottom: 15px;
+				}
+				input[type="text"] {
+					flex: 1;
+					padding: 6px 10px;
+					background-color: var(--vscode-input-background);
+					color: var(--vscode-input-foreground);
+					border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+					border-radius: 4px;
+				}
+				table {
+					width: 100%;
+					border-collapse: collapse;
+					font-size: 13px;
+				}
+				th {
+					text-align: left;
+					padding: 8px;
+					border-bottom: 2px solid var(--vscode-panel-border);
+					cursor: pointer;
+					user-select: none;
+					white-space: nowrap;
+				}
+				th:hover {
+					color: #4ec9b0;
+				}
+				td {
+					padding: 6px 8px;
+					border-bottom: 1px solid var(--vscode-panel-border);
+				}
+				tr:hover td {
+					background-color: var(--vscode-list-hoverBackground);
+				}
+				tr.new-type td {
+					background-color: rgba(244, 135, 113, 0.1);
+				}
+				.new-badge {
+					background-color: #f48771;
+					color: #000;
+					padding: 1px 6px;
+					border-radius: 4px;
+					font-size: 0.75em;
+					font-weight: bold;
+					margin-left: 6px;
+				}
+				.numeric {
+					text-align: right;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+				}
+				.type-name {
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+					word-break: break-all;
+				}
+				.growth {
+					color: #f48771;
+				}
+				.shrink {
+					color: #4ec9b0;
 				}
-			}
-			
-			console.log(`❌ No match para proceso: "${procesoName}"`);
-			return false;
-		};
-		
-		// Filtrar procesos
-		const filteredProcesses = data
-			.filter(prop => {
-				const name = prop.name.toLowerCase();
-				// No filtrar blacklist si hay debug activo y el proceso es "dotnet"
-				if (debugProgramName && name === 'dotnet') {
-					return true;
+			</style>
+		</head>
+		<body>
+			<h1>🔀 Heap Growth</h1>
+			<div id="summary"></div>
+			<div class="toolbar">
+				<input id="filter" type="text" placeholder="Filter types...">
+				<label><input id="onlyGrowth" type="checkbox" checked> Only types that grew</label>
+			</div>
+			<table>
+				<thead>
+					<tr>
+						<th data-key="name">Type</th>
+						<th data-key="countDelta" class="numeric">Δ Count</th>
+						<th data-key="countAfter" class="numeric">Count</th>
+						<th data-key="sizeDelta" class="numeric">Δ Size</th>
+						<th data-key="sizeAfter" class="numeric">Size</th>
+					</tr>
+				</thead>
+				<tbody id="rows"></tbody>
+			</table>
+
+			<script>
+				const diffs = ${diffsJson};
+				const beforeName = ${JSON.stringify(beforeName)};
+				const afterName = ${JSON.stringify(afterName)};
+				const maxRows = 2000;
+				let sortKey = 'sizeDelta';
+				let sortDesc = true;
+
+				function formatBytes(bytes) {
+					const abs = Math.abs(bytes);
+					if (abs >= 1024 * 1024) {
+						return (bytes / 1024 / 1024).toFixed(2) + ' MB';
+					}
+					if (abs >= 1024) {
+						return (bytes / 1024).toFixed(1) + ' KB';
+					}
+					return bytes + ' B';
+				}
+
+				function formatDelta(value, text) {
+					if (value > 0) {
+						return '<span class="growth">+' + text + '</span>';
+					}
+					if (value < 0) {
+						return '<span class="shrink">' + text + '</span>';
+					}
+					return text;
 				}
-				// Aplicar blacklist normal
-				return !blackLists.some(blackList => name.startsWith(blackList));
-			})
-			.map(proceso => ({
-				...proceso,
-				isDebugging: isProcessDebugging(proceso)
-			}));
-		
-		// Verify if the debug process was found
-		const debugActive = !!debugProgramName;
-		const debugProcess = debugActive ? filteredProcesses.find(p => p.isDebugging) : undefined;
-		const debugFound = !!debugProcess;
-		// Check if there are any debug processes in the entire list
-		const hasAnyDebugProcess = filteredProcesses.some(p => p.isDebugging);
-		
-		// If there is a debug process, show only that one
-		if (debugActive) {
-			return {
-				processes: debugProcess ? [debugProcess] : filteredProcesses,
-				debugActive,
-				debugFound,
-				hasAnyDebugProcess
-			};
-		}
-		
-		return {
-			processes: filteredProcesses,
-			debugActive: false,
-			debugFound: false,
-			hasAnyDebugProcess
-		};
-	} catch (error: any) {
-		console.error('Error obteniendo procesos:', error);
-		return {
-			processes: [],
-			debugActive: false,
-			debugFound: false,
-			hasAnyDebugProcess: false
-		};
-	}
-}
 
+				function escapeHtml(text) {
+					return text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+				}
 
+				function render() {
+					const filter = document.getElementById('filter').value.toLowerCase();
+					const onlyGrowth = document.getElementById('onlyGrowth').checked;
+					const rows = diffs
+						.filter(d => d.name.toLowerCase().includes(filter))
+						.filter(d => !onlyGrowth || d.sizeDelta > 0 || d.countDelta > 0)
+						.sort((a, b) => {
+							const result = sortKey === 'name' ? a.name.localeCompare(b.name) : a[sortKey] - b[sortKey];
+							return sortDesc ? -result : result;
+						});
 
-// This method is called when your extension is activated
-// Your extension is activated the very first time the command is executed
-export function activate(context: vscode.ExtensionContext) {
-	console.log('==========================================');
-	console.log('🚀 DOTNET MONITOR EXTENSION ACTIVATING!!!');
-	console.log('==========================================');
-	
-	vscode.window.showInformationMessage('Dotnet Monitor extension is now active!');
-	
-	console.log('Congratulations, your extension "dotnet-monitor-vscode" is now active!');
+					document.getElementById('rows').innerHTML = rows.slice(0, maxRows).map(d =>
+						'<tr class="' + (d.isNew ? 'new-type' : '') + '">' +
+							'<td class="type-name">' + escapeHtml(d.name) + (d.isNew ? '<span class="new-badge">NEW</span>' : '') + '</td>' +
+							'<td class="numeric">' + formatDelta(d.countDelta, d.countDelta.toLocaleString()) + '</td>' +
+							'<td class="numeric">' + d.countAfter.toLocaleString() + '</td>' +
+							'<td class="numeric">' + formatDelta(d.sizeDelta, formatBytes(d.sizeDelta)) + '</td>' +
+							'<td class="numeric">' + formatBytes(d.sizeAfter) + '</td>' +
+						'</tr>'
+					).join('');
 
-	// ----- NUEVO COMANDO: MOSTRAR WEBVIEW -----
-	const dashboardCmd = vscode.commands.registerCommand(
-		'dotnetMonitor.showDashboard',
-		async () => {
-			const config = getConfig();
-			
-			// Verificar si dotnet-monitor está instalado
-			const monitorCheck = await checkDotnetMonitor();
-			
-			if (!monitorCheck.installed) {
-				vscode.window.showErrorMessage(
-					'dotnet-monitor no está instalado. Ejecuta: dotnet tool install -g dotnet-monitor'
-				);
-				return;
-			}
+					const totalDelta = diffs.reduce((sum, d) => sum + d.sizeDelta, 0);
+					const newTypes = diffs.filter(d => d.isNew).length;
+					document.getElementById('summary').textContent =
+						beforeName + ' → ' + afterName + ' · Heap ' + (totalDelta >= 0 ? '+' : '') + formatBytes(totalDelta) +
+						' · ' + newTypes.toLocaleString() + ' new types · Showing ' + Math.min(rows.length, maxRows).toLocaleString() +
+						' of ' + rows.length.toLocaleString();
 
-			const panel = vscode.window.createWebviewPanel(
-				'dotnetDashboard',
-				'Dotnet Monitor Dashboard',
-				vscode.ViewColumn.One,
-				{
-					enableScripts: true
+					document.querySelectorAll('th').forEach(th => {
+						const arrow = th.dataset.key === sortKey ? (sortDesc ? ' ▼' : ' ▲') : '';
+						th.textContent = th.textContent.replace(/ [▼▲]$/, '') + arrow;
+					});
 				}
-			);
 
-			// Mostrar loading inicial
-			panel.webview.html = getLoadingHTML('Starting dotnet-monitor...');
+				document.querySelectorAll('th').forEach(th => {
+					th.addEventListener('click', () => {
+						if (sortKey === th.dataset.key) {
+							sortDesc = !sortDesc;
+						} else {
+							sortKey = th.dataset.key;
+							sortDesc = sortKey !== 'name';
+						}
+						render();
+					});
+				});
+				document.getElementById('filter').addEventListener('input', render);
+				document.getElementById('onlyGrowth').addEventListener('change', render);
+				render();
+			</script>
+		</body>
+		</html>
+	`;
+}
 
-			// Iniciar dotnet-monitor con argumentos configurables
-			const monitorProcess = spawn('dotnet-monitor', config.commandArgs);
-			console.log('✅ Dotnet Monitor iniciado con PID:', monitorProcess.pid);
-			console.log('📝 Argumentos:', config.commandArgs.join(' '));
-			console.log('🔌 Puerto HTTPS:', config.port);
-			console.log('🔌 Puerto HTTP:', config.httpPort);
+// Función para generar HTML con el flame graph interactivo (icicle o flame, búsqueda, zoom y filtro por hilo)
+function getFlameGraphHTML(titulo: string, datos: SpeedscopeData, permitirGuardar: boolean): string {
+	const datosJson = JSON.stringify(datos).replace(/</g, '\\u003c');
 
-			// Capturar errores del proceso
-			monitorProcess.stderr?.on('data', (data) => {
-				console.error('dotnet-monitor error:', data.toString());
-			});
+	return `
+		<!DOCTYPE html>
+		<html>
+		<head>
+			<style>
+				* {
+					box-sizing: border-box;
+				}
+				body {
+					padding: 20px;
+					font-family: var(--vscode-font-family);
+					color: var(--vscode-foreground);
+					background-color: var(--vscode-editor-background);
+					margin: 0;
+				}
+				h1 {
+					color: #4ec9b0;
+					margin-bottom: 10px;
+				}
+				.toolbar {
+					display: flex;
+					flex-wrap: wrap;
+					gap: 10px;
+					align-items: center;
+					margin-bottom: 10px;
+				}
+				input[type="text"] {
+					flex: 1;
+					min-width: 200px;
+					padding: 6px 10px;
+					background-color: var(--vscode-input-background);
+					color: var(--vscode-input-foreground);
+					border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+					border-radius: 4px;
+				}
+				button {
+					background-color: var(--vscode-button-background);
+					color: var(--vscode-button-foreground);
+					border: none;
+					padding: 6px 14px;
+					border-radius: 4px;
+					cursor: pointer;
+					font-family: var(--vscode-font-family);
+				}
+				button:hover {
+					background-color: var(--vscode-button-hoverBackground);
+				}
+				#status {
+					padding: 8px 10px;
+					background-color: var(--vscode-textBlockQuote-background);
+					border-radius: 5px;
+					margin-bottom: 10px;
+					font-size: 13px;
+				}
+				.layout {
+					display: grid;
+					grid-template-columns: 220px 1fr;
+					gap: 15px;
+				}
+				#threads {
+					max-height: 70vh;
+					overflow-y: auto;
+					font-size: 12px;
+					border: 1px solid var(--vscode-panel-border);
+					border-radius: 5px;
+					padding: 8px;
+				}
+				#threads label {
+					display: block;
+					padding: 2px 0;
+					white-space: nowrap;
+					overflow: hidden;
+					text-overflow: ellipsis;
+				}
+				#graph {
+					position: relative;
+					overflow: hidden;
+					border: 1px solid var(--vscode-panel-border);
+					border-radius: 5px;
+				}
+				.frame {
+					position: absolute;
+					height: 17px;
+					font-size: 11px;
+					line-height: 17px;
+					padding: 0 4px;
+					color: #000;
+					white-space: nowrap;
+					overflow: hidden;
+					text-overflow: ellipsis;
+					cursor: pointer;
+					border-right: 1px solid var(--vscode-editor-background);
+					border-bottom: 1px solid var(--vscode-editor-background);
+				}
+				.frame:hover {
+					filter: brightness(1.2);
+				}
+				.frame.dimmed {
+					opacity: 0.25;
+				}
+				.frame.match {
+					outline: 2px solid #ffffff;
+					outline-offset: -2px;
+				}
+				.frame.ancestor {
+					opacity: 0.6;
+				}
+			</style>
+		</head>
+		<body>
+			<h1>🔥 Flame Graph - ${escapeHtml(titulo)}</h1>
+			<div class="toolbar">
+				<input id="search" type="text" placeholder="Search frames...">
+				<label><input id="flame" type="checkbox"> Flame (root at bottom)</label>
+				<button onclick="zoomTo(null)">Reset zoom</button>
+				${permitirGuardar ? '<button onclick="vscode.postMessage({command: \'guardarSpeedscope\'})">💾 Save</button>' : ''}
+			</div>
+			<div id="status"></div>
+			<div class="layout">
+				<div id="threads">
+					<label><input id="all-threads" type="checkbox" checked> <strong>All threads</strong></label>
+				</div>
+				<div id="graph"></div>
+			</div>
 
-			// Esperar a que la API esté lista
-			panel.webview.html = getLoadingHTML('Waiting for API to be ready...');
-			const apiReady = await esperarAPI(`https://localhost:${config.port}/processes`);
+			<script>
+				const vscode = acquireVsCodeApi();
+				const datos = ${datosJson};
+				const FRAME_HEIGHT = 18;
+				let root = null;
+				let zoomRoot = null;
 
-			if (!apiReady) {
-				panel.webview.html = getErrorHTML('Could not connect to dotnet-monitor API');
-				monitorProcess.kill();
-				return;
-			}
+				// Lista de hilos con checkbox para filtrar
+				const threadsElement = document.getElementById('threads');
+				datos.threads.forEach((thread, index) => {
+					const label = document.createElement('label');
+					label.title = thread.name;
+					const checkbox = document.createElement('input');
+					checkbox.type = 'checkbox';
+					checkbox.checked = true;
+					checkbox.className = 'thread';
+					checkbox.dataset.index = index;
+					checkbox.addEventListener('change', rebuild);
+					label.appendChild(checkbox);
+					label.appendChild(document.createTextNode(' ' + thread.name));
+					threadsElement.appendChild(label);
+				});
+				document.getElementById('all-threads').addEventListener('change', (event) => {
+					document.querySelectorAll('.thread').forEach(c => c.checked = event.target.checked);
+					rebuild();
+				});
+
+				// Construir el árbol de llamadas combinando las pilas de los hilos seleccionados
+				function rebuild() {
+					root = { name: 'all', value: 0, children: new Map(), parent: null, depth: 0 };
+					document.querySelectorAll('.thread').forEach(checkbox => {
+						if (!checkbox.checked) {
+							return;
+						}
+						datos.threads[Number(checkbox.dataset.index)].stacks.forEach(stack => {
+							let node = root;
+							root.value += stack.weight;
+							stack.frames.forEach(frame => {
+								let child = node.children.get(frame);
+								if (!child) {
+									child = { name: datos.frames[frame], value: 0, children: new Map(), parent: node, depth: node.depth + 1 };
+									node.children.set(frame, child);
+								}
+								child.value += stack.weight;
+								node = child;
+							});
+						});
+					});
+					zoomRoot = null;
+					render();
+				}
 
-			// Obtener lista de procesos
-			loadProcesosHtml(panel, monitorProcess);
+				function zoomTo(node) {
+					zoomRoot = node && node !== root ? node : null;
+					render();
+				}
+
+				function color(name) {
+					let hash = 0;
+					for (let i = 0; i < name.length; i++) {
+						hash = (hash * 31 + name.charCodeAt(i)) | 0;
+					}
+					const hue = 10 + Math.abs(hash) % 45;
+					return 'hsl(' + hue + ', 80%, ' + (55 + Math.abs(hash >> 8) % 15) + '%)';
+				}
 
-			// Variable para guardar la función de cancelación del stream
-			let cancelarStream: (() => void) | null = null;
+				function render() {
+					const graph = document.getElementById('graph');
+					graph.innerHTML = '';
+					if (!root || root.value === 0) {
+						document.getElementById('status').textContent = 'No stacks for the selected threads';
+						graph.style.height = '0px';
+						return;
+					}
 
-			// 🎯 ESCUCHAR MENSAJES DEL WEBVIEW
-			panel.webview.onDidReceiveMessage(
-				async (mensaje) => {
-					console.log('📨 Mensaje recibido del webview:', mensaje);
+					const search = document.getElementById('search').value.toLowerCase();
+					const flame = document.getElementById('flame').checked;
+					const width = graph.clientWidth;
+					const focus = zoomRoot || root;
+					const rects = [];
+					let maxDepth = 0;
+					let matched = 0;
 
-					if(mensaje.command === 'obtenerProcesos') {
-						loadProcesosHtml(panel, monitorProcess);
+					// Los ancestros del nodo con zoom ocupan todo el ancho
+					for (let ancestor = focus.parent; ancestor; ancestor = ancestor.parent) {
+						rects.push({ node: ancestor, x: 0, w: width, ancestor: true });
 					}
 
-					if (mensaje.command === 'backToList') {
-						console.log('🔙 Volviendo a la lista de procesos...');
-						
-						// Si hay un stream anterior, cancelarlo
-						if (cancelarStream) {
-							cancelarStream();
-							cancelarStream = null;
-						}
-						
-						// Volver a cargar la lista de procesos
-						loadProcesosHtml(panel, monitorProcess);
+					const visit = (node, x, w) => {
+						rects.push({ node, x, w, ancestor: false });
+						maxDepth = Math.max(maxDepth, node.depth);
+						let childX = x;
+						const children = [...node.children.values()].sort((a, b) => a.name.localeCompare(b.name));
+						children.forEach(child => {
+							const childW = w * child.value / node.value;
+							if (childW >= 1) {
+								visit(child, childX, childW);
+							}
+							childX += childW;
+						});
+					};
+					visit(focus, 0, width);
+
+					// Calcular el peso de los frames que coinciden con la búsqueda (sin contar anidados)
+					if (search) {
+						const countMatches = (node, inside) => {
+							const isMatch = node.name.toLowerCase().includes(search);
+							if (isMatch && !inside) {
+								matched += node.value;
+							}
+							node.children.forEach(child => countMatches(child, inside || isMatch));
+						};
+						countMatches(focus, false);
 					}
 
-					if (mensaje.command === 'seleccionarProceso') {
-						const pid = mensaje.pid;
-						console.log(`✅ Usuario seleccionó proceso con PID: ${pid}`);
-						
-						// Si hay un stream anterior, cancelarlo
-						if (cancelarStream) {
-							cancelarStream();
+					graph.style.height = ((maxDepth + 1) * FRAME_HEIGHT) + 'px';
+					rects.forEach(({ node, x, w, ancestor }) => {
+						const div = document.createElement('div');
+						div.className = 'frame';
+						const isMatch = search && node.name.toLowerCase().includes(search);
+						if (ancestor) {
+							div.classList.add('ancestor');
+						} else if (search) {
+							div.classList.add(isMatch ? 'match' : 'dimmed');
 						}
-						
-						// Mostrar HTML con gráficos
-						panel.webview.html = getMetricsHTML(pid);
-						
-						// Iniciar stream de métricas
-						cancelarStream = iniciarStreamMetricas(pid, panel);
+						div.style.left = x + 'px';
+						div.style.width = w + 'px';
+						div.style.top = ((flame ? maxDepth - node.depth : node.depth) * FRAME_HEIGHT) + 'px';
+						div.style.backgroundColor = node === root ? '#8a8a8a' : color(node.name);
+						div.textContent = node.name;
+						div.title = node.name + '\\n' + node.value.toLocaleString() + ' (' + (node.value / root.value * 100).toFixed(2) + '%)';
+						div.addEventListener('click', () => zoomTo(node));
+						graph.appendChild(div);
+					});
+
+					let status = 'Total weight: ' + root.value.toLocaleString();
+					if (zoomRoot) {
+						status += ' · Zoomed on ' + zoomRoot.name + ' (' + (zoomRoot.value / root.value * 100).toFixed(2) + '%)';
+					}
+					if (search) {
+						status += ' · Matches: ' + (matched / focus.value * 100).toFixed(2) + '%';
 					}
+					document.getElementById('status').textContent = status;
 				}
-			);
 
-			// Limpiar al cerrar el panel
-			panel.onDidDispose(() => {
-				console.log('🛑 Cerrando dotnet-monitor con PID:', monitorProcess.pid);
-				
-				// Cancelar stream si existe
-				if (cancelarStream) {
-					cancelarStream();
-				}
-				
-				monitorProcess.kill();
-			});
-		}
-	);
-	context.subscriptions.push(dashboardCmd);
+				document.getElementById('search').addEventListener('input', render);
+				document.getElementById('flame').addEventListener('change', render);
+				window.addEventListener('resize', render);
+				rebuild();
+			</script>
+		</body>
+		</html>
+	`;
 }
 
-async function loadProcesosHtml(panel: vscode.WebviewPanel, monitorProcess: ChildProcess) {
-		panel.webview.html = getLoadingHTML('Getting process list...');
-			const result = await obtenerProcesos();
-
-			// Determine the type of warning to show
-			let warningType: 'none' | 'no-processes' | 'no-debug-process' | 'no-active-debug' = 'none';
-			
-			if (result.processes.length === 0) {
-				// No .NET processes found at all
-				warningType = 'no-processes';
-			} else if (result.debugActive && !result.debugFound) {
-				// Debug session is active but the specific debug process was not found
-				warningType = 'no-debug-process';
-			} else if (!result.hasAnyDebugProcess) {
-				// There are processes but none of them are being debugged
-				warningType = 'no-active-debug';
-			}
+// Función para generar HTML con el árbol de hilos y frames de una captura de /stacks
+function getCallStacksHTML(pid: number, threads: ThreadStack[]): string {
+	const threadsHTML = threads.map((thread, t) => {
+		const framesHTML = thread.frames.map((frame, f) => {
+			const framework = isFrameworkFrame(frame);
+			return `
+				<li class="frame ${framework ? 'framework' : 'user'}" ${framework ? '' : `onclick="abrirFrame(${t}, ${f})" title="Open in editor"`}>
+					${escapeHtml(frame.display)}${frame.moduleName ? `<span class="module">${escapeHtml(frame.moduleName)}</span>` : ''}
+				</li>
+			`;
+		}).join('');
+		const userFrames = thread.frames.filter(frame => !isFrameworkFrame(frame)).length;
+		const titulo = `Thread 0x${thread.threadId.toString(16).toUpperCase()}${thread.threadName ? ` · ${escapeHtml(thread.threadName)}` : ''}`;
 
-			// Show process list with warning information
-			panel.webview.html = getProcessListHTML(result.processes, warningType);
-}
+		return `
+			<details class="thread" ${userFrames > 0 ? 'open' : ''} data-user-frames="${userFrames}">
+				<summary>
+					<span class="thread-name">${titulo}</span>
+					<span class="thread-info">${thread.frames.length} frames${userFrames > 0 ? ` · ${userFrames} in your code` : ''}</span>
+				</summary>
+				<ol>${framesHTML}</ol>
+			</details>
+		`;
+	}).join('');
 
-// Función para generar HTML de loading
-function getLoadingHTML(mensaje: string): string {
 	return `
 		<!DOCTYPE html>
 		<html>
@@ -563,41 +5080,164 @@ function getLoadingHTML(mensaje: string): string {
 					font-family: var(--vscode-font-family);
 					color: var(--vscode-foreground);
 					background-color: var(--vscode-editor-background);
+					margin: 0;
+				}
+				h1 {
+					color: #4ec9b0;
+					margin-bottom: 10px;
+				}
+				.toolbar {
+					display: flex;
+					flex-wrap: wrap;
+					gap: 15px;
+					align-items: center;
+					margin-bottom: 15px;
+				}
+				input[type="text"] {
+					flex: 1;
+					min-width: 200px;
+					padding: 6px 10px;
+					background-color: var(--vscode-input-background);
+					color: var(--vscode-input-foreground);
+					border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+					border-radius: 4px;
+				}
+				button {
+					background-color: var(--vscode-button-background);
+					color: var(--vscode-button-foreground);
+					border: none;
+					padding: 6px 14px;
+					border-radius: 4px;
+					cursor: pointer;
+					font-family: var(--vscode-font-family);
+				}
+				button:hover {
+					background-color: var(--vscode-button-hoverBackground);
+				}
+				.thread {
+					background-color: var(--vscode-editor-inactiveSelectionBackground);
+					border: 1px solid var(--vscode-panel-border);
+					border-radius: 5px;
+					margin: 8px 0;
+					padding: 8px 12px;
+				}
+				summary {
+					cursor: pointer;
 					display: flex;
-					justify-content: center;
+					gap: 15px;
 					align-items: center;
-					height: 100vh;
-					margin: 0;
 				}
-				.loading {
-					text-align: center;
+				.thread-name {
+					font-weight: bold;
+					color: #4ec9b0;
 				}
-				.spinner {
-					border: 4px solid rgba(255, 255, 255, 0.1);
-					border-left-color: #4ec9b0;
-					border-radius: 50%;
-					width: 40px;
-					height: 40px;
-					animation: spin 1s linear infinite;
-					margin: 0 auto 20px;
+				.thread-info {
+					font-size: 0.85em;
+					color: var(--vscode-descriptionForeground);
 				}
-				@keyframes spin {
-					to { transform: rotate(360deg); }
+				ol {
+					margin: 8px 0 0 0;
+					padding-left: 30px;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+					font-size: 12px;
+				}
+				.frame {
+					padding: 2px 0;
+					word-break: break-all;
+				}
+				.frame.user {
+					color: var(--vscode-textLink-foreground);
+					cursor: pointer;
+				}
+				.frame.user:hover {
+					text-decoration: underline;
+				}
+				.frame.framework {
+					color: var(--vscode-descriptionForeground);
+				}
+				.hide-framework .frame.framework {
+					display: none;
+				}
+				.module {
+					margin-left: 10px;
+					font-size: 0.85em;
+					opacity: 0.6;
 				}
 			</style>
 		</head>
 		<body>
-			<div class="loading">
-				<div class="spinner"></div>
-				<p>${mensaje}</p>
+			<h1>🧵 Call Stacks - PID ${pid}</h1>
+			<div class="toolbar">
+				<input id="filter" type="text" placeholder="Filter threads by frame...">
+				<label><input id="hideFramework" type="checkbox"> Hide framework frames</label>
+				<label><input id="onlyUser" type="checkbox"> Only threads in your code</label>
+				<button onclick="vscode.postMessage({command: 'refrescar'})">🔄 Capture again</button>
 			</div>
+			<div id="threads">
+				${threadsHTML || '<p>No managed threads found</p>'}
+			</div>
+
+			<script>
+				const vscode = acquireVsCodeApi();
+
+				function abrirFrame(thread, frame) {
+					vscode.postMessage({ command: 'abrirFrame', thread, frame });
+				}
+
+				function aplicarFiltros() {
+					const filter = document.getElementById('filter').value.toLowerCase();
+					const onlyUser = document.getElementById('onlyUser').checked;
+					document.getElementById('threads').classList.toggle('hide-framework', document.getElementById('hideFramework').checked);
+					document.querySelectorAll('.thread').forEach(thread => {
+						const matchesFilter = !filter || thread.textContent.toLowerCase().includes(filter);
+						const matchesUser = !onlyUser || Number(thread.dataset.userFrames) > 0;
+						thread.hidden = !(matchesFilter && matchesUser);
+					});
+				}
+
+				document.getElementById('filter').addEventListener('input', aplicarFiltros);
+				document.getElementById('hideFramework').addEventListener('change', aplicarFiltros);
+				document.getElementById('onlyUser').addEventListener('change', aplicarFiltros);
+			</script>
 		</body>
 		</html>
 	`;
 }
 
-// Función para generar HTML de error
-function getErrorHTML(mensaje: string): string {
+// Función para generar HTML con el historial de excepciones agrupado por tipo
+function getExceptionsHTML(pid: number, grupos: ExceptionGroup[]): string {
+	const framesHTML = (frames: StackFrameInfo[], g: number, o: number) => frames.map((frame, f) => {
+		const framework = isFrameworkFrame(frame);
+		return `<li class="frame ${framework ? 'framework' : 'user'}" ${framework ? '' : `onclick="abrirFrame(${g}, ${o}, ${f})" title="Open in editor"`}>${escapeHtml(frame.display)}</li>`;
+	}).join('');
+
+	const gruposHTML = grupos.map((grupo, g) => {
+		const ocurrenciasHTML = grupo.occurrences.map((ocurrencia, o) => `
+			<details class="occurrence">
+				<summary>
+					<span class="time">${escapeHtml(ocurrencia.timestamp ? new Date(ocurrencia.timestamp).toLocaleString() : '')}</span>
+					<span class="message">${escapeHtml(ocurrencia.message)}</span>
+				</summary>
+				${ocurrencia.threadId !== null ? `<div class="thread">Thread 0x${ocurrencia.threadId.toString(16).toUpperCase()}</div>` : ''}
+				<ol>${framesHTML(ocurrencia.frames, g, o) || '<li class="frame framework">No stack trace</li>'}</ol>
+				${ocurrencia.innerExceptions.map(inner => `<div class="inner">Inner: ${escapeHtml(inner.typeName)}: ${escapeHtml(inner.message)}</div>`).join('')}
+			</details>
+		`).join('');
+
+		return `
+			<details class="group">
+				<summary>
+					<span class="count">${grupo.count}×</span>
+					<span class="type">${escapeHtml(grupo.typeName)}</span>
+					<span class="time">last ${escapeHtml(grupo.lastTimestamp ? new Date(grupo.lastTimestamp).toLocaleTimeString() : '')}</span>
+				</summary>
+				${ocurrenciasHTML}
+			</details>
+		`;
+	}).join('');
+
+	const total = grupos.reduce((suma, grupo) => suma + grupo.count, 0);
+
 	return `
 		<!DOCTYPE html>
 		<html>
@@ -608,67 +5248,169 @@ function getErrorHTML(mensaje: string): string {
 					font-family: var(--vscode-font-family);
 					color: var(--vscode-foreground);
 					background-color: var(--vscode-editor-background);
+					margin: 0;
 				}
-				.error {
-					color: #f48771;
-					font-size: 24px;
+				h1 {
+					color: #4ec9b0;
 					margin-bottom: 10px;
 				}
+				.toolbar {
+					display: flex;
+					flex-wrap: wrap;
+					gap: 10px;
+					align-items: center;
+					margin-bottom: 15px;
+				}
+				input[type="text"] {
+					flex: 1;
+					min-width: 200px;
+					padding: 6px 10px;
+					background-color: var(--vscode-input-background);
+					color: var(--vscode-input-foreground);
+					border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+					border-radius: 4px;
+				}
+				button {
+					background-color: var(--vscode-button-background);
+					color: var(--vscode-button-foreground);
+					border: none;
+					padding: 6px 14px;
+					border-radius: 4px;
+					cursor: pointer;
+					font-family: var(--vscode-font-family);
+				}
+				button:hover {
+					background-color: var(--vscode-button-hoverBackground);
+				}
+				#summary {
+					padding: 10px;
+					background-color: var(--vscode-textBlockQuote-background);
+					border-radius: 5px;
+					margin-bottom: 15px;
+					font-size: 14px;
+				}
+				.group {
+					background-color: var(--vscode-editor-inactiveSelectionBackground);
+					border: 1px solid var(--vscode-panel-border);
+					border-left: 3px solid #f48771;
+					border-radius: 5px;
+					margin: 8px 0;
+					padding: 8px 12px;
+				}
+				summary {
+					cursor: pointer;
+				}
+				.group > summary {
+					display: flex;
+					gap: 15px;
+					align-items: center;
+				}
+				.count {
+					font-weight: bold;
+					color: #f48771;
+					min-width: 40px;
+				}
+				.type {
+					font-weight: bold;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+				}
+				.time {
+					font-size: 0.85em;
+					color: var(--vscode-descriptionForeground);
+				}
+				.occurrence {
+					margin: 6px 0 6px 20px;
+				}
+				.occurrence .time {
+					margin-right: 10px;
+				}
+				.thread, .inner {
+					margin: 4px 0 0 20px;
+					font-size: 0.85em;
+					color: var(--vscode-descriptionForeground);
+				}
+				ol {
+					margin: 6px 0 0 0;
+					padding-left: 40px;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+					font-size: 12px;
+				}
+				.frame {
+					padding: 2px 0;
+					word-break: break-all;
+				}
+				.frame.user {
+					color: var(--vscode-textLink-foreground);
+					cursor: pointer;
+				}
+				.frame.user:hover {
+					text-decoration: underline;
+				}
+				.frame.framework {
+					color: var(--vscode-descriptionForeground);
+				}
 			</style>
 		</head>
 		<body>
-			<h1 class="error">❌ Error</h1>
-			<p>${mensaje}</p>
+			<h1>⚡ Exception History - PID ${pid}</h1>
+			<div class="toolbar">
+				<input id="filter" type="text" placeholder="Filter by type or message...">
+				<button onclick="vscode.postMessage({command: 'refrescar'})">🔄 Refresh</button>
+				<button onclick="vscode.postMessage({command: 'publicarProblems'})">⚠️ Publish to Problems</button>
+				<button onclick="vscode.postMessage({command: 'limpiarProblems'})">🧹 Clear Problems</button>
+			</div>
+			<div id="summary">${total} exception(s) of ${grupos.length} type(s)</div>
+			<div id="groups">
+				${gruposHTML || '<p>No exceptions recorded</p>'}
+			</div>
+
+			<script>
+				const vscode = acquireVsCodeApi();
+
+				function abrirFrame(grupo, ocurrencia, frame) {
+					vscode.postMessage({ command: 'abrirFrame', grupo, ocurrencia, frame });
+				}
+
+				document.getElementById('filter').addEventListener('input', (event) => {
+					const filter = event.target.value.toLowerCase();
+					document.querySelectorAll('.group').forEach(group => {
+						group.hidden = filter && !group.textContent.toLowerCase().includes(filter);
+					});
+				});
+			</script>
 		</body>
 		</html>
 	`;
 }
 
-// Función para generar HTML con lista de procesos
-function getProcessListHTML(procesos: any[], warningType: 'none' | 'no-processes' | 'no-debug-process' | 'no-active-debug' = 'none'): string {
-	const procesosHTML = procesos.map(proc => `
-		<div class="proceso-item ${proc.isDebugging ? 'debugging' : ''}" onclick="seleccionarProceso(${proc.pid})">
-			<div class="proceso-info">
-				<span class="proceso-pid">PID: ${proc.pid}</span>
-				<span class="proceso-name">${proc.name || 'N/A'}</span>
-				${proc.isDebugging ? '<span class="debug-badge">🐛 DEBUGGING</span>' : ''}
-			</div>
-			<div class="proceso-command">${proc.commandLine || 'N/A'}</div>
-		</div>
-	`).join('');
-
-	let warningMessage = '';
-	let warningDescription = '';
-	
-	if (warningType === 'no-processes') {
-		warningMessage = 'No .NET processes found';
-		warningDescription = 'Make sure your .NET application is running and try again.';
-	} else if (warningType === 'no-debug-process') {
-		warningMessage = 'Debug process not found';
-		warningDescription = 'An active debug session was detected, but the corresponding process could not be found. Make sure your application is running in debug mode and try again.';
-	} else if (warningType === 'no-active-debug') {
-		warningMessage = 'No active debug processes found';
-		warningDescription = 'There are .NET processes running, but none of them are currently being debugged. Start debugging your application to monitor it.';
-	}
-
-	const warningBanner = warningType !== 'none' ? `
-		<div class="warning-banner">
-			<div class="warning-content">
-				<span class="warning-icon">⚠️</span>
-				<div class="warning-text">
-					<strong>${warningMessage}</strong>
-					<p>${warningDescription}</p>
-				</div>
-			</div>
-			<button class="retry-button" onclick="searchAgain()">🔄 Search Again</button>
-		</div>
-	` : '';
+// Función para formatear una duración en segundos como "1d 2h 3m 4s"
+function formatearDuracion(segundos: number): string {
+	const partes = [
+		[Math.floor(segundos / 86400), 'd'],
+		[Math.floor(segundos % 86400 / 3600), 'h'],
+		[Math.floor(segundos % 3600 / 60), 'm'],
+		[segundos % 60, 's']
+	] as const;
+	const primera = partes.findIndex(([valor]) => valor > 0);
+	return partes.slice(primera < 0 ? 3 : primera).map(([valor, unidad]) => `${valor}${unidad}`).join(' ');
+}
 
-	const reloadButton = warningType === 'none' ? `
-		<div style="text-align: center; margin-top: 20px;">
-			<button class="reload-button" onclick="searchAgain()">🔄 Reload Processes</button>
-		</div>
-	` : '';
+// Función para generar HTML con los detalles de un proceso y su entorno
+function getProcessDetailsHTML(detalle: any, info: any, variables: { clave: string; valor: string | null }[], uptime?: number | string): string {
+	const fila = (nombre: string, valor: unknown) => `
+		<tr>
+			<th>${nombre}</th>
+			<td>${valor !== undefined && valor !== null && valor !== '' ? escapeHtml(String(valor)) : '<span class="na">N/A</span>'}</td>
+		</tr>
+	`;
+	const variablesHTML = variables.map(v => `
+		<tr class="env-row" data-search="${escapeHtml((v.clave + ' ' + (v.valor ?? '')).toLowerCase())}">
+			<td class="env-key">${escapeHtml(v.clave)}</td>
+			<td class="env-value">${v.valor === null
+				? `<span class="masked" data-clave="${escapeHtml(v.clave)}" title="Click to reveal">••••••••</span>`
+				: escapeHtml(v.valor)}</td>
+		</tr>
+	`).join('');
 
 	return `
 		<!DOCTYPE html>
@@ -684,155 +5426,325 @@ function getProcessListHTML(procesos: any[], warningType: 'none' | 'no-processes
 				}
 				h1 {
 					color: #4ec9b0;
-					margin-bottom: 20px;
+					margin-bottom: 10px;
 				}
-				.warning-banner {
-					background-color: rgba(255, 193, 7, 0.15);
-					border: 1px solid #ffc107;
+				h2 {
+					color: #569cd6;
+					font-size: 18px;
+					margin-top: 30px;
+					margin-bottom: 15px;
+					border-bottom: 2px solid var(--vscode-panel-border);
+					padding-bottom: 5px;
+				}
+				table {
+					width: 100%;
+					border-collapse: collapse;
+					font-size: 13px;
+				}
+				th {
+					text-align: left;
+					width: 200px;
+					padding: 6px 8px;
+					color: var(--vscode-descriptionForeground);
+					font-weight: 500;
+					vertical-align: top;
+				}
+				td {
+					padding: 6px 8px;
+					border-bottom: 1px solid var(--vscode-panel-border);
+					word-break: break-all;
+				}
+				.na {
+					color: var(--vscode-disabledForeground);
+				}
+				.command-line {
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+					font-size: 12px;
+					padding: 10px;
+					background-color: var(--vscode-textBlockQuote-background);
 					border-radius: 5px;
-					padding: 15px;
-					margin-bottom: 20px;
-					display: flex;
-					justify-content: space-between;
-					align-items: center;
+					white-space: pre-wrap;
+					word-break: break-all;
 				}
-				.warning-content {
-					display: flex;
-					gap: 15px;
-					align-items: flex-start;
+				input {
+					width: 100%;
+					box-sizing: border-box;
+					padding: 6px 10px;
+					margin-bottom: 10px;
+					background-color: var(--vscode-input-background);
+					color: var(--vscode-input-foreground);
+					border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+					border-radius: 4px;
 				}
-				.warning-icon {
-					font-size: 24px;
-					line-height: 1;
+				.env-key {
+					width: 35%;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+					color: #4ec9b0;
 				}
-				.warning-text {
-					flex: 1;
+				.env-value {
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
 				}
-				.warning-text strong {
+				.masked {
+					cursor: pointer;
 					color: #ffc107;
-					display: block;
-					margin-bottom: 5px;
 				}
-				.warning-text p {
+			</style>
+		</head>
+		<body>
+			<h1>ℹ️ ${escapeHtml(detalle.name ?? 'Process')} - PID ${escapeHtml(String(detalle.pid ?? ''))}</h1>
+
+			<h2>⚙️ Runtime</h2>
+			<table>
+				${fila('Process name', detalle.name)}
+				${fila('Architecture', detalle.processArchitecture)}
+				${fila('Operating system', detalle.operatingSystem)}
+				${fila('Uptime', typeof uptime === 'number' ? formatearDuracion(uptime) : uptime)}
+				${fila('Runtime instance', detalle.uid)}
+				${fila('dotnet-monitor version', info.version)}
+				${fila('dotnet-monitor runtime', info.runtimeVersion)}
+			</table>
+
+			<h2>💻 Command Line</h2>
+			<div class="command-line">${escapeHtml(detalle.commandLine ?? 'N/A')}</div>
+
+			<h2>🌍 Environment (${variables.length})</h2>
+			<input id="filter" type="text" placeholder="Search variables...">
+			<table>
+				${variablesHTML || '<tr><td class="na">No environment variables available</td></tr>'}
+			</table>
+
+			<script>
+				const vscode = acquireVsCodeApi();
+
+				document.getElementById('filter').addEventListener('input', (event) => {
+					const filter = event.target.value.toLowerCase();
+					document.querySelectorAll('.env-row').forEach(row => {
+						row.hidden = filter && !row.dataset.search.includes(filter);
+					});
+				});
+
+				// Los secretos se piden a la extensión sólo cuando el usuario los revela
+				document.querySelectorAll('.masked').forEach(masked => {
+					masked.addEventListener('click', () => {
+						vscode.postMessage({ command: 'revelar', clave: masked.dataset.clave });
+					});
+				});
+
+				window.addEventListener('message', event => {
+					const { command, data } = event.data;
+					if (command === 'valorRevelado') {
+						document.querySelectorAll('.masked').forEach(masked => {
+							if (masked.dataset.clave === data.clave) {
+								masked.replaceWith(document.createTextNode(data.valor));
+							}
+						});
+					}
+				});
+			</script>
+		</body>
+		</html>
+	`;
+}
+
+// Función para generar HTML del estado de las reglas de recogida (la tabla se rellena con los mensajes estadoReglas)
+function getCollectionRulesHTML(pid: number): string {
+	return `
+		<!DOCTYPE html>
+		<html>
+		<head>
+			<style>
+				body {
+					padding: 20px;
+					font-family: var(--vscode-font-family);
+					color: var(--vscode-foreground);
+					background-color: var(--vscode-editor-background);
 					margin: 0;
-					font-size: 0.9em;
-					color: var(--vscode-descriptionForeground);
 				}
-				.retry-button {
-					background-color: #ffc107;
-					color: #000;
-					border: none;
-					padding: 8px 16px;
-					border-radius: 4px;
-					cursor: pointer;
-					font-weight: bold;
-					font-size: 0.9em;
-					transition: background-color 0.2s;
+				h1 {
+					color: #4ec9b0;
+					margin-bottom: 10px;
 				}
-				.retry-button:hover {
-					background-color: #ffb300;
+				.toolbar {
+					display: flex;
+					flex-wrap: wrap;
+					gap: 10px;
+					align-items: center;
+					margin-bottom: 15px;
 				}
-				.reload-button {
+				button {
 					background-color: var(--vscode-button-background);
 					color: var(--vscode-button-foreground);
 					border: none;
-					padding: 10px 20px;
+					padding: 6px 14px;
 					border-radius: 4px;
 					cursor: pointer;
-					font-weight: bold;
-					font-size: 0.95em;
-					transition: background-color 0.2s;
+					font-family: var(--vscode-font-family);
 				}
-				.reload-button:hover {
+				button:hover {
 					background-color: var(--vscode-button-hoverBackground);
 				}
-				.proceso-item {
-					padding: 15px;
-					margin: 10px 0;
-					background-color: var(--vscode-editor-inactiveSelectionBackground);
-					border: 1px solid var(--vscode-panel-border);
+				#summary {
+					padding: 10px;
+					background-color: var(--vscode-textBlockQuote-background);
 					border-radius: 5px;
-					cursor: pointer;
-					transition: all 0.2s;
+					margin-bottom: 15px;
+					font-size: 14px;
 				}
-				.proceso-item:hover {
-					background-color: var(--vscode-list-hoverBackground);
-					border-color: #4ec9b0;
+				#summary.error {
+					border-left: 3px solid #f48771;
 				}
-				.proceso-info {
-					display: flex;
-					gap: 20px;
-					margin-bottom: 5px;
-					align-items: center;
+				table {
+					width: 100%;
+					border-collapse: collapse;
+					font-size: 13px;
 				}
-				.proceso-pid {
-					font-weight: bold;
-					color: #4ec9b0;
+				th, td {
+					text-align: left;
+					padding: 6px 10px;
+					border-bottom: 1px solid var(--vscode-panel-border);
+					vertical-align: top;
 				}
-				.proceso-name {
-					color: var(--vscode-foreground);
+				th {
+					color: var(--vscode-descriptionForeground);
+					font-weight: normal;
 				}
-				.debug-badge {
-					background-color: #f48771;
-					color: #000;
-					padding: 2px 8px;
-					border-radius: 4px;
-					font-size: 0.75em;
+				td.number {
+					text-align: right;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+				}
+				.rule-name {
 					font-weight: bold;
-					margin-left: 10px;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
 				}
-				.proceso-item.debugging {
-					border-left: 3px solid #f48771;
-					background-color: rgba(244, 135, 113, 0.1);
+				.state {
+					display: inline-block;
+					padding: 2px 8px;
+					border-radius: 10px;
+					font-size: 12px;
+					background-color: var(--vscode-badge-background);
+					color: var(--vscode-badge-foreground);
 				}
-				.proceso-command {
-					font-size: 0.9em;
-					color: var(--vscode-descriptionForeground);
-					font-family: monospace;
+				.state.Running {
+					background-color: #4ec9b0;
+					color: #1e1e1e;
 				}
-				.empty-message {
-					text-align: center;
-					padding: 40px 20px;
-					color: var(--vscode-descriptionForeground);
+				.state.ActionExecuting, .state.Throttled {
+					background-color: #dcdcaa;
+					color: #1e1e1e;
 				}
-				.empty-message p {
-					font-size: 1.1em;
-					margin: 0;
+				.state.Finished {
+					background-color: var(--vscode-disabledForeground);
+				}
+				.reason {
+					color: var(--vscode-descriptionForeground);
 				}
 			</style>
 		</head>
 		<body>
-			<h1>🔍 Select a .NET Process</h1>
-			${reloadButton}
-			${warningBanner}
-			<div id="lista-procesos">
-				${procesosHTML}
+			<h1>📋 Collection Rules - PID ${pid}</h1>
+			<div class="toolbar">
+				<button onclick="vscode.postMessage({command: 'refrescar'})">🔄 Refresh</button>
+				<button onclick="vscode.postMessage({command: 'agregarRegla'})">➕ New rule</button>
+				<button onclick="vscode.postMessage({command: 'editarReglas'})">📝 Edit rules file</button>
 			</div>
-			
-			
+			<div id="summary">⏳ Loading collection rules...</div>
+			<table hidden>
+				<thead>
+					<tr>
+						<th>Rule</th>
+						<th>State</th>
+						<th>Reason</th>
+						<th title="Operations and egress artifacts of the process since the rule last triggered">Last action</th>
+						<th title="Times the trigger fired since the rule started">Triggered</th>
+						<th title="Times the actions ran in the current sliding window">In window</th>
+						<th>Action limit</th>
+						<th>Countdown</th>
+					</tr>
+				</thead>
+				<tbody id="rules"></tbody>
+			</table>
+
 			<script>
 				const vscode = acquireVsCodeApi();
-				
-				function seleccionarProceso(pid) {
-					vscode.postMessage({
-						command: 'seleccionarProceso',
-						pid: pid
-					});
+
+				const ICONOS_ACCION = { Running: '⏳', Succeeded: '✅', Failed: '❌', NoArtifacts: '⏺️' };
+
+				// Resultado de las acciones del último disparo: artefactos escritos o el error de la operación
+				function textoUltimaAccion(regla) {
+					const accion = regla.lastAction;
+					if (!accion) {
+						return regla.lifetimeOccurrences > 0 ? 'No operations or egress artifacts found' : 'Not triggered yet';
+					}
+					const detalle = accion.status === 'Failed'
+						? 'Failed: ' + (accion.error || 'unknown error')
+						: accion.status === 'Running'
+							? 'Running'
+							: accion.artifacts.length === 0 ? 'No artifacts written yet' : '';
+					return ICONOS_ACCION[accion.status] + ' ' + new Date(accion.at).toLocaleTimeString()
+						+ (detalle ? ' · ' + detalle : '')
+						+ (accion.artifacts.length > 0 ? ' · ' + accion.artifacts.join(', ') : '');
 				}
-				
-				function searchAgain() {
-					vscode.postMessage({
-						command: 'obtenerProcesos'
-					});
+
+				function celda(fila, texto, clase) {
+					const td = document.createElement('td');
+					td.textContent = texto ?? '';
+					if (clase) {
+						td.className = clase;
+					}
+					fila.appendChild(td);
+					return td;
 				}
+
+				window.addEventListener('message', event => {
+					const { command, data } = event.data;
+					const summary = document.getElementById('summary');
+					const tabla = document.querySelector('table');
+
+					if (command === 'errorReglas') {
+						summary.className = 'error';
+						summary.textContent = '❌ Could not get the collection rules: ' + data;
+						return;
+					}
+
+					if (command === 'estadoReglas') {
+						summary.className = '';
+						summary.textContent = data.length === 0
+							? 'No collection rules apply to this process. Create one with "New rule" and restart dotnet-monitor.'
+							: data.length + ' rule(s) · updated ' + new Date().toLocaleTimeString();
+						tabla.hidden = data.length === 0;
+
+						const cuerpo = document.getElementById('rules');
+						cuerpo.innerHTML = '';
+						data.forEach(regla => {
+							const fila = document.createElement('tr');
+							celda(fila, regla.name, 'rule-name');
+							const estado = document.createElement('span');
+							estado.className = 'state ' + regla.state;
+							estado.textContent = regla.state;
+							celda(fila, '').appendChild(estado);
+							celda(fila, regla.stateReason, 'reason');
+							celda(fila, textoUltimaAccion(regla), 'reason');
+							celda(fila, regla.lifetimeOccurrences, 'number');
+							celda(fila, regla.slidingWindowOccurrences, 'number');
+							celda(fila, regla.actionCountLimit !== undefined
+								? regla.actionCountLimit + (regla.actionCountSlidingWindowDurationLimit ? ' / ' + regla.actionCountSlidingWindowDurationLimit : '')
+								: '', 'number');
+							celda(fila, regla.slidingWindowDurationCountdown || regla.ruleFinishedCountdown || '', 'number');
+							cuerpo.appendChild(fila);
+						});
+					}
+				});
 			</script>
 		</body>
 		</html>
 	`;
 }
 
-// Función para generar HTML con gráficos de métricas
-function getMetricsHTML(pid: number): string {
+// Función para generar HTML con gráficos de métricas. Con reproduccion muestra una sesión grabada
+// con controles de reproducción en lugar de las acciones sobre el proceso
+function getMetricsHTML(pid: number, reproduccion?: { nombre: string; total: number; proceso?: string; velocidad: string }): string {
+	const opcionVelocidad = (valor: string, texto: string) =>
+		`<option value="${valor}"${reproduccion?.velocidad === valor ? ' selected' : ''}>${texto}</option>`;
 	return `
 		<!DOCTYPE html>
 		<html>
@@ -885,310 +5797,737 @@ function getMetricsHTML(pid: number): string {
 					border-color: #4ec9b0;
 					box-shadow: 0 2px 8px rgba(78, 201, 176, 0.2);
 				}
-				.metric-label {
+				.metric-label {
+					font-size: 12px;
+					color: var(--vscode-descriptionForeground);
+					margin-bottom: 5px;
+					display: flex;
+					justify-content: space-between;
+					align-items: center;
+				}
+				.metric-name {
+					font-weight: 500;
+				}
+				.metric-unit {
+					font-size: 10px;
+					opacity: 0.7;
+				}
+				.metric-value {
+					font-size: 24px;
+					font-weight: 600;
+					color: #4ec9b0;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+				}
+				.metric-updated {
+					opacity: 0;
+					animation: pulse 0.3s ease-in-out;
+				}
+				@keyframes pulse {
+					0%, 100% { opacity: 0; }
+					50% { opacity: 1; }
+				}
+				.no-data {
+					color: var(--vscode-disabledForeground);
+				}
+				.chart-container {
+					background-color: var(--vscode-editor-inactiveSelectionBackground);
+					border: 1px solid var(--vscode-panel-border);
+					border-radius: 5px;
+					padding: 20px;
+					margin: 20px 0;
+					height: 300px;
+					position: relative;
+				}
+				.charts-row {
+					display: grid;
+					grid-template-columns: 1fr 1fr;
+					gap: 20px;
+				}
+				@media (max-width: 1200px) {
+					.charts-row {
+						grid-template-columns: 1fr;
+					}
+				}
+				button {
+					background-color: var(--vscode-button-background);
+					color: var(--vscode-button-foreground);
+					border: none;
+					padding: 10px 20px;
+					border-radius: 4px;
+					cursor: pointer;
+					font-size: 14px;
+					font-family: var(--vscode-font-family);
+					transition: background-color 0.2s;
+					margin: 10px 0;
+				}
+				button:hover {
+					background-color: var(--vscode-button-hoverBackground);
+				}
+				button:active {
+					background-color: var(--vscode-button-hoverBackground);
+					opacity: 0.8;
+				}
+				.actions {
+					display: flex;
+					flex-wrap: wrap;
+					gap: 10px;
+				}
+				#trace-status {
+					padding: 10px;
+					border-radius: 5px;
+					margin-bottom: 20px;
+					font-size: 14px;
+					border-left: 3px solid #f48771;
+					background-color: rgba(244, 135, 113, 0.1);
+				}
+				#trace-status.done {
+					border-left-color: #4ec9b0;
+					background-color: rgba(78, 201, 176, 0.1);
+				}
+				button:disabled {
+					opacity: 0.5;
+					cursor: default;
+				}
+				#record-button.recording {
+					background-color: #f48771;
+					color: #1e1e1e;
+				}
+				.actions select {
+					padding: 6px 10px;
+					background-color: var(--vscode-input-background);
+					color: var(--vscode-input-foreground);
+					border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+					border-radius: 4px;
+					font-family: var(--vscode-font-family);
+				}
+				.metric-card.alert-firing {
+					border-color: #f48771;
+					background-color: rgba(244, 135, 113, 0.15);
+				}
+				.metric-card.alert-firing .metric-value {
+					color: #f48771;
+				}
+				/* Comparación con una baseline: colores según la gravedad de la diferencia */
+				#baseline-summary {
+					margin-bottom: 10px;
+					font-size: 13px;
+				}
+				.baseline-table {
+					width: 100%;
+					border-collapse: collapse;
+					font-size: 12px;
+					margin-bottom: 20px;
+				}
+				.baseline-table th, .baseline-table td {
+					padding: 4px 8px;
+					text-align: right;
+					border-bottom: 1px solid var(--vscode-panel-border);
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+				}
+				.baseline-table th:first-child, .baseline-table td:first-child {
+					text-align: left;
+				}
+				.baseline-table th {
+					color: var(--vscode-descriptionForeground);
+					font-weight: 500;
+				}
+				.baseline-table .group-start {
+					border-left: 1px solid var(--vscode-panel-border);
+				}
+				.baseline-delta {
+					display: inline-block;
+					margin-top: 4px;
+					font-size: 11px;
+					font-weight: 600;
+				}
+				.sev-critical {
+					color: #f48771;
+				}
+				.sev-major {
+					color: #ce9178;
+				}
+				.sev-minor {
+					color: #dcdcaa;
+				}
+				.sev-improved {
+					color: #4ec9b0;
+				}
+				.sev-unchanged {
+					color: var(--vscode-descriptionForeground);
+				}
+				/* En una sesión grabada no hay proceso sobre el que actuar ni logs */
+				body.replay .section-action, body.replay .tabs {
+					display: none;
+				}
+				.tabs {
+					display: flex;
+					gap: 5px;
+					border-bottom: 2px solid var(--vscode-panel-border);
+					margin-bottom: 10px;
+				}
+				.tab {
+					background-color: transparent;
+					color: var(--vscode-foreground);
+					border-radius: 4px 4px 0 0;
+					margin: 0;
+					opacity: 0.7;
+				}
+				.tab:hover {
+					background-color: var(--vscode-list-hoverBackground);
+				}
+				.tab.active {
+					background-color: var(--vscode-editor-inactiveSelectionBackground);
+					border-bottom: 2px solid #4ec9b0;
+					opacity: 1;
+				}
+				.log-toolbar {
+					display: flex;
+					flex-wrap: wrap;
+					gap: 10px;
+					align-items: center;
+					margin: 10px 0;
+				}
+				.log-toolbar input, .log-toolbar select {
+					padding: 6px 10px;
+					background-color: var(--vscode-input-background);
+					color: var(--vscode-input-foreground);
+					border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+					border-radius: 4px;
+					font-family: var(--vscode-font-family);
+				}
+				.log-toolbar input {
+					flex: 1;
+					min-width: 150px;
+				}
+				.log-button {
+					padding: 6px 14px;
+					margin: 0;
+				}
+				#log-status {
 					font-size: 12px;
 					color: var(--vscode-descriptionForeground);
-					margin-bottom: 5px;
-					display: flex;
-					justify-content: space-between;
-					align-items: center;
+					margin-bottom: 8px;
 				}
-				.metric-name {
-					font-weight: 500;
+				#log-list {
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+					font-size: 12px;
+					border: 1px solid var(--vscode-panel-border);
+					border-radius: 5px;
+					max-height: 70vh;
+					overflow-y: auto;
 				}
-				.metric-unit {
-					font-size: 10px;
-					opacity: 0.7;
+				.log-entry {
+					padding: 4px 8px;
+					border-bottom: 1px solid var(--vscode-panel-border);
+					cursor: pointer;
 				}
-				.metric-value {
-					font-size: 24px;
-					font-weight: 600;
-					color: #4ec9b0;
-					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
+				.log-entry:hover {
+					background-color: var(--vscode-list-hoverBackground);
 				}
-				.metric-updated {
-					opacity: 0;
-					animation: pulse 0.3s ease-in-out;
+				.log-time {
+					color: var(--vscode-descriptionForeground);
+					margin-right: 8px;
 				}
-				@keyframes pulse {
-					0%, 100% { opacity: 0; }
-					50% { opacity: 1; }
+				.log-level {
+					display: inline-block;
+					min-width: 90px;
+					font-weight: bold;
 				}
-				.no-data {
-					color: var(--vscode-disabledForeground);
+				.log-level.l0, .log-level.l1 {
+					color: var(--vscode-descriptionForeground);
 				}
-				.chart-container {
-					background-color: var(--vscode-editor-inactiveSelectionBackground);
-					border: 1px solid var(--vscode-panel-border);
-					border-radius: 5px;
-					padding: 20px;
-					margin: 20px 0;
-					height: 300px;
-					position: relative;
+				.log-level.l2 {
+					color: #4ec9b0;
 				}
-				.charts-row {
-					display: grid;
-					grid-template-columns: 1fr 1fr;
-					gap: 20px;
+				.log-level.l3 {
+					color: #ffc107;
 				}
-				@media (max-width: 1200px) {
-					.charts-row {
-						grid-template-columns: 1fr;
-					}
+				.log-level.l4, .log-level.l5 {
+					color: #f48771;
 				}
-				button {
-					background-color: var(--vscode-button-background);
-					color: var(--vscode-button-foreground);
-					border: none;
-					padding: 10px 20px;
+				.log-category {
+					color: #569cd6;
+					margin-right: 8px;
+				}
+				.log-details {
+					margin: 6px 0 2px 0;
+					padding: 8px;
+					background-color: var(--vscode-textBlockQuote-background);
 					border-radius: 4px;
-					cursor: pointer;
+					white-space: pre-wrap;
+					word-break: break-all;
+					cursor: text;
+				}
+				h3.provider-name {
 					font-size: 14px;
-					font-family: var(--vscode-font-family);
-					transition: background-color 0.2s;
-					margin: 10px 0;
+					color: var(--vscode-descriptionForeground);
+					margin: 15px 0 10px 0;
+					font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
 				}
-				button:hover {
-					background-color: var(--vscode-button-hoverBackground);
+				.section-header {
+					display: flex;
+					justify-content: space-between;
+					align-items: center;
 				}
-				button:active {
-					background-color: var(--vscode-button-hoverBackground);
-					opacity: 0.8;
+				.section-action {
+					padding: 4px 12px;
+					font-size: 12px;
+					margin: 0;
 				}
 			</style>
 		</head>
-		<body>
+		<body class="${reproduccion ? 'replay' : ''}">
+			${reproduccion ? `
+			<h1>📼 Recorded session - ${reproduccion.proceso ? `${escapeHtml(reproduccion.proceso)} ` : ''}PID ${pid}</h1>
+			<div class="actions">
+				<select id="replay-speed" title="Playback speed">
+					${opcionVelocidad('1', '1x')}
+					${opcionVelocidad('10', '10x')}
+					${opcionVelocidad('all', 'All at once')}
+				</select>
+				<button id="replay-play">⏸️ Pause</button>
+				<button onclick="vscode.postMessage({command: 'reiniciarReproduccion'})">⏮️ Restart</button>
+				<button onclick="vscode.postMessage({command: 'exportarMetricas', pid: ${pid}})" title="Export the whole recording to CSV or JSON">📤 Export</button>
+				<button onclick="vscode.postMessage({command: 'gestionarBaseline', pid: ${pid}})" title="Save the recording as a baseline or compare it with a saved one">📐 Baseline</button>
+			</div>
+			<div id="trace-status" hidden></div>
+			<div id="status">📼 ${escapeHtml(reproduccion.nombre)} · ${reproduccion.total} records</div>` : `
 			<h1>📊 Real-time Metrics - PID ${pid}</h1>
-			<button onclick="vscode.postMessage({command: 'backToList'})">← Back to process list</button>
-			<div id="status">⏳ Waiting for metrics...</div>
+			<div class="actions">
+				<button onclick="vscode.postMessage({command: 'backToList'})">← Back to process list</button>
+				<button onclick="vscode.postMessage({command: 'capturarDump', pid: ${pid}})">💾 Capture Dump</button>
+				<button id="trace-button" onclick="vscode.postMessage({command: 'grabarTrace', pid: ${pid}})">⏺️ Record trace</button>
+				<button id="record-button" onclick="vscode.postMessage({command: 'alternarGrabacion', pid: ${pid}})" title="Save every metric record received to a session file that can be replayed later">📼 Record session</button>
+				<button onclick="vscode.postMessage({command: 'exportarMetricas', pid: ${pid}})" title="Export every metric received in this session to CSV or JSON">📤 Export</button>
+				<button onclick="vscode.postMessage({command: 'gestionarBaseline', pid: ${pid}})" title="Save this session as a baseline or compare it with a saved one">📐 Baseline</button>
+				<button onclick="vscode.postMessage({command: 'mostrarAlertas'})" title="Alerts fired by the dotnetMonitor.alerts rules">🔔 Alerts</button>
+				<button onclick="vscode.postMessage({command: 'capturarFlameGraph', pid: ${pid}})">🔥 Flame graph</button>
+				<button onclick="vscode.postMessage({command: 'mostrarDetalles', pid: ${pid}})">ℹ️ Details</button>
+				<button onclick="vscode.postMessage({command: 'mostrarReglas', pid: ${pid}})">📋 Rules</button>
+			</div>
+			<div id="trace-status" hidden></div>
+			<div id="status">⏳ Waiting for metrics...</div>`}
 			
-			<h2>📈 Real-time Charts</h2>
-			<div class="charts-row">
-				<div class="chart-container">
-					<canvas id="cpuChart"></canvas>
+			<div class="tabs">
+				<button class="tab active" data-tab="metrics">📊 Metrics</button>
+				<button class="tab" data-tab="logs">📜 Logs</button>
+			</div>
+
+			<div id="tab-metrics" class="tab-content">
+				<div id="baseline-section" hidden>
+					<h2 id="baseline-title">📐 Baseline</h2>
+					<div id="baseline-summary"></div>
+					<table class="baseline-table">
+						<thead>
+							<tr>
+								<th rowspan="2">Metric</th>
+								<th colspan="4" class="group-start">Baseline</th>
+								<th colspan="4" class="group-start">This session</th>
+								<th rowspan="2" class="group-start">Δ avg</th>
+							</tr>
+							<tr>
+								<th class="group-start">min</th><th>avg</th><th>p95</th><th>max</th>
+								<th class="group-start">min</th><th>avg</th><th>p95</th><th>max</th>
+							</tr>
+						</thead>
+						<tbody id="baseline-rows"></tbody>
+					</table>
 				</div>
-				<div class="chart-container">
-					<canvas id="memoryChart"></canvas>
+
+				<h2>📈 Real-time Charts</h2>
+				<div class="charts-row">
+					<div class="chart-container">
+						<canvas id="cpuChart"></canvas>
+					</div>
+					<div class="chart-container">
+						<canvas id="memoryChart"></canvas>
+					</div>
 				</div>
-			</div>
 			
-			<h2>💻 CPU & Performance</h2>
-			<div class="metrics-grid">
-				<div class="metric-card" id="card-cpu-usage">
-					<div class="metric-label">
-						<span class="metric-name">CPU Usage</span>
-						<span class="metric-unit">%</span>
+				<h2>💻 CPU & Performance</h2>
+				<div class="metrics-grid">
+					<div class="metric-card" id="card-cpu-usage">
+						<div class="metric-label">
+							<span class="metric-name">CPU Usage</span>
+							<span class="metric-unit">%</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-time-in-jit">
-					<div class="metric-label">
-						<span class="metric-name">Time in JIT</span>
-						<span class="metric-unit">ms</span>
+					<div class="metric-card" id="card-time-in-jit">
+						<div class="metric-label">
+							<span class="metric-name">Time in JIT</span>
+							<span class="metric-unit">ms</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-methods-jitted-count">
-					<div class="metric-label">
-						<span class="metric-name">Methods JIT Compiled</span>
-						<span class="metric-unit">count</span>
+					<div class="metric-card" id="card-methods-jitted-count">
+						<div class="metric-label">
+							<span class="metric-name">Methods JIT Compiled</span>
+							<span class="metric-unit">count</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-il-bytes-jitted">
-					<div class="metric-label">
-						<span class="metric-name">IL Bytes JIT Compiled</span>
-						<span class="metric-unit">bytes</span>
+					<div class="metric-card" id="card-il-bytes-jitted">
+						<div class="metric-label">
+							<span class="metric-name">IL Bytes JIT Compiled</span>
+							<span class="metric-unit">bytes</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
 				</div>
-			</div>
 
-			<h2>🧠 Memory</h2>
-			<div class="metrics-grid">
-				<div class="metric-card" id="card-working-set">
-					<div class="metric-label">
-						<span class="metric-name">Working Set</span>
-						<span class="metric-unit">MB</span>
+				<h2>🧠 Memory</h2>
+				<div class="metrics-grid">
+					<div class="metric-card" id="card-working-set">
+						<div class="metric-label">
+							<span class="metric-name">Working Set</span>
+							<span class="metric-unit">MB</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-gc-heap-size">
-					<div class="metric-label">
-						<span class="metric-name">GC Heap Size</span>
-						<span class="metric-unit">MB</span>
+					<div class="metric-card" id="card-gc-heap-size">
+						<div class="metric-label">
+							<span class="metric-name">GC Heap Size</span>
+							<span class="metric-unit">MB</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-gc-committed">
-					<div class="metric-label">
-						<span class="metric-name">GC Committed</span>
-						<span class="metric-unit">MB</span>
+					<div class="metric-card" id="card-gc-committed">
+						<div class="metric-label">
+							<span class="metric-name">GC Committed</span>
+							<span class="metric-unit">MB</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-alloc-rate">
-					<div class="metric-label">
-						<span class="metric-name">Allocation Rate</span>
-						<span class="metric-unit">bytes/sec</span>
+					<div class="metric-card" id="card-alloc-rate">
+						<div class="metric-label">
+							<span class="metric-name">Allocation Rate</span>
+							<span class="metric-unit">bytes/sec</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
 				</div>
-			</div>
 
-			<h2>🗑️ Garbage Collection</h2>
-			<div class="metrics-grid">
-				<div class="metric-card" id="card-gen-0-gc-count">
-					<div class="metric-label">
-						<span class="metric-name">Gen 0 GC Count</span>
-						<span class="metric-unit">count</span>
+				<h2>🗑️ Garbage Collection</h2>
+				<div class="metrics-grid">
+					<div class="metric-card" id="card-gen-0-gc-count">
+						<div class="metric-label">
+							<span class="metric-name">Gen 0 GC Count</span>
+							<span class="metric-unit">count</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-gen-1-gc-count">
-					<div class="metric-label">
-						<span class="metric-name">Gen 1 GC Count</span>
-						<span class="metric-unit">count</span>
+					<div class="metric-card" id="card-gen-1-gc-count">
+						<div class="metric-label">
+							<span class="metric-name">Gen 1 GC Count</span>
+							<span class="metric-unit">count</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-gen-2-gc-count">
-					<div class="metric-label">
-						<span class="metric-name">Gen 2 GC Count</span>
-						<span class="metric-unit">count</span>
+					<div class="metric-card" id="card-gen-2-gc-count">
+						<div class="metric-label">
+							<span class="metric-name">Gen 2 GC Count</span>
+							<span class="metric-unit">count</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-time-in-gc">
-					<div class="metric-label">
-						<span class="metric-name">Time in GC</span>
-						<span class="metric-unit">%</span>
+					<div class="metric-card" id="card-time-in-gc">
+						<div class="metric-label">
+							<span class="metric-name">Time in GC</span>
+							<span class="metric-unit">%</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-gc-fragmentation">
-					<div class="metric-label">
-						<span class="metric-name">GC Fragmentation</span>
-						<span class="metric-unit">%</span>
+					<div class="metric-card" id="card-gc-fragmentation">
+						<div class="metric-label">
+							<span class="metric-name">GC Fragmentation</span>
+							<span class="metric-unit">%</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-total-pause-time-by-gc">
-					<div class="metric-label">
-						<span class="metric-name">Total Pause Time</span>
-						<span class="metric-unit">ms</span>
+					<div class="metric-card" id="card-total-pause-time-by-gc">
+						<div class="metric-label">
+							<span class="metric-name">Total Pause Time</span>
+							<span class="metric-unit">ms</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
 				</div>
-			</div>
 
-			<h2>📦 GC Generations Size</h2>
-			<div class="metrics-grid">
-				<div class="metric-card" id="card-gen-0-size">
-					<div class="metric-label">
-						<span class="metric-name">Gen 0 Size</span>
-						<span class="metric-unit">MB</span>
+				<h2 class="section-header">
+					<span>📦 GC Generations Size</span>
+					<span>
+						<button class="section-action" onclick="vscode.postMessage({command: 'capturarGcDump', pid: ${pid}})">📸 Snapshot heap</button>
+						<button class="section-action" onclick="vscode.postMessage({command: 'compararHeapSnapshots', pid: ${pid}})">🔀 Compare snapshots</button>
+					</span>
+				</h2>
+				<div class="metrics-grid">
+					<div class="metric-card" id="card-gen-0-size">
+						<div class="metric-label">
+							<span class="metric-name">Gen 0 Size</span>
+							<span class="metric-unit">MB</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-gen-1-size">
-					<div class="metric-label">
-						<span class="metric-name">Gen 1 Size</span>
-						<span class="metric-unit">MB</span>
+					<div class="metric-card" id="card-gen-1-size">
+						<div class="metric-label">
+							<span class="metric-name">Gen 1 Size</span>
+							<span class="metric-unit">MB</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-gen-2-size">
-					<div class="metric-label">
-						<span class="metric-name">Gen 2 Size</span>
-						<span class="metric-unit">MB</span>
+					<div class="metric-card" id="card-gen-2-size">
+						<div class="metric-label">
+							<span class="metric-name">Gen 2 Size</span>
+							<span class="metric-unit">MB</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-loh-size">
-					<div class="metric-label">
-						<span class="metric-name">LOH Size</span>
-						<span class="metric-unit">MB</span>
+					<div class="metric-card" id="card-loh-size">
+						<div class="metric-label">
+							<span class="metric-name">LOH Size</span>
+							<span class="metric-unit">MB</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-poh-size">
-					<div class="metric-label">
-						<span class="metric-name">POH Size</span>
-						<span class="metric-unit">MB</span>
+					<div class="metric-card" id="card-poh-size">
+						<div class="metric-label">
+							<span class="metric-name">POH Size</span>
+							<span class="metric-unit">MB</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-gen-0-gc-budget">
-					<div class="metric-label">
-						<span class="metric-name">Gen 0 GC Budget</span>
-						<span class="metric-unit">MB</span>
+					<div class="metric-card" id="card-gen-0-gc-budget">
+						<div class="metric-label">
+							<span class="metric-name">Gen 0 GC Budget</span>
+							<span class="metric-unit">MB</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
 				</div>
-			</div>
 
-			<h2>🧵 Threading</h2>
-			<div class="metrics-grid">
-				<div class="metric-card" id="card-threadpool-thread-count">
-					<div class="metric-label">
-						<span class="metric-name">ThreadPool Threads</span>
-						<span class="metric-unit">count</span>
+				<h2 class="section-header">
+					<span>🧵 Threading</span>
+					<button class="section-action" onclick="vscode.postMessage({command: 'capturarCallStacks', pid: ${pid}})">🧵 Capture stacks</button>
+				</h2>
+				<div class="metrics-grid">
+					<div class="metric-card" id="card-threadpool-thread-count">
+						<div class="metric-label">
+							<span class="metric-name">ThreadPool Threads</span>
+							<span class="metric-unit">count</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-threadpool-queue-length">
-					<div class="metric-label">
-						<span class="metric-name">ThreadPool Queue</span>
-						<span class="metric-unit">items</span>
+					<div class="metric-card" id="card-threadpool-queue-length">
+						<div class="metric-label">
+							<span class="metric-name">ThreadPool Queue</span>
+							<span class="metric-unit">items</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-threadpool-completed-items-count">
-					<div class="metric-label">
-						<span class="metric-name">ThreadPool Completed</span>
-						<span class="metric-unit">items</span>
+					<div class="metric-card" id="card-threadpool-completed-items-count">
+						<div class="metric-label">
+							<span class="metric-name">ThreadPool Completed</span>
+							<span class="metric-unit">items</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-monitor-lock-contention-count">
-					<div class="metric-label">
-						<span class="metric-name">Lock Contentions</span>
-						<span class="metric-unit">count</span>
+					<div class="metric-card" id="card-monitor-lock-contention-count">
+						<div class="metric-label">
+							<span class="metric-name">Lock Contentions</span>
+							<span class="metric-unit">count</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
 				</div>
-			</div>
 
-			<h2>⚙️ Runtime</h2>
-			<div class="metrics-grid">
-				<div class="metric-card" id="card-assembly-count">
-					<div class="metric-label">
-						<span class="metric-name">Assemblies Loaded</span>
-						<span class="metric-unit">count</span>
+				<h2 class="section-header">
+				<span>⚙️ Runtime</span>
+				<button class="section-action" onclick="vscode.postMessage({command: 'mostrarExcepciones', pid: ${pid}})">⚡ Exception history</button>
+			</h2>
+				<div class="metrics-grid">
+					<div class="metric-card" id="card-assembly-count">
+						<div class="metric-label">
+							<span class="metric-name">Assemblies Loaded</span>
+							<span class="metric-unit">count</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
-				</div>
-				<div class="metric-card" id="card-active-timer-count">
-					<div class="metric-label">
-						<span class="metric-name">Active Timers</span>
-						<span class="metric-unit">count</span>
+					<div class="metric-card" id="card-active-timer-count">
+						<div class="metric-label">
+							<span class="metric-name">Active Timers</span>
+							<span class="metric-unit">count</span>
+						</div>
+						<div class="metric-value no-data">--</div>
+					</div>
+					<div class="metric-card" id="card-exception-count">
+						<div class="metric-label">
+							<span class="metric-name">Exceptions</span>
+							<span class="metric-unit">count</span>
+						</div>
+						<div class="metric-value no-data">--</div>
 					</div>
-					<div class="metric-value no-data">--</div>
 				</div>
-				<div class="metric-card" id="card-exception-count">
-					<div class="metric-label">
-						<span class="metric-name">Exceptions</span>
-						<span class="metric-unit">count</span>
+
+				<div id="http-section" hidden>
+					<h2>🌐 HTTP / Kestrel</h2>
+					<div class="chart-container">
+						<canvas id="httpChart"></canvas>
 					</div>
-					<div class="metric-value no-data">--</div>
+					<div class="metrics-grid">
+						<div class="metric-card" id="card-http-requests-per-second">
+							<div class="metric-label">
+								<span class="metric-name">Requests/sec</span>
+								<span class="metric-unit">req/interval</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-current-requests">
+							<div class="metric-label">
+								<span class="metric-name">Current Requests</span>
+								<span class="metric-unit">count</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-total-requests">
+							<div class="metric-label">
+								<span class="metric-name">Total Requests</span>
+								<span class="metric-unit">count</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-failed-requests">
+							<div class="metric-label">
+								<span class="metric-name">Failed Requests</span>
+								<span class="metric-unit">count</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-current-connections">
+							<div class="metric-label">
+								<span class="metric-name">Current Connections</span>
+								<span class="metric-unit">count</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-connections-per-second">
+							<div class="metric-label">
+								<span class="metric-name">Connections/sec</span>
+								<span class="metric-unit">conn/interval</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-connection-queue-length">
+							<div class="metric-label">
+								<span class="metric-name">Connection Queue</span>
+								<span class="metric-unit">count</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-request-queue-length">
+							<div class="metric-label">
+								<span class="metric-name">Request Queue</span>
+								<span class="metric-unit">count</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-tls-handshakes-per-second">
+							<div class="metric-label">
+								<span class="metric-name">TLS Handshakes/sec</span>
+								<span class="metric-unit">hs/interval</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-current-tls-handshakes">
+							<div class="metric-label">
+								<span class="metric-name">Current TLS Handshakes</span>
+								<span class="metric-unit">count</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-failed-tls-handshakes">
+							<div class="metric-label">
+								<span class="metric-name">Failed TLS Handshakes</span>
+								<span class="metric-unit">count</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+					</div>
+					<div class="metrics-grid" id="http-latency" hidden title="Slowest route for each percentile (http.server.request.duration)">
+						<div class="metric-card" id="card-http-p50">
+							<div class="metric-label">
+								<span class="metric-name">Latency p50</span>
+								<span class="metric-unit">ms</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-p95">
+							<div class="metric-label">
+								<span class="metric-name">Latency p95</span>
+								<span class="metric-unit">ms</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+						<div class="metric-card" id="card-http-p99">
+							<div class="metric-label">
+								<span class="metric-name">Latency p99</span>
+								<span class="metric-unit">ms</span>
+							</div>
+							<div class="metric-value no-data">--</div>
+						</div>
+					</div>
+				</div>
+
+				<div id="custom-metrics-section" hidden>
+					<h2>🧩 Other Metrics</h2>
+					<div id="custom-metrics"></div>
 				</div>
 			</div>
-			
+
+			<div id="tab-logs" class="tab-content" hidden>
+				<div class="log-toolbar">
+					<select id="log-level" title="Minimum level">
+						<option value="0">Trace</option>
+						<option value="1">Debug</option>
+						<option value="2" selected>Information</option>
+						<option value="3">Warning</option>
+						<option value="4">Error</option>
+						<option value="5">Critical</option>
+					</select>
+					<input id="log-category" type="text" placeholder="Category filter...">
+					<input id="log-search" type="text" placeholder="Search messages...">
+					<button id="log-pause" class="log-button">⏸️ Pause</button>
+					<button id="log-clear" class="log-button">🗑️ Clear</button>
+					<button class="log-button" onclick="vscode.postMessage({command: 'capturarLogs', pid: ${pid}})" title="Save the logs of the next seconds to a file">💾 Capture</button>
+				</div>
+				<div id="log-status">⏳ Waiting for logs...</div>
+				<div id="log-list"></div>
+			</div>
+
 			<script>
 				const vscode = acquireVsCodeApi();
 				let updateCount = 0;
 				let lastUpdateTime = Date.now();
+				const modoReproduccion = ${reproduccion ? 'true' : 'false'};
+				// Hora del registro que se está procesando (la de la grabación al reproducir una sesión)
+				let horaMetrica = Date.now();
+				let registrosGrabados = 0;
+				let grabando = false;
+				let reproduciendo = false;
+
+				// Controles de reproducción: al cambiar la velocidad se sigue reproduciendo con la nueva
+				if (modoReproduccion) {
+					const velocidad = () => document.getElementById('replay-speed').value;
+					document.getElementById('replay-play').addEventListener('click', () => {
+						vscode.postMessage(reproduciendo ? { command: 'pausarReproduccion' } : { command: 'reproducir', velocidad: velocidad() });
+					});
+					document.getElementById('replay-speed').addEventListener('change', () => {
+						if (reproduciendo) {
+							vscode.postMessage({ command: 'reproducir', velocidad: velocidad() });
+						}
+					});
+					vscode.postMessage({ command: 'reproduccionLista' });
+				}
 				
 				// Configuración de gráficos (viene del servidor)
 				const maxDataPoints = ${getConfig().maxDataPoints};
@@ -1301,6 +6640,35 @@ function getMetricsHTML(pid: number): string {
 					options: chartOptions
 				});
 				
+				// Crear gráfico de HTTP (se muestra sólo si el proceso emite los contadores de ASP.NET Core)
+				const httpChart = new Chart(document.getElementById('httpChart'), {
+					type: 'line',
+					data: {
+						labels: [],
+						datasets: [
+							{
+								label: 'Requests/sec',
+								data: [],
+								borderColor: '#dcdcaa',
+								backgroundColor: 'rgba(220, 220, 170, 0.1)',
+								borderWidth: 2,
+								fill: true,
+								tension: 0.4
+							},
+							{
+								label: 'Current Requests',
+								data: [],
+								borderColor: '#c586c0',
+								backgroundColor: 'rgba(197, 134, 192, 0.1)',
+								borderWidth: 2,
+								fill: true,
+								tension: 0.4
+							}
+						]
+					},
+					options: chartOptions
+				});
+				
 				// Función para agregar punto a un gráfico
 				function addDataPoint(chart, label, ...values) {
 					chart.data.labels.push(label);
@@ -1348,11 +6716,352 @@ function getMetricsHTML(pid: number): string {
 					'time-in-jit': { id: 'time-in-jit', format: (v) => v.toFixed(2) }
 				};
 				
+				// Métricas de ASP.NET Core y Kestrel, indexadas por proveedor y nombre
+				const httpMetricMap = {
+					'Microsoft.AspNetCore.Hosting/requests-per-second': { id: 'requests-per-second', format: (v) => v.toFixed(0) },
+					'Microsoft.AspNetCore.Hosting/current-requests': { id: 'current-requests', format: (v) => v.toFixed(0) },
+					'Microsoft.AspNetCore.Hosting/total-requests': { id: 'total-requests', format: (v) => v.toLocaleString() },
+					'Microsoft.AspNetCore.Hosting/failed-requests': { id: 'failed-requests', format: (v) => v.toLocaleString() },
+					'Microsoft-AspNetCore-Server-Kestrel/current-connections': { id: 'current-connections', format: (v) => v.toFixed(0) },
+					'Microsoft-AspNetCore-Server-Kestrel/connections-per-second': { id: 'connections-per-second', format: (v) => v.toFixed(0) },
+					'Microsoft-AspNetCore-Server-Kestrel/connection-queue-length': { id: 'connection-queue-length', format: (v) => v.toFixed(0) },
+					'Microsoft-AspNetCore-Server-Kestrel/request-queue-length': { id: 'request-queue-length', format: (v) => v.toFixed(0) },
+					'Microsoft-AspNetCore-Server-Kestrel/tls-handshakes-per-second': { id: 'tls-handshakes-per-second', format: (v) => v.toFixed(0) },
+					'Microsoft-AspNetCore-Server-Kestrel/current-tls-handshakes': { id: 'current-tls-handshakes', format: (v) => v.toFixed(0) },
+					'Microsoft-AspNetCore-Server-Kestrel/failed-tls-handshakes': { id: 'failed-tls-handshakes', format: (v) => v.toLocaleString() }
+				};
+				const HTTP_DURATION_METRIC = 'Microsoft.AspNetCore.Hosting/http.server.request.duration';
+				
+				// Último valor de cada percentil por combinación de tags (ruta, método, código...)
+				const latenciasHttp = { 50: {}, 95: {}, 99: {} };
+				let currentHttpRequests = 0;
+				
+				function esMetricaHttp(data) {
+					const clave = data.provider + '/' + data.name;
+					return !!httpMetricMap[clave] || clave === HTTP_DURATION_METRIC;
+				}
+				
+				function marcarActualizada(cardElement, texto) {
+					const valueElement = cardElement.querySelector('.metric-value');
+					valueElement.textContent = texto;
+					valueElement.classList.remove('no-data');
+					cardElement.classList.add('metric-updated');
+					setTimeout(() => cardElement.classList.remove('metric-updated'), 300);
+				}
+				
+				function actualizarMetricaHttp(data) {
+					document.getElementById('http-section').hidden = false;
+					const clave = data.provider + '/' + data.name;
+					
+					// Histograma de .NET 8+: dotnet-monitor envía un registro por percentil con el tag Percentile=NN
+					if (clave === HTTP_DURATION_METRIC) {
+						const tags = (data.tags || '').split(',');
+						const tagPercentil = tags.find(t => /^(Percentile|quantile)=/i.test(t));
+						if (!tagPercentil) {
+							return;
+						}
+						let percentil = parseFloat(tagPercentil.split('=')[1]);
+						if (percentil <= 1) {
+							percentil = Math.round(percentil * 100);
+						}
+						if (!latenciasHttp[percentil]) {
+							return;
+						}
+						// La duración viene en segundos; se muestra la ruta más lenta en milisegundos
+						const resto = tags.filter(t => t !== tagPercentil).join(',');
+						latenciasHttp[percentil][resto] = data.value * 1000;
+						document.getElementById('http-latency').hidden = false;
+						const peor = Math.max(...Object.values(latenciasHttp[percentil]));
+						marcarActualizada(document.getElementById('card-http-p' + percentil), peor.toFixed(1));
+						return;
+					}
+					
+					const config = httpMetricMap[clave];
+					marcarActualizada(document.getElementById('card-http-' + config.id), config.format(data.value));
+					
+					if (config.id === 'current-requests') {
+						currentHttpRequests = data.value;
+					} else if (config.id === 'requests-per-second') {
+						addDataPoint(httpChart, new Date(horaMetrica).toLocaleTimeString(), data.value, currentHttpRequests);
+					}
+				}
+				
 				// Variables temporales para acumular datos de una ronda de métricas
 				let currentCpuValue = null;
 				let currentWorkingSetValue = null;
 				let currentGcHeapValue = null;
 				
+				// Pestañas: el stream de logs se inicia la primera vez que se abre su pestaña
+				let logsIniciados = false;
+				document.querySelectorAll('.tab').forEach(tab => {
+					tab.addEventListener('click', () => {
+						document.querySelectorAll('.tab').forEach(t => t.classList.toggle('active', t === tab));
+						document.querySelectorAll('.tab-content').forEach(c => c.hidden = c.id !== 'tab-' + tab.dataset.tab);
+						if (tab.dataset.tab === 'logs' && !logsIniciados) {
+							logsIniciados = true;
+							vscode.postMessage({ command: 'iniciarLogs', pid: ${pid} });
+						}
+					});
+				});
+
+				// Visor de logs
+				const LOG_LEVELS = ['Trace', 'Debug', 'Information', 'Warning', 'Error', 'Critical'];
+				const maxLogEntries = 5000;
+				const logs = [];
+				let logsPausados = false;
+				let logsPendientes = [];
+
+				function escapeHtml(text) {
+					return String(text).replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+				}
+
+				function nivelLog(entry) {
+					const index = LOG_LEVELS.indexOf(entry.LogLevel);
+					return index >= 0 ? index : 2;
+				}
+
+				function logVisible(entry) {
+					const minLevel = Number(document.getElementById('log-level').value);
+					const category = document.getElementById('log-category').value.toLowerCase();
+					const search = document.getElementById('log-search').value.toLowerCase();
+					return nivelLog(entry) >= minLevel &&
+						(!category || (entry.Category || '').toLowerCase().includes(category)) &&
+						(!search || (entry.Message || '').toLowerCase().includes(search) || (entry.Exception || '').toLowerCase().includes(search));
+				}
+
+				function crearEntradaLog(entry) {
+					const div = document.createElement('div');
+					div.className = 'log-entry';
+					const level = nivelLog(entry);
+					const time = entry.Timestamp ? new Date(entry.Timestamp).toLocaleTimeString() : '';
+					div.innerHTML =
+						'<span class="log-time">' + escapeHtml(time) + '</span>' +
+						'<span class="log-level l' + level + '">' + escapeHtml(entry.LogLevel || '') + '</span>' +
+						'<span class="log-category">' + escapeHtml(entry.Category || '') + '</span>' +
+						'<span class="log-message">' + escapeHtml(entry.Message || '') + '</span>';
+
+					// Expandir el estado estructurado, los scopes y la excepción al hacer click
+					div.addEventListener('click', (event) => {
+						if (event.target.closest('.log-details')) {
+							return;
+						}
+						const existing = div.querySelector('.log-details');
+						if (existing) {
+							existing.remove();
+							return;
+						}
+						const details = document.createElement('pre');
+						details.className = 'log-details';
+						const partes = [];
+						if (entry.EventId) {
+							partes.push('EventId: ' + entry.EventId);
+						}
+						if (entry.State && Object.keys(entry.State).length > 0) {
+							partes.push('State: ' + JSON.stringify(entry.State, null, 2));
+						}
+						if (entry.Scopes && entry.Scopes.length > 0) {
+							partes.push('Scopes: ' + JSON.stringify(entry.Scopes, null, 2));
+						}
+						if (entry.Exception) {
+							partes.push('Exception:\\n' + entry.Exception);
+						}
+						details.textContent = partes.join('\\n\\n') || 'No structured data';
+						div.appendChild(details);
+					});
+					return div;
+				}
+
+				function actualizarEstadoLogs() {
+					const visibles = document.getElementById('log-list').children.length;
+					document.getElementById('log-status').textContent =
+						(logsPausados ? '⏸️ Paused (' + logsPendientes.length + ' new entries)' : '🟢 Streaming') +
+						' · Showing ' + visibles + ' of ' + logs.length + ' entries';
+				}
+
+				function agregarLogs(entries) {
+					if (logsPausados) {
+						logsPendientes.push(...entries);
+						actualizarEstadoLogs();
+						return;
+					}
+					const list = document.getElementById('log-list');
+					const pegadoAbajo = list.scrollTop + list.clientHeight >= list.scrollHeight - 5;
+					entries.forEach(entry => {
+						logs.push(entry);
+						if (logVisible(entry)) {
+							list.appendChild(crearEntradaLog(entry));
+						}
+					});
+					// Descartar las entradas más antiguas
+					while (logs.length > maxLogEntries) {
+						logs.shift();
+					}
+					while (list.children.length > maxLogEntries) {
+						list.firstChild.remove();
+					}
+					if (pegadoAbajo) {
+						list.scrollTop = list.scrollHeight;
+					}
+					actualizarEstadoLogs();
+				}
+
+				function filtrarLogs() {
+					const list = document.getElementById('log-list');
+					list.innerHTML = '';
+					logs.filter(logVisible).forEach(entry => list.appendChild(crearEntradaLog(entry)));
+					list.scrollTop = list.scrollHeight;
+					actualizarEstadoLogs();
+				}
+
+				document.getElementById('log-level').addEventListener('change', filtrarLogs);
+				document.getElementById('log-category').addEventListener('input', filtrarLogs);
+				document.getElementById('log-search').addEventListener('input', filtrarLogs);
+				document.getElementById('log-pause').addEventListener('click', () => {
+					logsPausados = !logsPausados;
+					document.getElementById('log-pause').textContent = logsPausados ? '▶️ Resume' : '⏸️ Pause';
+					if (!logsPausados) {
+						const pendientes = logsPendientes;
+						logsPendientes = [];
+						agregarLogs(pendientes);
+					}
+					actualizarEstadoLogs();
+				});
+				document.getElementById('log-clear').addEventListener('click', () => {
+					logs.length = 0;
+					logsPendientes = [];
+					document.getElementById('log-list').innerHTML = '';
+					actualizarEstadoLogs();
+				});
+
+				// Tarjetas creadas dinámicamente para métricas que no están en metricMap, agrupadas por proveedor
+				function idSeguro(texto) {
+					return String(texto).toLowerCase().replace(/[^a-z0-9]+/g, '-');
+				}
+
+				function formatearValorDinamico(value) {
+					if (typeof value !== 'number') {
+						return String(value);
+					}
+					return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+				}
+
+				function actualizarMetricaDinamica(data) {
+					const provider = data.provider || 'Unknown provider';
+					const cardId = 'card-dyn-' + idSeguro(provider + '-' + data.name + '-' + (data.tags || ''));
+					let cardElement = document.getElementById(cardId);
+
+					if (!cardElement) {
+						const gridId = 'grid-dyn-' + idSeguro(provider);
+						let grid = document.getElementById(gridId);
+						if (!grid) {
+							const title = document.createElement('h3');
+							title.className = 'provider-name';
+							title.textContent = provider;
+							grid = document.createElement('div');
+							grid.className = 'metrics-grid';
+							grid.id = gridId;
+							document.getElementById('custom-metrics').append(title, grid);
+							document.getElementById('custom-metrics-section').hidden = false;
+						}
+
+						cardElement = document.createElement('div');
+						cardElement.className = 'metric-card';
+						cardElement.id = cardId;
+						cardElement.title = provider + ' / ' + data.name + (data.tags ? ' [' + data.tags + ']' : '');
+						cardElement.innerHTML =
+							'<div class="metric-label">' +
+								'<span class="metric-name"></span>' +
+								'<span class="metric-unit"></span>' +
+							'</div>' +
+							'<div class="metric-value no-data">--</div>';
+						cardElement.querySelector('.metric-name').textContent =
+							(data.displayName || data.name) + (data.tags ? ' (' + data.tags + ')' : '');
+						cardElement.querySelector('.metric-unit').textContent = data.unit || '';
+						grid.appendChild(cardElement);
+					}
+
+					marcarActualizada(cardElement, formatearValorDinamico(data.value));
+				}
+
+				// Comparación con una baseline: tabla con las estadísticas de ambas sesiones y la diferencia
+				// en las tarjetas de las métricas conocidas (las claves son las de metricMap y httpMetricMap)
+				function formatearEstadistica(key, value) {
+					const config = metricMap[key] || httpMetricMap[key];
+					return config ? config.format(value) : formatearValorDinamico(value);
+				}
+
+				function mostrarComparacionBaseline(data) {
+					document.querySelectorAll('.baseline-delta').forEach(badge => badge.remove());
+					document.getElementById('baseline-section').hidden = !data;
+					if (!data) {
+						return;
+					}
+
+					document.getElementById('baseline-title').textContent = '📐 Compared with baseline "' + data.nombre + '" (' + new Date(data.creada).toLocaleString() + ')';
+					const resumen = document.getElementById('baseline-summary');
+					resumen.className = data.resumen ? 'sev-' + data.deltas[0].severity : 'sev-improved';
+					resumen.textContent = data.deltas.length === 0
+						? '⏳ Waiting for metrics that are also in the baseline...'
+						: (data.resumen ? '⚠️ Regressions: ' + data.resumen : '✅ No regressions against the baseline');
+
+					const estadisticas = (delta, stats) => ['min', 'avg', 'p95', 'max']
+						.map((campo, i) => '<td' + (i === 0 ? ' class="group-start"' : '') + '>' + escapeHtml(formatearEstadistica(delta.key, stats[campo])) + '</td>')
+						.join('');
+					document.getElementById('baseline-rows').innerHTML = data.deltas.map(delta =>
+						'<tr>' +
+							'<td>' + escapeHtml(delta.key) + (delta.unit ? ' (' + escapeHtml(delta.unit) + ')' : '') + '</td>' +
+							estadisticas(delta, delta.baseline) +
+							estadisticas(delta, delta.current) +
+							'<td class="group-start sev-' + delta.severity + '">' + escapeHtml(delta.label) + '</td>' +
+						'</tr>'
+					).join('');
+
+					for (const delta of data.deltas) {
+						const config = metricMap[delta.key] || httpMetricMap[delta.key];
+						const cardElement = config && document.getElementById('card-' + config.id);
+						if (cardElement) {
+							const badge = document.createElement('div');
+							badge.className = 'baseline-delta sev-' + delta.severity;
+							badge.textContent = delta.label + ' vs ' + data.nombre;
+							badge.title = 'Baseline avg ' + formatearEstadistica(delta.key, delta.baseline.avg) + ', this session ' + formatearEstadistica(delta.key, delta.current.avg);
+							cardElement.appendChild(badge);
+						}
+					}
+				}
+
+				// Alertas activas por tarjeta: la tarjeta se marca en rojo mientras alguna de sus reglas esté disparada
+				const alertasActivas = new Map();
+
+				function buscarTarjeta(data) {
+					const clave = data.provider + '/' + data.name;
+					if (metricMap[data.name] && (!data.provider || data.provider === 'System.Runtime') && !data.tags) {
+						return document.getElementById('card-' + metricMap[data.name].id);
+					}
+					if (httpMetricMap[clave] && !data.tags) {
+						return document.getElementById('card-' + httpMetricMap[clave].id);
+					}
+					return document.getElementById('card-dyn-' + idSeguro((data.provider || 'Unknown provider') + '-' + data.name + '-' + (data.tags || '')));
+				}
+
+				function marcarAlerta(data) {
+					const cardElement = buscarTarjeta(data.metrica);
+					if (!cardElement) {
+						return;
+					}
+					const reglas = alertasActivas.get(cardElement.id) || new Set();
+					if (data.activa) {
+						reglas.add(data.regla);
+					} else {
+						reglas.delete(data.regla);
+					}
+					alertasActivas.set(cardElement.id, reglas);
+					cardElement.classList.toggle('alert-firing', reglas.size > 0);
+					if (cardElement.dataset.titulo === undefined) {
+						cardElement.dataset.titulo = cardElement.title;
+					}
+					cardElement.title = reglas.size > 0 ? '🔔 ' + [...reglas].join('\\n🔔 ') : cardElement.dataset.titulo;
+				}
+
 				const goBack = () => {
 					vscode.postMessage({
 						command: 'obtenerProcesos'
@@ -1361,17 +7070,23 @@ function getMetricsHTML(pid: number): string {
 
 				// Escuchar métricas de la extensión
 				window.addEventListener('message', event => {
-					const { command, data } = event.data;
+					const { command, data, timestamp } = event.data;
 					
 					if (command === 'actualizarMetrica') {
 						updateCount++;
-						const now = Date.now();
-						const elapsed = (now - lastUpdateTime) / 1000;
-						lastUpdateTime = now;
+						horaMetrica = timestamp ?? Date.now();
+						const elapsed = (horaMetrica - lastUpdateTime) / 1000;
+						lastUpdateTime = horaMetrica;
 						
-						// Actualizar status
-						document.getElementById('status').textContent = 
-							\`✅ Recibiendo métricas en tiempo real (Actualizaciones: \${updateCount}, Frecuencia: ~\${elapsed.toFixed(1)}s)\`;
+						// Actualizar status (al reproducir lo actualiza estadoReproduccion)
+						if (!modoReproduccion) {
+							document.getElementById('status').textContent = 
+								\`✅ Recibiendo métricas en tiempo real (Actualizaciones: \${updateCount}, Frecuencia: ~\${elapsed.toFixed(1)}s)\`;
+						}
+						if (grabando) {
+							registrosGrabados++;
+							document.getElementById('record-button').textContent = '⏹️ Stop recording (' + registrosGrabados + ')';
+						}
 						
 						// Actualizar métrica específica
 						const metricName = data.name;
@@ -1388,7 +7103,7 @@ function getMetricsHTML(pid: number): string {
 							// Cuando llega gc-heap-size (una de las últimas métricas),
 							// actualizamos los gráficos si tenemos todos los datos
 							if (currentCpuValue !== null && currentWorkingSetValue !== null && currentGcHeapValue !== null) {
-								const timeLabel = new Date().toLocaleTimeString();
+								const timeLabel = new Date(horaMetrica).toLocaleTimeString();
 								
 								// Actualizar gráfico de CPU
 								addDataPoint(cpuChart, timeLabel, currentCpuValue);
@@ -1403,8 +7118,13 @@ function getMetricsHTML(pid: number): string {
 							}
 						}
 						
-						// Actualizar tarjetas de métricas
-						if (metricMap[metricName]) {
+						// Actualizar tarjetas de métricas (las desconocidas tienen una tarjeta creada al vuelo)
+						const esConocida = metricMap[metricName] && (!data.provider || data.provider === 'System.Runtime') && !data.tags;
+						if (esMetricaHttp(data)) {
+							actualizarMetricaHttp(data);
+						} else if (!esConocida) {
+							actualizarMetricaDinamica(data);
+						} else {
 							const config = metricMap[metricName];
 							const cardElement = document.getElementById('card-' + config.id);
 							if (cardElement) {
@@ -1420,6 +7140,69 @@ function getMetricsHTML(pid: number): string {
 							}
 						}
 					}
+
+					// Estado de la grabación de la sesión
+					if (command === 'estadoGrabacion') {
+						grabando = data.grabando;
+						registrosGrabados = 0;
+						const boton = document.getElementById('record-button');
+						boton.classList.toggle('recording', grabando);
+						boton.textContent = grabando ? '⏹️ Stop recording (0)' : '📼 Record session';
+						boton.title = grabando ? 'Recording to ' + data.archivo : 'Save every metric record received to a session file that can be replayed later';
+					}
+
+					// Progreso de la reproducción de una sesión grabada
+					if (command === 'estadoReproduccion') {
+						reproduciendo = data.reproduciendo;
+						document.getElementById('replay-play').textContent = reproduciendo ? '⏸️ Pause' : (data.indice >= data.total ? '🔁 Replay' : '▶️ Play');
+						document.getElementById('status').textContent = (reproduciendo ? '▶️ ' : '⏸️ ') + data.indice + ' / ' + data.total
+							+ ' records · ' + new Date(data.hora).toLocaleString();
+					}
+
+					// Alerta disparada o resuelta sobre una métrica
+					if (command === 'estadoAlerta') {
+						marcarAlerta(data);
+					}
+
+					// Diferencias con la baseline elegida (null al dejar de comparar)
+					if (command === 'comparacionBaseline') {
+						mostrarComparacionBaseline(data);
+					}
+
+					// La sesión de debug que abrió el panel ha terminado: ya no llegan más datos
+					if (command === 'sesionTerminada') {
+						document.getElementById('status').textContent = '⏹️ Debug session "' + data.nombre + '" ended. Showing the last received data';
+					}
+
+					// dotnet-monitor se ha detenido con el comando: ya no llegan más datos
+					if (command === 'monitorDetenido') {
+						document.getElementById('status').textContent = '⏹️ dotnet-monitor was stopped. Showing the last received data; reopen the dashboard to start it again';
+					}
+
+					// Nuevas entradas del stream de logs
+					if (command === 'nuevosLogs') {
+						agregarLogs(data);
+					}
+
+					// Cuenta atrás de la grabación de trazas
+					if (command === 'estadoTrace') {
+						const traceStatus = document.getElementById('trace-status');
+						traceStatus.hidden = false;
+						traceStatus.classList.toggle('done', data.estado === 'done');
+						document.getElementById('trace-button').disabled = data.estado === 'recording';
+
+						if (data.estado === 'recording') {
+							traceStatus.textContent = data.restante > 0
+								? '⏺️ Recording ' + data.perfil + ' trace... ' + data.restante + 's remaining'
+								: '⏳ Finishing ' + data.perfil + ' trace...';
+						} else if (data.estado === 'done') {
+							traceStatus.textContent = '✅ ' + data.perfil + ' trace saved';
+						} else if (data.estado === 'cancelled') {
+							traceStatus.textContent = '🛑 ' + data.perfil + ' trace cancelled';
+						} else {
+							traceStatus.textContent = '❌ ' + data.perfil + ' trace failed';
+						}
+					}
 				});
 			</script>
 		</body>
@@ -1428,4 +7211,7 @@ function getMetricsHTML(pid: number): string {
 }
 
 // This method is called when your extension is deactivated
-export function deactivate() {}
+export function deactivate() {
+	monitor.manual = false;
+	detenerMonitor();
+}
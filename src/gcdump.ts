@@ -0,0 +1,347 @@
+// Lector de archivos .gcdump generados por dotnet-monitor / dotnet-gcdump
+//
+// Un .gcdump es un GCHeapDump serializado con el formato FastSerialization de TraceEvent.
+// Dentro contiene un MemoryGraph: una tabla de tipos, una tabla de nodos (objetos del heap)
+// y un blob donde cada nodo guarda su tipo, su tamaño y sus referencias a otros nodos.
+
+export interface GcDumpTypeStats {
+	name: string;
+	count: number;
+	exclusiveSize: number;
+	inclusiveSize: number;
+}
+
+export interface GcDumpSummary {
+	totalSize: number;
+	nodeCount: number;
+	types: GcDumpTypeStats[];
+}
+
+const FAST_SERIALIZATION_HEADER = '!FastSerialization.1';
+const MEMORY_GRAPH_TYPE = 'MemoryGraph';
+const TAG_END_OBJECT = 6;
+
+// Lector secuencial de los tipos primitivos que escribe FastSerialization (little endian)
+class FastSerializationReader {
+	offset = 0;
+
+	constructor(readonly buffer: Buffer) {}
+
+	get length(): number {
+		return this.buffer.length;
+	}
+
+	private ensure(bytes: number) {
+		if (this.offset + bytes > this.buffer.length) {
+			throw new Error('Unexpected end of gcdump file');
+		}
+	}
+
+	readByte(): number {
+		this.ensure(1);
+		return this.buffer[this.offset++];
+	}
+
+	readInt32(): number {
+		this.ensure(4);
+		const value = this.buffer.readInt32LE(this.offset);
+		this.offset += 4;
+		return value;
+	}
+
+	readInt64(): number {
+		this.ensure(8);
+		const value = Number(this.buffer.readBigInt64LE(this.offset));
+		this.offset += 8;
+		return value;
+	}
+
+	// Las cadenas se escriben como número de caracteres seguido de cada carácter en UTF-8
+	readString(): string | null {
+		const length = this.readInt32();
+		if (length < 0) {
+			return null;
+		}
+		const chars: number[] = [];
+		for (let i = 0; i < length; i++) {
+			const b = this.readByte();
+			if (b < 0x80) {
+				chars.push(b);
+			} else if ((b & 0xE0) === 0xC0) {
+				chars.push(((b & 0x1F) << 6) | (this.readByte() & 0x3F));
+			} else {
+				const b2 = this.readByte();
+				const b3 = this.readByte();
+				chars.push(((b & 0x0F) << 12) | ((b2 & 0x3F) << 6) | (b3 & 0x3F));
+			}
+		}
+		return String.fromCharCode(...chars);
+	}
+}
+
+// Entero comprimido usado en el blob de nodos: 7 bits por byte, el primero con signo
+function readCompressedInt(blob: Buffer, position: { offset: number }): number {
+	let b = blob[position.offset++];
+	let value = (b << 25) >> 25;
+	for (let i = 0; i < 4 && (b & 0x80) !== 0; i++) {
+		b = blob[position.offset++];
+		value = (value << 7) + (b & 0x7F);
+	}
+	return value;
+}
+
+// Busca el inicio de los datos del MemoryGraph: justo después de la definición de su tipo
+// (longitud + nombre terminado en "MemoryGraph" + etiqueta EndObject)
+function findMemoryGraph(buffer: Buffer): number {
+	const marker = Buffer.from(MEMORY_GRAPH_TYPE, 'latin1');
+	let index = buffer.indexOf(marker);
+	while (index !== -1) {
+		const end = index + marker.length;
+		if (buffer[end] === TAG_END_OBJECT) {
+			// Retroceder hasta el prefijo de longitud del nombre completo del tipo
+			for (let start = index; start >= 4 && index - start < 512; start--) {
+				if (buffer.readInt32LE(start - 4) === end - start) {
+					return end + 1;
+				}
+			}
+		}
+		index = buffer.indexOf(marker, index + 1);
+	}
+	throw new Error('The file does not contain a GC heap graph');
+}
+
+interface RawGraph {
+	totalSize: number;
+	rootIndex: number;
+	typeNames: string[];
+	typeSizes: number[];
+	nodeLabels: Int32Array;
+	blob: Buffer;
+}
+
+function readGraph(reader: FastSerializationReader, withModuleNames: boolean): RawGraph {
+	const totalSize = reader.readInt64();
+	const rootIndex = reader.readInt32();
+
+	const typeCount = reader.readInt32();
+	if (typeCount < 0 || typeCount > reader.length) {
+		throw new Error('Invalid type count');
+	}
+	const typeNames: string[] = [];
+	const typeSizes: number[] = [];
+	for (let i = 0; i < typeCount; i++) {
+		typeNames.push(reader.readString() ?? '?');
+		typeSizes.push(reader.readInt32());
+		if (withModuleNames) {
+			const moduleName = reader.readString();
+			if (moduleName && !typeNames[i].startsWith('[')) {
+				typeNames[i] = `${typeNames[i]} [${moduleName}]`;
+			}
+		}
+	}
+
+	const nodeCount = reader.readInt32();
+	if (nodeCount < 0 || reader.offset + nodeCount * 4 > reader.length) {
+		throw new Error('Invalid node count');
+	}
+	const nodeLabels = new Int32Array(nodeCount);
+	for (let i = 0; i < nodeCount; i++) {
+		nodeLabels[i] = reader.readInt32();
+	}
+
+	const blobLength = reader.readInt32();
+	if (blobLength < 0 || reader.offset + blobLength > reader.length) {
+		throw new Error('Invalid node blob length');
+	}
+	const blob = reader.buffer.subarray(reader.offset, reader.offset + blobLength);
+	reader.offset += blobLength;
+
+	return { totalSize, rootIndex, typeNames, typeSizes, nodeLabels, blob };
+}
+
+// Función para leer un .gcdump y calcular, por tipo, el número de instancias,
+// el tamaño exclusivo y el tamaño inclusivo (lo retenido según un árbol de expansión desde la raíz)
+export function parseGcDump(buffer: Buffer): GcDumpSummary {
+	const reader = new FastSerializationReader(buffer);
+	if (reader.readString() !== FAST_SERIALIZATION_HEADER) {
+		throw new Error('Not a gcdump file (missing FastSerialization header)');
+	}
+
+	const graphStart = findMemoryGraph(buffer);
+	let graph: RawGraph;
+	try {
+		reader.offset = graphStart;
+		graph = readGraph(reader, true);
+	} catch {
+		// Versiones antiguas del formato no guardan el módulo de cada tipo
+		reader.offset = graphStart;
+		graph = readGraph(reader, false);
+	}
+
+	const { typeNames, typeSizes, nodeLabels, blob } = graph;
+	const nodeCount = nodeLabels.length;
+
+	// Los nodos no definidos comparten la misma etiqueta; los definidos tienen una propia
+	const labelUses = new Map<number, number>();
+	for (let i = 0; i < nodeCount; i++) {
+		labelUses.set(nodeLabels[i], (labelUses.get(nodeLabels[i]) ?? 0) + 1);
+	}
+
+	const nodeType = new Int32Array(nodeCount).fill(-1);
+	const nodeSize = new Float64Array(nodeCount);
+	const childStart = new Int32Array(nodeCount);
+	const childCount = new Int32Array(nodeCount);
+	const typeCount = new Float64Array(typeNames.length);
+	const typeExclusive = new Float64Array(typeNames.length);
+	const position = { offset: 0 };
+
+	for (let i = 0; i < nodeCount; i++) {
+		const label = nodeLabels[i];
+		if (label < 0 || label >= blob.length || labelUses.get(label)! > 1) {
+			continue;
+		}
+		position.offset = label;
+		const typeAndSize = readCompressedInt(blob, position);
+		const type = typeAndSize >> 1;
+		if (type < 0 || type >= typeNames.length) {
+			continue;
+		}
+		const size = (typeAndSize & 1) !== 0 ? readCompressedInt(blob, position) : Math.max(typeSizes[type], 0);
+		nodeType[i] = type;
+		nodeSize[i] = size;
+		childCount[i] = readCompressedInt(blob, position);
+		childStart[i] = position.offset;
+		typeCount[type]++;
+		typeExclusive[type] += size;
+	}
+
+	// Recorrido en profundidad para construir el árbol de expansión. Cada nodo suma su subárbol
+	// al tamaño inclusivo de su tipo sólo si no tiene un ancestro del mismo tipo (evita contar dos veces)
+	const typeInclusive = new Float64Array(typeNames.length);
+	const typeDepth = new Int32Array(typeNames.length);
+	const visited = new Uint8Array(nodeCount);
+	const subtree = new Float64Array(nodeCount);
+	const topLevel = new Uint8Array(nodeCount);
+	const stackNode = new Int32Array(nodeCount);
+	const stackOffset = new Int32Array(nodeCount);
+	const stackRemaining = new Int32Array(nodeCount);
+
+	const recorrer = (start: number) => {
+		let depth = 0;
+		const enter = (node: number) => {
+			visited[node] = 1;
+			subtree[node] = nodeSize[node];
+			const type = nodeType[node];
+			topLevel[node] = typeDepth[type] === 0 ? 1 : 0;
+			typeDepth[type]++;
+			stackNode[depth] = node;
+			stackOffset[depth] = childStart[node];
+			stackRemaining[depth] = childCount[node];
+			depth++;
+		};
+		enter(start);
+		while (depth > 0) {
+			const top = depth - 1;
+			const node = stackNode[top];
+			if (stackRemaining[top] > 0) {
+				stackRemaining[top]--;
+				position.offset = stackOffset[top];
+				const child = node + readCompressedInt(blob, position);
+				stackOffset[top] = position.offset;
+				if (child >= 0 && child < nodeCount && !visited[child] && nodeType[child] >= 0) {
+					enter(child);
+				}
+				continue;
+			}
+			depth--;
+			const type = nodeType[node];
+			typeDepth[type]--;
+			if (topLevel[node]) {
+				typeInclusive[type] += subtree[node];
+			}
+			if (depth > 0) {
+				subtree[stackNode[depth - 1]] += subtree[node];
+			}
+		}
+	};
+
+	if (graph.rootIndex >= 0 && graph.rootIndex < nodeCount && nodeType[graph.rootIndex] >= 0) {
+		recorrer(graph.rootIndex);
+	}
+	// Los objetos no alcanzables desde la raíz forman sus propios árboles
+	for (let i = 0; i < nodeCount; i++) {
+		if (!visited[i] && nodeType[i] >= 0) {
+			recorrer(i);
+		}
+	}
+
+	const types: GcDumpTypeStats[] = [];
+	let definedNodes = 0;
+	for (let t = 0; t < typeNames.length; t++) {
+		if (typeCount[t] > 0) {
+			definedNodes += typeCount[t];
+			types.push({
+				name: typeNames[t],
+				count: typeCount[t],
+				exclusiveSize: typeExclusive[t],
+				inclusiveSize: typeInclusive[t]
+			});
+		}
+	}
+	types.sort((a, b) => b.exclusiveSize - a.exclusiveSize);
+
+	return {
+		totalSize: graph.totalSize,
+		nodeCount: definedNodes,
+		types
+	};
+}
+
+export interface GcDumpTypeDiff {
+	name: string;
+	countBefore: number;
+	countAfter: number;
+	countDelta: number;
+	sizeBefore: number;
+	sizeAfter: number;
+	sizeDelta: number;
+	isNew: boolean;
+}
+
+// Función para comparar dos snapshots y obtener el crecimiento por tipo (tamaño exclusivo),
+// ordenado de mayor a menor crecimiento
+export function diffGcDumps(before: GcDumpSummary, after: GcDumpSummary): GcDumpTypeDiff[] {
+	const beforeByName = new Map(before.types.map(t => [t.name, t]));
+	const diffs: GcDumpTypeDiff[] = [];
+
+	for (const type of after.types) {
+		const previous = beforeByName.get(type.name);
+		beforeByName.delete(type.name);
+		diffs.push({
+			name: type.name,
+			countBefore: previous?.count ?? 0,
+			countAfter: type.count,
+			countDelta: type.count - (previous?.count ?? 0),
+			sizeBefore: previous?.exclusiveSize ?? 0,
+			sizeAfter: type.exclusiveSize,
+			sizeDelta: type.exclusiveSize - (previous?.exclusiveSize ?? 0),
+			isNew: !previous
+		});
+	}
+
+	// Tipos que ya no existen en el snapshot posterior
+	for (const type of beforeByName.values()) {
+		diffs.push({
+			name: type.name,
+			countBefore: type.count,
+			countAfter: 0,
+			countDelta: -type.count,
+			sizeBefore: type.exclusiveSize,
+			sizeAfter: 0,
+			sizeDelta: -type.exclusiveSize,
+			isNew: false
+		});
+	}
+
+	return diffs.sort((a, b) => b.sizeDelta - a.sizeDelta || b.countDelta - a.countDelta);
+}
@@ -0,0 +1,94 @@
+// Operaciones asíncronas de dotnet-monitor (/operations): capturas enviadas a un proveedor de egress
+// que se siguen por su estado hasta que el artefacto queda escrito
+
+export interface OperationInfo {
+	operationId: string;
+	status: string;
+	createdDateTime?: Date;
+	pid?: number;
+	processName?: string;
+	egressProviderName?: string;
+	isStoppable: boolean;
+	resourceLocation?: string;
+	error?: string;
+}
+
+// Estados en los que la operación sigue en marcha y se puede cancelar
+const RUNNING_STATES = ['Starting', 'Running', 'Stopping'];
+
+// Función para leer una operación de /operations o /operations/{id} (el detalle añade resourceLocation y error)
+export function parseOperation(json: any): OperationInfo {
+	const fecha = json?.createdDateTime ? new Date(json.createdDateTime) : undefined;
+	const error = json?.error;
+	return {
+		operationId: String(json?.operationId ?? ''),
+		status: json?.status ?? 'Unknown',
+		createdDateTime: fecha && !isNaN(fecha.getTime()) ? fecha : undefined,
+		pid: typeof json?.process?.pid === 'number' ? json.process.pid : undefined,
+		processName: json?.process?.name || undefined,
+		egressProviderName: json?.egressProviderName || undefined,
+		isStoppable: json?.isStoppable === true,
+		resourceLocation: json?.resourceLocation || undefined,
+		error: error ? (error.detail || error.title || error.message || String(error)) : undefined
+	};
+}
+
+export function isOperationRunning(operacion: OperationInfo): boolean {
+	return RUNNING_STATES.includes(operacion.status);
+}
+
+// Función para ordenar las operaciones: primero las que están en marcha y después las más recientes
+export function sortOperations(operaciones: OperationInfo[]): OperationInfo[] {
+	const fecha = (o: OperationInfo) => o.createdDateTime?.getTime() ?? 0;
+	return [...operaciones].sort((a, b) =>
+		Number(isOperationRunning(b)) - Number(isOperationRunning(a)) || fecha(b) - fecha(a)
+	);
+}
+
+// Función para saber si resourceLocation es una ruta del disco (egress FileSystem) y no una URL
+export function getLocalArtifactPath(resourceLocation: string | undefined): string | undefined {
+	if (!resourceLocation) {
+		return undefined;
+	}
+	if (/^file:\/\//i.test(resourceLocation)) {
+		return decodeURIComponent(resourceLocation.replace(/^file:\/\/(localhost)?/i, '')).replace(/^\/([A-Za-z]:)/, '$1');
+	}
+	return /^(\/|[A-Za-z]:[\\/]|\\\\)/.test(resourceLocation) ? resourceLocation : undefined;
+}
+
+// Función para obtener el nombre del artefacto a partir de su ubicación (ruta o URL)
+export function getArtifactName(operacion: OperationInfo): string | undefined {
+	if (!operacion.resourceLocation) {
+		return undefined;
+	}
+	const ruta = getLocalArtifactPath(operacion.resourceLocation) ?? operacion.resourceLocation.split(/[?#]/)[0];
+	const nombre = ruta.split(/[\\/]/).filter(parte => parte).pop();
+	if (!nombre) {
+		return undefined;
+	}
+	try {
+		return decodeURIComponent(nombre);
+	} catch {
+		return nombre;
+	}
+}
+
+// Función para mostrar el tiempo transcurrido desde que empezó la operación (1m 05s, 1h 02m...)
+export function formatElapsed(desde: Date, ahora: Date): string {
+	const segundos = Math.max(0, Math.floor((ahora.getTime() - desde.getTime()) / 1000));
+	if (segundos < 60) {
+		return `${segundos}s`;
+	}
+	const minutos = Math.floor(segundos / 60);
+	if (minutos < 60) {
+		return `${minutos}m ${String(segundos % 60).padStart(2, '0')}s`;
+	}
+	return `${Math.floor(minutos / 60)}h ${String(minutos % 60).padStart(2, '0')}m`;
+}
+
+// Función para nombrar un artefacto recogido: <proceso>_<pid>_<tipo>_<fecha><extensión>
+export function getArtifactFileName(processName: string | undefined, pid: number | undefined, kind: string, fecha: Date, extension: string): string {
+	const proceso = (processName ?? '').replace(/[^A-Za-z0-9_.-]+/g, '_').replace(/^[_.]+|[_.]+$/g, '') || 'process';
+	const marca = fecha.toISOString().replace(/[:.]/g, '-').replace('T', '_').replace('Z', '');
+	return `${proceso}_${pid ?? 'unknown'}_${kind}_${marca}${extension}`;
+}
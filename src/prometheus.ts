@@ -0,0 +1,263 @@
+// Lectura del formato de exposición de Prometheus (text/plain; version=0.0.4) que sirve dotnet-monitor en /metrics
+// y conversión a los mismos registros que envía /livemetrics, para alimentar el dashboard con cualquiera de los dos
+
+export interface PrometheusSample {
+	name: string;
+	labels: [string, string][];
+	value: number;
+}
+
+export interface PrometheusFamily {
+	name: string;
+	type: string;
+	help: string;
+	samples: PrometheusSample[];
+}
+
+// Registro con la forma de los que devuelve /livemetrics
+export interface LiveMetric {
+	provider: string;
+	name: string;
+	displayName: string;
+	unit: string;
+	counterType: string;
+	tags?: string;
+	value: number;
+}
+
+export interface KnownProvider {
+	name: string;
+	isMeter: boolean;
+}
+
+// Contadores de System.Runtime que /livemetrics expresa en MB y /metrics convierte a bytes
+const MB_COUNTERS = ['working-set', 'gc-heap-size', 'gc-committed'];
+const HISTOGRAM_QUANTILES = [0.5, 0.95, 0.99];
+
+function unescapeHelp(texto: string): string {
+	return texto.replace(/\\(\\|n)/g, (_, c) => c === 'n' ? '\n' : '\\');
+}
+
+function parseValue(texto: string): number {
+	switch (texto) {
+		case '+Inf': return Infinity;
+		case '-Inf': return -Infinity;
+		case 'NaN': return NaN;
+		default: return Number(texto);
+	}
+}
+
+// Lee una línea de muestra: nombre{etiqueta="valor",...} valor [timestamp]
+function parseSample(linea: string): PrometheusSample | null {
+	const nombre = /^[a-zA-Z_:][a-zA-Z0-9_:]*/.exec(linea);
+	if (!nombre) {
+		return null;
+	}
+	let i = nombre[0].length;
+	const labels: [string, string][] = [];
+
+	if (linea[i] === '{') {
+		i++;
+		while (i < linea.length && linea[i] !== '}') {
+			const etiqueta = /^\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"/.exec(linea.substring(i));
+			if (!etiqueta) {
+				return null;
+			}
+			i += etiqueta[0].length;
+			let valor = '';
+			while (i < linea.length && linea[i] !== '"') {
+				if (linea[i] === '\\' && i + 1 < linea.length) {
+					i++;
+					valor += linea[i] === 'n' ? '\n' : linea[i];
+				} else {
+					valor += linea[i];
+				}
+				i++;
+			}
+			labels.push([etiqueta[1], valor]);
+			i++;
+			while (linea[i] === ',' || linea[i] === ' ') {
+				i++;
+			}
+		}
+		i++;
+	}
+
+	const valor = linea.substring(i).trim().split(/\s+/)[0];
+	if (!valor) {
+		return null;
+	}
+	return { name: nombre[0], labels, value: parseValue(valor) };
+}
+
+// Función para leer el texto de /metrics agrupando las muestras por familia (# HELP / # TYPE)
+export function parsePrometheus(texto: string): PrometheusFamily[] {
+	const familias = new Map<string, PrometheusFamily>();
+	const obtenerFamilia = (nombre: string) => {
+		let familia = familias.get(nombre);
+		if (!familia) {
+			familia = { name: nombre, type: 'untyped', help: '', samples: [] };
+			familias.set(nombre, familia);
+		}
+		return familia;
+	};
+
+	for (const lineaOriginal of texto.split('\n')) {
+		const linea = lineaOriginal.trim();
+		if (!linea) {
+			continue;
+		}
+
+		if (linea.startsWith('#')) {
+			const meta = /^#\s*(HELP|TYPE)\s+(\S+)\s*(.*)$/.exec(linea);
+			if (meta) {
+				const familia = obtenerFamilia(meta[2]);
+				if (meta[1] === 'HELP') {
+					familia.help = unescapeHelp(meta[3]);
+				} else {
+					familia.type = meta[3] || 'untyped';
+				}
+			}
+			continue;
+		}
+
+		const muestra = parseSample(linea);
+		if (!muestra) {
+			continue;
+		}
+
+		// Las series _bucket, _sum y _count pertenecen a la familia del histograma o summary
+		const base = muestra.name.replace(/_(bucket|sum|count)$/, '');
+		const familiaBase = familias.get(base);
+		if (base !== muestra.name && familiaBase && (familiaBase.type === 'histogram' || familiaBase.type === 'summary')) {
+			familiaBase.samples.push(muestra);
+		} else {
+			obtenerFamilia(muestra.name).samples.push(muestra);
+		}
+	}
+
+	return [...familias.values()].filter(f => f.samples.length > 0);
+}
+
+// Función para estimar un percentil a partir de los buckets acumulados de un histograma
+// (interpolación lineal dentro del bucket, como histogram_quantile de Prometheus)
+export function histogramQuantile(quantile: number, buckets: { le: number; count: number }[]): number {
+	const ordenados = [...buckets].sort((a, b) => a.le - b.le);
+	const total = ordenados.length ? ordenados[ordenados.length - 1].count : 0;
+	if (total <= 0) {
+		return NaN;
+	}
+
+	const rango = quantile * total;
+	let limiteInferior = 0;
+	let cuentaInferior = 0;
+	for (const bucket of ordenados) {
+		if (bucket.count >= rango) {
+			if (bucket.le === Infinity) {
+				return limiteInferior;
+			}
+			const enBucket = bucket.count - cuentaInferior;
+			return enBucket > 0
+				? limiteInferior + (bucket.le - limiteInferior) * (rango - cuentaInferior) / enBucket
+				: bucket.le;
+		}
+		limiteInferior = bucket.le;
+		cuentaInferior = bucket.count;
+	}
+	return limiteInferior;
+}
+
+// dotnet-monitor nombra las métricas como <proveedor sin separadores>_<nombre>_<unidad>, en minúsculas
+function normalizarProveedor(nombre: string): string {
+	return nombre.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function percentileTag(quantile: number): string {
+	return `Percentile=${Math.round(quantile * 100)}`;
+}
+
+function formatearTags(labels: [string, string][], extra?: string): string | undefined {
+	const tags = labels.map(([clave, valor]) => `${clave}=${valor}`);
+	if (extra) {
+		tags.push(extra);
+	}
+	return tags.length ? tags.join(',') : undefined;
+}
+
+// Función para convertir las familias de /metrics en registros de /livemetrics.
+// Los proveedores conocidos permiten recuperar el proveedor y el nombre originales de cada métrica
+export function prometheusToLiveMetrics(familias: PrometheusFamily[], proveedores: KnownProvider[]): LiveMetric[] {
+	const prefijos = proveedores
+		.map(p => ({ ...p, prefijo: normalizarProveedor(p.name) + '_' }))
+		.sort((a, b) => b.prefijo.length - a.prefijo.length);
+	const metricas: LiveMetric[] = [];
+
+	for (const familia of familias) {
+		const proveedor = prefijos.find(p => familia.name.startsWith(p.prefijo));
+		let resto = proveedor ? familia.name.substring(proveedor.prefijo.length) : familia.name;
+
+		// Quitar el sufijo de unidad que añade dotnet-monitor
+		let unit = '';
+		const sufijo = /_(bytes|ratio|seconds|s|ms|_[a-z0-9_]+_)$/.exec(resto);
+		if (sufijo) {
+			resto = resto.substring(0, resto.length - sufijo[0].length);
+			unit = { bytes: 'B', ratio: '%', seconds: 's' }[sufijo[1]] ?? sufijo[1].replace(/^_|_$/g, '');
+		}
+
+		const name = proveedor ? resto.replace(/_/g, proveedor.isMeter ? '.' : '-') : resto;
+		let escala = 1;
+		if (proveedor?.name === 'System.Runtime' && unit === 'B' && MB_COUNTERS.includes(name)) {
+			unit = 'MB';
+			escala = 1 / 1000000;
+		}
+
+		const base = {
+			provider: proveedor?.name ?? 'Prometheus',
+			name,
+			displayName: familia.help || name,
+			unit,
+			counterType: familia.type === 'counter' ? 'Rate' : 'Metric'
+		};
+
+		if (familia.type === 'histogram') {
+			// Agrupar los buckets de cada serie (mismas etiquetas salvo le) y calcular sus percentiles
+			const series = new Map<string, { labels: [string, string][]; buckets: { le: number; count: number }[] }>();
+			for (const muestra of familia.samples.filter(m => m.name.endsWith('_bucket'))) {
+				const le = muestra.labels.find(([clave]) => clave === 'le');
+				if (!le) {
+					continue;
+				}
+				const labels = muestra.labels.filter(([clave]) => clave !== 'le');
+				const clave = JSON.stringify(labels);
+				if (!series.has(clave)) {
+					series.set(clave, { labels, buckets: [] });
+				}
+				series.get(clave)!.buckets.push({ le: parseValue(le[1]), count: muestra.value });
+			}
+			for (const serie of series.values()) {
+				for (const quantile of HISTOGRAM_QUANTILES) {
+					const value = histogramQuantile(quantile, serie.buckets);
+					if (!isNaN(value)) {
+						metricas.push({ ...base, tags: formatearTags(serie.labels, percentileTag(quantile)), value: value * escala });
+					}
+				}
+			}
+			continue;
+		}
+
+		for (const muestra of familia.samples) {
+			if (familia.type === 'summary' && muestra.name !== familia.name) {
+				continue;
+			}
+			if (isNaN(muestra.value)) {
+				continue;
+			}
+			const quantile = muestra.labels.find(([clave]) => clave === 'quantile');
+			const labels = muestra.labels.filter(([clave]) => clave !== 'quantile');
+			const tags = formatearTags(labels, quantile ? percentileTag(Number(quantile[1])) : undefined);
+			metricas.push({ ...base, ...(tags ? { tags } : {}), value: muestra.value * escala });
+		}
+	}
+
+	return metricas;
+}
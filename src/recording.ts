@@ -0,0 +1,73 @@
+// Grabaciones de sesiones de métricas: cada registro de /livemetrics (o de /metrics convertido) se guarda
+// en una línea NDJSON con la hora a la que llegó, para poder reproducir la sesión sin el proceso original
+
+export const RECORDING_FORMAT = 'dotnet-monitor-metrics';
+
+// Primera línea del archivo con los datos de la sesión
+export interface RecordingHeader {
+	format: typeof RECORDING_FORMAT;
+	version: 1;
+	pid: number;
+	processName?: string;
+	transport?: string;
+	startedAt: string;
+}
+
+export interface RecordedMetric {
+	t: number;
+	metric: any;
+}
+
+export interface Recording {
+	header?: RecordingHeader;
+	records: RecordedMetric[];
+}
+
+export function createRecordingHeader(pid: number, startedAt: Date, processName?: string, transport?: string): string {
+	const header: RecordingHeader = { format: RECORDING_FORMAT, version: 1, pid, processName, transport, startedAt: startedAt.toISOString() };
+	return JSON.stringify(header) + '\n';
+}
+
+export function formatRecordedMetric(t: number, metric: unknown): string {
+	return JSON.stringify({ t, metric }) + '\n';
+}
+
+// Función para leer una grabación. Además del formato propio acepta registros sueltos de /livemetrics
+// en NDJSON o json-seq (separados por \x1E), usando su campo timestamp como hora de llegada
+export function parseRecording(texto: string): Recording {
+	const recording: Recording = { records: [] };
+	let ultimo = 0;
+
+	for (const linea of texto.split(/[\n\x1E]/)) {
+		const contenido = linea.trim();
+		if (!contenido) {
+			continue;
+		}
+		let json: any;
+		try {
+			json = JSON.parse(contenido);
+		} catch {
+			continue;
+		}
+		if (json?.format === RECORDING_FORMAT) {
+			recording.header = json;
+			continue;
+		}
+
+		const metric = json?.metric ?? json;
+		if (typeof metric?.name !== 'string' || typeof metric?.value !== 'number') {
+			continue;
+		}
+		let t = typeof json.t === 'number' ? json.t : Date.parse(metric.timestamp ?? '');
+		// Sin hora válida el registro se coloca junto al anterior
+		if (isNaN(t)) {
+			t = ultimo;
+		}
+		ultimo = t;
+		recording.records.push({ t, metric });
+	}
+
+	// La reproducción avanza en orden de llegada
+	recording.records.sort((a, b) => a.t - b.t);
+	return recording;
+}
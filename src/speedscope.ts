@@ -0,0 +1,98 @@
+// Lector de perfiles en formato speedscope (https://www.speedscope.app/file-format-schema.json)
+//
+// dotnet-monitor devuelve este formato en /stacks cuando se pide application/speedscope+json:
+// un perfil "evented" por hilo con eventos de apertura (O) y cierre (C) de cada frame.
+
+export interface SpeedscopeStack {
+	frames: number[];
+	weight: number;
+}
+
+export interface SpeedscopeThread {
+	name: string;
+	stacks: SpeedscopeStack[];
+}
+
+export interface SpeedscopeData {
+	frames: string[];
+	threads: SpeedscopeThread[];
+}
+
+interface EventedProfile {
+	type: 'evented';
+	name?: string;
+	events: { type: 'O' | 'C'; frame: number; at: number }[];
+}
+
+interface SampledProfile {
+	type: 'sampled';
+	name?: string;
+	samples: number[][];
+	weights?: number[];
+}
+
+// Convierte un perfil "evented" en pilas con peso igual al tiempo que estuvieron activas.
+// Si todos los eventos ocurren en el mismo instante (una única captura), cada pila hoja pesa 1
+function eventedToStacks(profile: EventedProfile): SpeedscopeStack[] {
+	const porTiempo: SpeedscopeStack[] = [];
+	const hojas: SpeedscopeStack[] = [];
+	const stack: number[] = [];
+	let lastAt = profile.events.length > 0 ? profile.events[0].at : 0;
+	let ultimoFueApertura = false;
+
+	for (const event of profile.events) {
+		if (stack.length > 0 && event.at > lastAt) {
+			porTiempo.push({ frames: [...stack], weight: event.at - lastAt });
+		}
+		lastAt = Math.max(lastAt, event.at);
+
+		if (event.type === 'O') {
+			stack.push(event.frame);
+			ultimoFueApertura = true;
+		} else {
+			if (ultimoFueApertura) {
+				hojas.push({ frames: [...stack], weight: 1 });
+			}
+			// Cerrar hasta el frame indicado (tolera eventos de cierre desordenados)
+			const index = stack.lastIndexOf(event.frame);
+			stack.length = index >= 0 ? index : Math.max(stack.length - 1, 0);
+			ultimoFueApertura = false;
+		}
+	}
+	if (ultimoFueApertura && stack.length > 0) {
+		hojas.push({ frames: [...stack], weight: 1 });
+	}
+
+	return porTiempo.length > 0 ? porTiempo : hojas;
+}
+
+function sampledToStacks(profile: SampledProfile): SpeedscopeStack[] {
+	return profile.samples.map((frames, i) => ({
+		frames: [...frames],
+		weight: profile.weights?.[i] ?? 1
+	}));
+}
+
+// Función para leer un archivo speedscope y devolver los frames y las pilas de cada hilo
+export function parseSpeedscope(json: unknown): SpeedscopeData {
+	const file = json as { shared?: { frames?: { name?: string }[] }; profiles?: (EventedProfile | SampledProfile)[] };
+	if (!file || !Array.isArray(file.shared?.frames) || !Array.isArray(file.profiles)) {
+		throw new Error('Not a speedscope file (missing shared frames or profiles)');
+	}
+
+	const frames = file.shared!.frames!.map(frame => frame?.name || '?');
+	const threads = file.profiles!.map((profile, i) => {
+		let stacks: SpeedscopeStack[] = [];
+		if (profile.type === 'evented' && Array.isArray(profile.events)) {
+			stacks = eventedToStacks(profile);
+		} else if (profile.type === 'sampled' && Array.isArray(profile.samples)) {
+			stacks = sampledToStacks(profile);
+		}
+		return {
+			name: profile.name || `Thread ${i + 1}`,
+			stacks: stacks.filter(s => s.frames.every(f => f >= 0 && f < frames.length))
+		};
+	});
+
+	return { frames, threads };
+}
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { parseAlertRule, parseCaptureAction, parseDuration, evaluateAlert, displayValue, matchesAlertRule, takeCapture, AlertState, CaptureBudget } from '../alerts';
+
+suite('Metric alerts', () => {
+	test('Parses thresholds, durations and growth rules', () => {
+		assert.deepStrictEqual(parseAlertRule('cpu-usage > 80% for 10s'), {
+			text: 'cpu-usage > 80% for 10s', metric: 'cpu-usage', kind: 'threshold', operator: '>', threshold: 80, durationMs: 10000,
+			captures: [], cooldownMs: 300000, maxCaptures: 3
+		});
+		assert.strictEqual(parseAlertRule('threadpool-queue-length >= 50')?.durationMs, 0);
+		assert.deepStrictEqual(parseAlertRule('gen-2-size growing for 5 min'), {
+			text: 'gen-2-size growing for 5 min', metric: 'gen-2-size', kind: 'growing', durationMs: 300000,
+			captures: [], cooldownMs: 300000, maxCaptures: 3
+		});
+		assert.strictEqual(parseAlertRule('gen-2-size growing'), undefined);
+		assert.strictEqual(parseAlertRule('cpu-usage is high'), undefined);
+		assert.strictEqual(parseAlertRule('cpu-usage > 80 for ever'), undefined);
+		assert.strictEqual(parseDuration('1 hour'), 3600000);
+	});
+
+	test('Parses rules that capture diagnostics', () => {
+		const rule = parseAlertRule({ when: 'threadpool-queue-length > 100 for 15s', capture: ['stacks', 'trace 10s'], cooldown: '10 min', maxCaptures: 2 })!;
+
+		assert.strictEqual(rule.text, 'threadpool-queue-length > 100 for 15s → stacks, trace 10s');
+		assert.deepStrictEqual(rule.captures, [{ kind: 'stacks' }, { kind: 'trace', durationSeconds: 10 }]);
+		assert.strictEqual(rule.cooldownMs, 600000);
+		assert.strictEqual(rule.maxCaptures, 2);
+		assert.strictEqual(parseAlertRule({ when: 'working-set > 2 GB', capture: ['gcdump'] })?.threshold, 2048);
+		assert.deepStrictEqual(parseCaptureAction('dump withheap'), { kind: 'dump', option: 'WithHeap' });
+		assert.deepStrictEqual(parseCaptureAction('trace Http'), { kind: 'trace', option: 'Http', durationSeconds: 10 });
+		assert.strictEqual(parseCaptureAction('stacks 10s'), undefined);
+		assert.strictEqual(parseAlertRule({ when: 'cpu-usage > 80', capture: ['screenshot'] }), undefined);
+	});
+
+	test('Limits captures with a cooldown and a maximum per session', () => {
+		const rule = parseAlertRule({ when: 'cpu-usage > 80', capture: ['stacks'], cooldown: '1 min', maxCaptures: 2 })!;
+		const budget: CaptureBudget = { count: 0 };
+
+		assert.deepStrictEqual([0, 30000, 60000, 200000].map(t => takeCapture(rule, budget, t)), ['ok', 'cooldown', 'ok', 'limit']);
+	});
+
+	test('Compares with the value shown in the dashboard', () => {
+		const rule = parseAlertRule('cpu-usage > 80%')!;
+
+		assert.strictEqual(displayValue({ provider: 'System.Runtime', name: 'cpu-usage', value: 0.85 }), 85);
+		assert.strictEqual(displayValue({ provider: 'System.Runtime', name: 'gen-2-size', value: 3 * 1024 * 1024 }), 3);
+		assert.ok(matchesAlertRule(rule, { provider: 'System.Runtime', name: 'cpu-usage', value: 1 }));
+		assert.ok(!matchesAlertRule(rule, { provider: 'System.Runtime', name: 'cpu-usage', tags: 'core=1', value: 1 }));
+	});
+
+	test('Fires once the threshold holds for the whole duration and resolves after', () => {
+		const rule = parseAlertRule('cpu-usage > 80 for 10s')!;
+		const state: AlertState = { firing: false };
+		const valores: [number, number][] = [[0, 90], [5000, 95], [8000, 70], [9000, 85], [14000, 90], [19000, 91], [24000, 92], [29000, 50]];
+
+		assert.deepStrictEqual(valores.map(([t, v]) => evaluateAlert(rule, state, t, v)),
+			[undefined, undefined, undefined, undefined, undefined, 'fired', undefined, 'resolved']);
+	});
+
+	test('Fires when a metric keeps growing', () => {
+		const rule = parseAlertRule('gen-2-size growing for 1 min')!;
+		const state: AlertState = { firing: false };
+		const valores: [number, number][] = [[0, 10], [30000, 12], [50000, 11], [80000, 11], [110000, 13], [120000, 14], [130000, 9]];
+
+		assert.deepStrictEqual(valores.map(([t, v]) => evaluateAlert(rule, state, t, v)),
+			[undefined, undefined, undefined, undefined, 'fired', undefined, 'resolved']);
+	});
+});
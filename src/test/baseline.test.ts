@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { computeStats, createBaseline, compareWithBaseline, formatChange, summarizeRegressions, baselineKey, addToSeries, MetricSeries } from '../baseline';
+import { RecordedMetric } from '../recording';
+
+suite('Metric baselines', () => {
+	const serie = (name: string, values: number[], provider = 'System.Runtime'): RecordedMetric[] =>
+		values.map((value, i) => ({ t: 1000 * i, metric: { provider, name, unit: '', value } }));
+
+	test('Computes min, average, p95 and max', () => {
+		const stats = computeStats([5, 1, 3, 2, 4, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+
+		assert.deepStrictEqual(stats, { min: 1, avg: 10.5, p95: 19, max: 20, count: 20 });
+	});
+
+	test('Keys runtime metrics by name and the rest by provider', () => {
+		assert.strictEqual(baselineKey({ provider: 'System.Runtime', name: 'alloc-rate' }), 'alloc-rate');
+		assert.strictEqual(baselineKey({ provider: 'Microsoft.AspNetCore.Hosting', name: 'requests-per-second' }), 'Microsoft.AspNetCore.Hosting/requests-per-second');
+		assert.strictEqual(baselineKey({ provider: 'System.Runtime', name: 'cpu-usage', tags: 'core=1' }), 'System.Runtime/cpu-usage[core=1]');
+	});
+
+	test('Classifies deltas by severity and direction', () => {
+		const baseline = createBaseline('before', [
+			...serie('alloc-rate', [100, 100]),
+			...serie('gen-2-gc-count', [1, 1]),
+			...serie('working-set', [50, 50]),
+			...serie('requests-per-second', [100, 100], 'Microsoft.AspNetCore.Hosting'),
+			...serie('only-in-baseline', [1])
+		], new Date('2026-10-19T10:00:00Z'));
+		const deltas = compareWithBaseline(baseline, [
+			...serie('alloc-rate', [138, 138]),
+			...serie('gen-2-gc-count', [4, 4]),
+			...serie('working-set', [52, 52]),
+			...serie('requests-per-second', [150, 150], 'Microsoft.AspNetCore.Hosting')
+		]);
+
+		assert.deepStrictEqual(deltas.map(d => [d.key, d.severity, d.label]), [
+			['gen-2-gc-count', 'critical', '+4x'],
+			['alloc-rate', 'major', '+38%'],
+			['Microsoft.AspNetCore.Hosting/requests-per-second', 'improved', '+50%'],
+			['working-set', 'unchanged', '+4%']
+		]);
+		assert.strictEqual(summarizeRegressions(deltas), 'gen-2-gc-count +4x, alloc-rate +38%');
+	});
+
+	test('Compares series the same way as records', () => {
+		const baseline = createBaseline('before', serie('alloc-rate', [100, 100]), new Date('2026-10-19T10:00:00Z'));
+		const registros = [...serie('alloc-rate', [120, 160, 140]), ...serie('cpu-usage', [Number.NaN])];
+		const series: MetricSeries = new Map();
+		registros.forEach(registro => addToSeries(series, registro.metric));
+
+		assert.deepStrictEqual([...series.keys()], ['alloc-rate']);
+		assert.deepStrictEqual(compareWithBaseline(baseline, series), compareWithBaseline(baseline, registros));
+		assert.strictEqual(compareWithBaseline(baseline, series)[0].label, '+40%');
+	});
+
+	test('Formats changes', () => {
+		assert.strictEqual(formatChange(-0.2), '-20%');
+		assert.strictEqual(formatChange(0), '±0%');
+		assert.strictEqual(formatChange(1.5), '+2.5x');
+		assert.strictEqual(formatChange(Infinity), 'from 0');
+	});
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { parseCallStacks, getSourceTarget, findMethodInSource, isFrameworkFrame } from '../callstacks';
+
+suite('Call stacks', () => {
+	test('Parses the JSON format, one object per thread', () => {
+		const texto = [
+			JSON.stringify({
+				threadId: 30860,
+				threadName: null,
+				frames: [
+					{ methodName: '[Native Frames]', typeName: '', moduleName: '' },
+					{ methodName: 'Wait', typeName: 'System.Threading.Monitor', moduleName: 'System.Private.CoreLib.dll', parameterTypes: ['int32'] }
+				]
+			}),
+			JSON.stringify({ threadId: 1, threadName: 'Main', frames: [] })
+		].join('\n');
+
+		const threads = parseCallStacks(texto);
+
+		assert.strictEqual(threads.length, 2);
+		assert.strictEqual(threads[0].threadId, 30860);
+		assert.strictEqual(threads[0].frames[0].isNative, true);
+		assert.strictEqual(threads[0].frames[1].display, 'System.Threading.Monitor.Wait(int32)');
+		assert.strictEqual(threads[1].threadName, 'Main');
+	});
+
+	test('Parses the plain text format', () => {
+		const threads = parseCallStacks([
+			'Thread: (0x3604)',
+			'  [Native Frames]',
+			'  MyApp!MyApp.Services.OrderService.Process(int32)',
+			'  MyApp!MyApp.Services.OrderService..ctor()'
+		].join('\n'));
+
+		assert.strictEqual(threads[0].threadId, 0x3604);
+		assert.strictEqual(threads[0].frames.length, 3);
+		assert.strictEqual(threads[0].frames[1].typeName, 'MyApp.Services.OrderService');
+		assert.strictEqual(threads[0].frames[1].methodName, 'Process');
+		assert.strictEqual(threads[0].frames[2].methodName, '.ctor');
+		assert.strictEqual(isFrameworkFrame(threads[0].frames[1]), false);
+	});
+
+	test('Maps compiler generated names back to the source method', () => {
+		const frame = (typeName: string, methodName: string) =>
+			({ typeName, methodName, moduleName: 'MyApp.dll', display: '', isNative: false });
+
+		assert.deepStrictEqual(getSourceTarget(frame('MyApp.Program+<Main>d__0', 'MoveNext')), { typeName: 'Program', methodName: 'Main' });
+		assert.deepStrictEqual(getSourceTarget(frame('MyApp.Program+<>c', '<Run>b__0_0')), { typeName: 'Program', methodName: 'Run' });
+		assert.deepStrictEqual(getSourceTarget(frame('MyApp.Repository`1', '.ctor')), { typeName: 'Repository', methodName: 'Repository' });
+	});
+
+	test('Finds the method declaration inside the type', () => {
+		const source = [
+			'namespace MyApp;',
+			'public class OrderService',
+			'{',
+			'    public void Start() => Process(1);',
+			'    private async Task<int> Process(int id)',
+			'    {',
+			'        return await Process(id - 1);',
+			'    }',
+			'}'
+		].join('\n');
+
+		assert.strictEqual(findMethodInSource(source, 'OrderService', 'Process'), 4);
+		assert.strictEqual(findMethodInSource(source, 'OrderService', 'Missing'), 1);
+		assert.strictEqual(findMethodInSource(source, 'Other', 'Process'), undefined);
+	});
+});
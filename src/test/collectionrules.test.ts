@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { validateCollectionRules, toEnvironmentVariables, parseCollectionRuleStatus, summarizeRuleActions, CollectionRules } from '../collectionrules';
+import { parseOperation } from '../operations';
+
+suite('Collection rules', () => {
+	const reglas: CollectionRules = {
+		HighCpu: {
+			Trigger: { Type: 'CPUUsage', Settings: { GreaterThan: 80, SlidingWindowDuration: '00:00:10' } },
+			Actions: [
+				{ Type: 'CollectDump', Settings: { Type: 'Mini', Egress: 'monitorFile' } },
+				{ Type: 'CollectStacks', Settings: { Egress: 'monitorFile' } }
+			],
+			Limits: { ActionCount: 1 }
+		}
+	};
+
+	test('Accepts valid rules', () => {
+		assert.deepStrictEqual(validateCollectionRules(reglas), []);
+	});
+
+	test('Reports missing settings, unknown types and missing egress', () => {
+		const errores = validateCollectionRules({
+			'Bad name!': {
+				Trigger: { Type: 'EventCounter', Settings: { ProviderName: 'System.Runtime' } },
+				Actions: [{ Type: 'CollectTrace', Settings: {} }, { Type: 'Reboot' }]
+			},
+			NoActions: { Trigger: { Type: 'Startup' }, Actions: [] }
+		});
+
+		assert.deepStrictEqual(errores, [
+			'Bad name!: rule names may only contain letters, digits, \'_\', \'.\' and \'-\'',
+			'Bad name!: trigger EventCounter requires Settings.CounterName',
+			'Bad name!: trigger EventCounter requires Settings.GreaterThan or Settings.LessThan',
+			'Bad name!: action CollectTrace requires Settings.Egress',
+			'Bad name!: unknown action type "Reboot"',
+			'NoActions: at least one action is required'
+		]);
+	});
+
+	test('Flattens rules into dotnet-monitor environment variables', () => {
+		const variables = toEnvironmentVariables(reglas, 'DotnetMonitor_CollectionRules');
+
+		assert.deepStrictEqual(variables, {
+			'DotnetMonitor_CollectionRules__HighCpu__Trigger__Type': 'CPUUsage',
+			'DotnetMonitor_CollectionRules__HighCpu__Trigger__Settings__GreaterThan': '80',
+			'DotnetMonitor_CollectionRules__HighCpu__Trigger__Settings__SlidingWindowDuration': '00:00:10',
+			'DotnetMonitor_CollectionRules__HighCpu__Actions__0__Type': 'CollectDump',
+			'DotnetMonitor_CollectionRules__HighCpu__Actions__0__Settings__Type': 'Mini',
+			'DotnetMonitor_CollectionRules__HighCpu__Actions__0__Settings__Egress': 'monitorFile',
+			'DotnetMonitor_CollectionRules__HighCpu__Actions__1__Type': 'CollectStacks',
+			'DotnetMonitor_CollectionRules__HighCpu__Actions__1__Settings__Egress': 'monitorFile',
+			'DotnetMonitor_CollectionRules__HighCpu__Limits__ActionCount': '1'
+		});
+	});
+
+	test('Parses the rule status', () => {
+		const estado = parseCollectionRuleStatus('HighCpu', {
+			state: 'Running',
+			stateReason: 'This collection rule is active and waiting for its triggering conditions to be satisfied.',
+			lifetimeOccurrences: 2,
+			slidingWindowOccurrences: 1,
+			actionCountLimit: 5,
+			slidingWindowDurationCountdown: null
+		});
+
+		assert.strictEqual(estado.state, 'Running');
+		assert.strictEqual(estado.lifetimeOccurrences, 2);
+		assert.strictEqual(estado.actionCountLimit, 5);
+		assert.strictEqual(estado.slidingWindowDurationCountdown, undefined);
+	});
+
+	test('Summarizes the actions of the last trigger', () => {
+		const disparo = new Date('2026-10-19T10:00:00Z');
+		const operaciones = [
+			parseOperation({ operationId: '1', status: 'Succeeded', createdDateTime: '2026-10-19T09:00:00Z', process: { pid: 42 }, resourceLocation: '/egress/old_42.gcdump' }),
+			parseOperation({ operationId: '2', status: 'Failed', createdDateTime: '2026-10-19T10:00:02Z', process: { pid: 42 }, error: { message: 'Disk full' } }),
+			parseOperation({ operationId: '3', status: 'Running', createdDateTime: '2026-10-19T10:00:03Z', process: { pid: 7 } })
+		];
+		const archivos = [
+			{ name: '20261019_100004_42.gcdump', modified: new Date('2026-10-19T10:00:04Z') },
+			{ name: '20261019_100005_420.gcdump', modified: new Date('2026-10-19T10:00:05Z') }
+		];
+
+		assert.deepStrictEqual(summarizeRuleActions(42, disparo, operaciones, archivos), {
+			status: 'Failed', at: disparo, artifacts: ['20261019_100004_42.gcdump'], error: 'Disk full'
+		});
+		assert.strictEqual(summarizeRuleActions(42, new Date('2026-10-19T11:00:00Z'), operaciones, archivos)?.status, 'NoArtifacts');
+		// Sin la hora del disparo se usa la tanda más reciente
+		assert.deepStrictEqual(summarizeRuleActions(42, undefined, [operaciones[0]], archivos), {
+			status: 'Succeeded', at: new Date('2026-10-19T10:00:04Z'), artifacts: ['20261019_100004_42.gcdump'], error: undefined
+		});
+		assert.strictEqual(summarizeRuleActions(99, undefined, operaciones, archivos), undefined);
+	});
+});
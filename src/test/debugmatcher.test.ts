@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { matchDebugProcess, getAttachProcessId, needsCommandLine, ProcessCandidate } from '../debugmatcher';
+
+suite('Debug process matcher', () => {
+	const procesos: ProcessCandidate[] = [
+		{ pid: 100, name: 'dotnet', commandLine: 'dotnet C:\\Users\\dev\\.vscode\\extensions\\tool.dll' },
+		{ pid: 200, name: 'dotnet', commandLine: 'dotnet C:\\src\\Orders\\bin\\Debug\\net8.0\\Orders.Api.dll' },
+		{ pid: 300, name: 'Billing.Worker', commandLine: '/src/Billing/bin/Debug/net8.0/Billing.Worker' }
+	];
+
+	test('Uses the PID reported by the debug session', () => {
+		const match = matchDebugProcess(procesos, { pid: 300, program: 'C:/src/Orders/bin/Debug/net8.0/Orders.Api.dll' });
+
+		assert.deepStrictEqual(match, { pid: 300, strategy: 'pid', reason: 'PID 300 reported by the debug session' });
+	});
+
+	test('Does not guess when the session PID is not listed yet', () => {
+		assert.strictEqual(matchDebugProcess(procesos, { pid: 999, program: 'Orders.Api.dll' }), undefined);
+	});
+
+	test('Finds a dotnet-hosted DLL by its path in the command line', () => {
+		const match = matchDebugProcess(procesos, { program: 'C:/src/Orders/bin/Debug/net8.0/Orders.Api.dll' });
+
+		assert.strictEqual(match?.pid, 200);
+		assert.strictEqual(match?.strategy, 'commandLine');
+	});
+
+	test('Matches the apphost name without extension', () => {
+		const match = matchDebugProcess(
+			procesos.map(p => ({ pid: p.pid, name: p.name })),
+			{ program: '/src/Billing/bin/Debug/net8.0/Billing.Worker.dll' }
+		);
+
+		assert.strictEqual(match?.pid, 300);
+		assert.strictEqual(match?.strategy, 'nameWithoutExtension');
+	});
+
+	test('Reports ambiguous matches in the reason', () => {
+		const match = matchDebugProcess(
+			[{ pid: 1, name: 'Api' }, { pid: 2, name: 'Api' }],
+			{ projectPath: '/src/Api/Api.csproj' }
+		);
+
+		assert.strictEqual(match?.pid, 1);
+		assert.strictEqual(match?.strategy, 'project');
+		assert.ok(match?.reason.includes('2 processes matched'));
+	});
+
+	test('Reads processId from attach configurations only', () => {
+		assert.strictEqual(getAttachProcessId({ request: 'attach', processId: 4321 }), 4321);
+		assert.strictEqual(getAttachProcessId({ request: 'attach', processId: '4321' }), 4321);
+		assert.strictEqual(getAttachProcessId({ request: 'attach', processId: '${command:pickProcess}' }), undefined);
+		assert.strictEqual(getAttachProcessId({ request: 'launch', processId: 4321 }), undefined);
+	});
+
+	test('Only needs command lines for DLLs without a known PID', () => {
+		assert.strictEqual(needsCommandLine({ program: 'app/Orders.Api.dll' }), true);
+		assert.strictEqual(needsCommandLine({ pid: 1, program: 'app/Orders.Api.dll' }), false);
+		assert.strictEqual(needsCommandLine({ program: 'app/Orders.Api.exe' }), false);
+	});
+});
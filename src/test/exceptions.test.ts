@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { parseExceptions, groupExceptions } from '../exceptions';
+
+suite('Exceptions history', () => {
+	const entrada = (id: number, typeName: string, timestamp: string) => JSON.stringify({
+		id,
+		timestamp,
+		typeName,
+		moduleName: 'System.Private.CoreLib.dll',
+		message: `Error ${id}`,
+		innerExceptions: [],
+		stack: {
+			threadId: 4768,
+			threadName: null,
+			frames: [{ methodName: 'Get', typeName: 'MyApp.Controllers.OrdersController', moduleName: 'MyApp.dll', parameterTypes: ['int32'] }]
+		}
+	});
+
+	test('Parses NDJSON entries with their stack', () => {
+		const exceptions = parseExceptions([
+			entrada(1, 'System.InvalidOperationException', '2024-01-01T10:00:00Z'),
+			entrada(2, 'System.ArgumentException', '2024-01-01T10:00:01Z')
+		].join('\n'));
+
+		assert.strictEqual(exceptions.length, 2);
+		assert.strictEqual(exceptions[0].message, 'Error 1');
+		assert.strictEqual(exceptions[0].threadId, 4768);
+		assert.strictEqual(exceptions[0].frames[0].display, 'MyApp.Controllers.OrdersController.Get(int32)');
+	});
+
+	test('Groups by type with the most frequent first', () => {
+		const groups = groupExceptions(parseExceptions([
+			entrada(1, 'System.ArgumentException', '2024-01-01T10:00:00Z'),
+			entrada(2, 'System.InvalidOperationException', '2024-01-01T10:00:01Z'),
+			entrada(3, 'System.InvalidOperationException', '2024-01-01T10:00:02Z')
+		].join('\n')));
+
+		assert.deepStrictEqual(groups.map(g => [g.typeName, g.count]), [
+			['System.InvalidOperationException', 2],
+			['System.ArgumentException', 1]
+		]);
+		assert.strictEqual(groups[0].occurrences[0].id, 3);
+		assert.strictEqual(groups[0].lastTimestamp, '2024-01-01T10:00:02Z');
+	});
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { toCsv, toJson, filterByTimeRange, parseTimeRange, metricColumn } from '../export';
+import { RecordedMetric } from '../recording';
+
+suite('Metric history export', () => {
+	const cpu = (value: number) => ({ provider: 'System.Runtime', name: 'cpu-usage', unit: '%', value });
+	const heap = (value: number) => ({ provider: 'System.Runtime', name: 'gc-heap-size', unit: 'MB', value });
+	const latencia = (value: number) => ({ provider: 'Microsoft.AspNetCore.Hosting', name: 'http.server.request.duration', unit: 's', tags: 'route=/a,Percentile=95', value });
+	const inicio = Date.parse('2026-10-19T10:00:00Z');
+	const registros: RecordedMetric[] = [
+		{ t: inicio, metric: cpu(0.1) },
+		{ t: inicio + 3, metric: heap(10) },
+		{ t: inicio + 5000, metric: cpu(0.2) },
+		{ t: inicio + 5002, metric: heap(11) },
+		{ t: inicio + 5004, metric: latencia(0.25) }
+	];
+
+	test('Names columns by provider, metric, tags and unit', () => {
+		assert.strictEqual(metricColumn(cpu(1)), 'System.Runtime/cpu-usage (%)');
+		assert.strictEqual(metricColumn({ name: 'custom', value: 1 }), 'unknown/custom');
+	});
+
+	test('Writes one row per round and one column per metric', () => {
+		assert.strictEqual(toCsv(registros), [
+			'timestamp,System.Runtime/cpu-usage (%),System.Runtime/gc-heap-size (MB),"Microsoft.AspNetCore.Hosting/http.server.request.duration[route=/a,Percentile=95] (s)"',
+			'2026-10-19T10:00:00.000Z,0.1,10,',
+			'2026-10-19T10:00:05.000Z,0.2,11,0.25',
+			''
+		].join('\n'));
+	});
+
+	test('Writes one series per metric to JSON', () => {
+		const json = JSON.parse(toJson(registros, { pid: 42 }));
+
+		assert.strictEqual(json.pid, 42);
+		assert.strictEqual(json.from, '2026-10-19T10:00:00.000Z');
+		assert.strictEqual(json.metrics.length, 3);
+		assert.deepStrictEqual(json.metrics[0].samples.map((s: any) => s.value), [0.1, 0.2]);
+		assert.strictEqual(json.metrics[2].tags, 'route=/a,Percentile=95');
+	});
+
+	test('Filters by a local time range', () => {
+		const referencia = new Date(inicio);
+		const desde = new Date(inicio + 5000);
+		const texto = `${desde.getHours()}:${String(desde.getMinutes()).padStart(2, '0')}:05-${desde.getHours()}:${String(desde.getMinutes()).padStart(2, '0')}:05`;
+		const rango = parseTimeRange(texto, referencia)!;
+
+		assert.strictEqual(filterByTimeRange(registros, rango).length, 3);
+		assert.strictEqual(parseTimeRange('25:00-26:00', referencia), undefined);
+		assert.strictEqual(parseTimeRange('yesterday', referencia), undefined);
+	});
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import { parseGcDump, diffGcDumps, GcDumpSummary } from '../gcdump';
+
+// Escritor mínimo de FastSerialization para generar un .gcdump sintético
+class GcDumpBuilder {
+	private chunks: Buffer[] = [];
+
+	byte(value: number) {
+		this.chunks.push(Buffer.from([value]));
+		return this;
+	}
+
+	int32(value: number) {
+		const buffer = Buffer.alloc(4);
+		buffer.writeInt32LE(value);
+		this.chunks.push(buffer);
+		return this;
+	}
+
+	int64(value: number) {
+		const buffer = Buffer.alloc(8);
+		buffer.writeBigInt64LE(BigInt(value));
+		this.chunks.push(buffer);
+		return this;
+	}
+
+	string(value: string) {
+		this.int32(value.length);
+		this.chunks.push(Buffer.from(value, 'utf8'));
+		return this;
+	}
+
+	bytes(values: number[]) {
+		this.chunks.push(Buffer.from(values));
+		return this;
+	}
+
+	objectHeader(typeName: string) {
+		// BeginObject, BeginPrivateObject, NullReference, version, minimum version, name, EndObject
+		return this.byte(4).byte(5).byte(1).int32(1).int32(0).string(typeName).byte(6);
+	}
+
+	build() {
+		return Buffer.concat(this.chunks);
+	}
+}
+
+suite('GC dump parser', () => {
+	// Grafo: raíz -> Foo#1, Foo#2; ambos Foo -> String (100 bytes); dos nodos sin definir
+	const buildDump = () => {
+		const blob: number[] = [];
+		const labels: number[] = [];
+		const node = (typeAndSize: number[], children: number[]) => {
+			labels.push(blob.length);
+			blob.push(...typeAndSize, children.length, ...children);
+		};
+		node([0 << 1], [1, 2]);           // 0: raíz, hijos en +1 y +2
+		node([1 << 1], [2]);              // 1: Foo -> 3
+		node([1 << 1], [1]);              // 2: Foo -> 3
+		node([(2 << 1) | 1, 0x80, 100], []); // 3: String de 100 bytes (tamaño explícito)
+		const undefinedLabel = blob.length;
+		blob.push(0, 0);
+		labels.push(undefinedLabel, undefinedLabel);
+
+		const builder = new GcDumpBuilder()
+			.string('!FastSerialization.1')
+			.objectHeader('Microsoft.Diagnostics.Tracing.Analysis.GCHeapDump')
+			.objectHeader('Graphs.MemoryGraph')
+			.int64(148)
+			.int32(0)
+			.int32(3)
+			.string('[.NET Roots]').int32(0).string('')
+			.string('Foo').int32(24).string('App')
+			.string('System.String').int32(-1).string('System.Private.CoreLib')
+			.int32(labels.length);
+		labels.forEach(label => builder.int32(label));
+		return builder.int32(blob.length).bytes(blob).build();
+	};
+
+	test('Aggregates instance count and sizes per type', () => {
+		const summary = parseGcDump(buildDump());
+		const byName = new Map(summary.types.map(t => [t.name, t]));
+
+		assert.strictEqual(summary.totalSize, 148);
+		assert.strictEqual(summary.nodeCount, 4);
+
+		const foo = byName.get('Foo [App]')!;
+		assert.strictEqual(foo.count, 2);
+		assert.strictEqual(foo.exclusiveSize, 48);
+		assert.strictEqual(foo.inclusiveSize, 148);
+
+		const str = byName.get('System.String [System.Private.CoreLib]')!;
+		assert.strictEqual(str.count, 1);
+		assert.strictEqual(str.exclusiveSize, 100);
+		assert.strictEqual(str.inclusiveSize, 100);
+
+		assert.strictEqual(byName.get('[.NET Roots]')!.inclusiveSize, 148);
+	});
+
+	test('Rejects files without the FastSerialization header', () => {
+		assert.throws(() => parseGcDump(Buffer.from('not a gcdump')));
+	});
+
+	test('Diffs two snapshots sorted by growth', () => {
+		const summary = (types: [string, number, number][]): GcDumpSummary => ({
+			totalSize: 0,
+			nodeCount: 0,
+			types: types.map(([name, count, exclusiveSize]) => ({ name, count, exclusiveSize, inclusiveSize: exclusiveSize }))
+		});
+		const before = summary([['Foo', 10, 1000], ['Bar', 5, 500], ['Gone', 1, 10]]);
+		const after = summary([['Foo', 12, 1200], ['Bar', 5, 500], ['Leak', 100, 4000]]);
+
+		const diffs = diffGcDumps(before, after);
+
+		assert.deepStrictEqual(diffs.map(d => d.name), ['Leak', 'Foo', 'Bar', 'Gone']);
+		assert.strictEqual(diffs[0].isNew, true);
+		assert.strictEqual(diffs[0].countDelta, 100);
+		assert.strictEqual(diffs[1].sizeDelta, 200);
+		assert.strictEqual(diffs[1].isNew, false);
+		assert.strictEqual(diffs[3].countDelta, -1);
+	});
+});
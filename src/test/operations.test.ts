@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { parseOperation, sortOperations, getArtifactName, getLocalArtifactPath, formatElapsed, isOperationRunning, getArtifactFileName } from '../operations';
+
+suite('Egress operations', () => {
+	test('Parses the operation summary and detail', () => {
+		const operacion = parseOperation({
+			operationId: 'b5e2a3f0-0000-4000-8000-000000000001',
+			createdDateTime: '2026-10-19T10:00:00Z',
+			status: 'Failed',
+			egressProviderName: 'monitorFile',
+			isStoppable: false,
+			process: { pid: 1234, uid: 'a', name: 'Orders.Api' },
+			error: { title: 'Egress failed', detail: 'Access to the path is denied.' }
+		});
+
+		assert.strictEqual(operacion.pid, 1234);
+		assert.strictEqual(operacion.processName, 'Orders.Api');
+		assert.strictEqual(operacion.createdDateTime?.toISOString(), '2026-10-19T10:00:00.000Z');
+		assert.strictEqual(operacion.error, 'Access to the path is denied.');
+		assert.ok(!isOperationRunning(operacion));
+	});
+
+	test('Lists running operations first, newest first', () => {
+		const operaciones = [
+			{ operationId: 'a', status: 'Succeeded', createdDateTime: '2026-10-19T10:05:00Z' },
+			{ operationId: 'b', status: 'Running', createdDateTime: '2026-10-19T10:00:00Z' },
+			{ operationId: 'c', status: 'Cancelled', createdDateTime: '2026-10-19T10:10:00Z' }
+		].map(parseOperation);
+
+		assert.deepStrictEqual(sortOperations(operaciones).map(o => o.operationId), ['b', 'c', 'a']);
+	});
+
+	test('Extracts the artifact name from paths and URLs', () => {
+		const nombre = (resourceLocation: string) => getArtifactName(parseOperation({ operationId: 'x', resourceLocation }));
+
+		assert.strictEqual(nombre('C:\\dumps\\dump_20261019_100000.dmp'), 'dump_20261019_100000.dmp');
+		assert.strictEqual(nombre('https://account.blob.core.windows.net/dumps/trace%201.nettrace?sv=2020'), 'trace 1.nettrace');
+		assert.strictEqual(getLocalArtifactPath('/var/dumps/core_1234'), '/var/dumps/core_1234');
+		assert.strictEqual(getLocalArtifactPath('file:///C:/dumps/a.dmp'), 'C:/dumps/a.dmp');
+		assert.strictEqual(getLocalArtifactPath('https://account.blob.core.windows.net/dumps/a.dmp'), undefined);
+	});
+
+	test('Formats the elapsed time', () => {
+		const inicio = new Date('2026-10-19T10:00:00Z');
+
+		assert.strictEqual(formatElapsed(inicio, new Date('2026-10-19T10:00:42Z')), '42s');
+		assert.strictEqual(formatElapsed(inicio, new Date('2026-10-19T10:01:05Z')), '1m 05s');
+		assert.strictEqual(formatElapsed(inicio, new Date('2026-10-19T11:02:00Z')), '1h 02m');
+	});
+
+	test('Names artifacts by process, PID, kind and timestamp', () => {
+		const fecha = new Date('2026-10-19T10:00:42.123Z');
+
+		assert.strictEqual(getArtifactFileName('Orders.Api', 1234, 'gcdump', fecha, '.gcdump'), 'Orders.Api_1234_gcdump_2026-10-19_10-00-42-123.gcdump');
+		assert.strictEqual(getArtifactFileName('My App (x64)', 7, 'dump-mini', fecha, '.dmp'), 'My_App_x64_7_dump-mini_2026-10-19_10-00-42-123.dmp');
+		assert.strictEqual(getArtifactFileName(undefined, undefined, 'logs', fecha, '.ndjson'), 'process_unknown_logs_2026-10-19_10-00-42-123.ndjson');
+	});
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { parsePrometheus, prometheusToLiveMetrics, histogramQuantile, KnownProvider } from '../prometheus';
+
+suite('Prometheus scrape', () => {
+	const proveedores: KnownProvider[] = [
+		{ name: 'System.Runtime', isMeter: false },
+		{ name: 'Microsoft.AspNetCore.Hosting', isMeter: true }
+	];
+
+	const texto = [
+		'# HELP systemruntime_cpu_usage_ratio CPU Usage',
+		'# TYPE systemruntime_cpu_usage_ratio gauge',
+		'systemruntime_cpu_usage_ratio 0.25 1700000000000',
+		'# HELP systemruntime_working_set_bytes Working Set',
+		'# TYPE systemruntime_working_set_bytes gauge',
+		'systemruntime_working_set_bytes 52000000',
+		'# HELP microsoftaspnetcorehosting_http_server_request_duration_s Duration of HTTP server requests.',
+		'# TYPE microsoftaspnetcorehosting_http_server_request_duration_s summary',
+		'microsoftaspnetcorehosting_http_server_request_duration_s{http_route="/orders",quantile="0.5"} 0.012',
+		'microsoftaspnetcorehosting_http_server_request_duration_s{http_route="/orders",quantile="0.95"} 0.2',
+		'microsoftaspnetcorehosting_http_server_request_duration_s_sum{http_route="/orders"} 3.5',
+		'# TYPE app_latency histogram',
+		'app_latency_bucket{le="0.1"} 50',
+		'app_latency_bucket{le="1"} 100',
+		'app_latency_bucket{le="+Inf"} 100',
+		'app_latency_count 100',
+		'# TYPE app_note gauge',
+		'app_note{text="a \\"quoted\\", value"} 1'
+	].join('\n');
+
+	test('Groups samples into families with their labels', () => {
+		const familias = parsePrometheus(texto);
+		const porNombre = new Map(familias.map(f => [f.name, f]));
+
+		assert.strictEqual(porNombre.get('systemruntime_cpu_usage_ratio')!.help, 'CPU Usage');
+		assert.strictEqual(porNombre.get('systemruntime_cpu_usage_ratio')!.samples[0].value, 0.25);
+		assert.strictEqual(porNombre.get('app_latency')!.samples.length, 4);
+		assert.deepStrictEqual(porNombre.get('app_note')!.samples[0].labels, [['text', 'a "quoted", value']]);
+		assert.ok(!porNombre.has('app_latency_bucket'));
+	});
+
+	test('Converts families back to live metrics records', () => {
+		const metricas = prometheusToLiveMetrics(parsePrometheus(texto), proveedores);
+
+		const cpu = metricas.find(m => m.name === 'cpu-usage')!;
+		assert.strictEqual(cpu.provider, 'System.Runtime');
+		assert.strictEqual(cpu.unit, '%');
+		assert.strictEqual(cpu.value, 0.25);
+		assert.strictEqual(cpu.tags, undefined);
+
+		const workingSet = metricas.find(m => m.name === 'working-set')!;
+		assert.strictEqual(workingSet.unit, 'MB');
+		assert.strictEqual(workingSet.value, 52);
+
+		const duraciones = metricas.filter(m => m.name === 'http.server.request.duration');
+		assert.deepStrictEqual(duraciones.map(m => m.tags), ['http_route=/orders,Percentile=50', 'http_route=/orders,Percentile=95']);
+		assert.strictEqual(duraciones[0].provider, 'Microsoft.AspNetCore.Hosting');
+		assert.strictEqual(duraciones[0].unit, 's');
+	});
+
+	test('Estimates percentiles from histogram buckets', () => {
+		const metricas = prometheusToLiveMetrics(parsePrometheus(texto), proveedores).filter(m => m.name === 'app_latency');
+
+		assert.strictEqual(metricas[0].provider, 'Prometheus');
+		assert.deepStrictEqual(metricas.map(m => m.tags), ['Percentile=50', 'Percentile=95', 'Percentile=99']);
+		assert.strictEqual(metricas[0].value, 0.1);
+		assert.ok(Math.abs(metricas[1].value - 0.91) < 1e-9);
+		assert.ok(isNaN(histogramQuantile(0.5, [])));
+	});
+});
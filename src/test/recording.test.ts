@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { createRecordingHeader, formatRecordedMetric, parseRecording } from '../recording';
+
+suite('Metric session recordings', () => {
+	const cpu = { provider: 'System.Runtime', name: 'cpu-usage', displayName: 'CPU Usage', unit: '%', counterType: 'Metric', value: 0.25 };
+	const heap = { provider: 'System.Runtime', name: 'gc-heap-size', displayName: 'GC Heap Size', unit: 'MB', counterType: 'Metric', value: 12 };
+
+	test('Reads back what was recorded', () => {
+		const texto = createRecordingHeader(1234, new Date('2026-10-19T10:00:00Z'), 'Orders.Api', 'livemetrics')
+			+ formatRecordedMetric(1000, cpu)
+			+ formatRecordedMetric(1005, heap);
+		const grabacion = parseRecording(texto);
+
+		assert.strictEqual(grabacion.header?.pid, 1234);
+		assert.strictEqual(grabacion.header?.processName, 'Orders.Api');
+		assert.deepStrictEqual(grabacion.records, [{ t: 1000, metric: cpu }, { t: 1005, metric: heap }]);
+	});
+
+	test('Accepts raw json-seq records from /livemetrics', () => {
+		const texto = [
+			{ ...heap, timestamp: '2026-10-19T10:00:05Z' },
+			{ ...cpu, timestamp: '2026-10-19T10:00:00Z' }
+		].map(r => '\x1E' + JSON.stringify(r) + '\n').join('');
+		const grabacion = parseRecording(texto);
+
+		assert.strictEqual(grabacion.header, undefined);
+		assert.deepStrictEqual(grabacion.records.map(r => r.metric.name), ['cpu-usage', 'gc-heap-size']);
+		assert.strictEqual(grabacion.records[1].t - grabacion.records[0].t, 5000);
+	});
+
+	test('Skips lines that are not metrics', () => {
+		const grabacion = parseRecording('not json\n{"t":1,"metric":{"name":"x"}}\n' + formatRecordedMetric(2, cpu));
+
+		assert.deepStrictEqual(grabacion.records, [{ t: 2, metric: cpu }]);
+	});
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { parseSpeedscope } from '../speedscope';
+
+suite('Speedscope parser', () => {
+	const frames = [{ name: 'Main' }, { name: 'Run' }, { name: 'Sleep' }];
+
+	test('Reads evented profiles as one weighted stack per interval', () => {
+		const data = parseSpeedscope({
+			shared: { frames },
+			profiles: [{
+				type: 'evented',
+				name: 'Thread (1234)',
+				events: [
+					{ type: 'O', frame: 0, at: 0 },
+					{ type: 'O', frame: 1, at: 0 },
+					{ type: 'O', frame: 2, at: 2 },
+					{ type: 'C', frame: 2, at: 5 },
+					{ type: 'C', frame: 1, at: 5 },
+					{ type: 'C', frame: 0, at: 5 }
+				]
+			}]
+		});
+
+		assert.deepStrictEqual(data.frames, ['Main', 'Run', 'Sleep']);
+		assert.strictEqual(data.threads[0].name, 'Thread (1234)');
+		assert.deepStrictEqual(data.threads[0].stacks, [
+			{ frames: [0, 1], weight: 2 },
+			{ frames: [0, 1, 2], weight: 3 }
+		]);
+	});
+
+	test('Gives weight 1 to each leaf stack when all events share a timestamp', () => {
+		const data = parseSpeedscope({
+			shared: { frames },
+			profiles: [{
+				type: 'evented',
+				events: [
+					{ type: 'O', frame: 0, at: 0 },
+					{ type: 'O', frame: 2, at: 0 },
+					{ type: 'C', frame: 2, at: 0 },
+					{ type: 'O', frame: 1, at: 0 },
+					{ type: 'C', frame: 1, at: 0 },
+					{ type: 'C', frame: 0, at: 0 }
+				]
+			}]
+		});
+
+		assert.strictEqual(data.threads[0].name, 'Thread 1');
+		assert.deepStrictEqual(data.threads[0].stacks, [
+			{ frames: [0, 2], weight: 1 },
+			{ frames: [0, 1], weight: 1 }
+		]);
+	});
+
+	test('Reads sampled profiles with optional weights', () => {
+		const data = parseSpeedscope({
+			shared: { frames },
+			profiles: [{ type: 'sampled', samples: [[0, 1], [0, 2]], weights: [10, 20] }]
+		});
+
+		assert.deepStrictEqual(data.threads[0].stacks, [
+			{ frames: [0, 1], weight: 10 },
+			{ frames: [0, 2], weight: 20 }
+		]);
+	});
+
+	test('Rejects files without frames or profiles', () => {
+		assert.throws(() => parseSpeedscope({ profiles: [] }));
+	});
+});